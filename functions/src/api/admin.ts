@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import {
+  AdminUserSummary,
+  AdminUsersResponse,
+  AllowedEmailsResponse,
+  ConversationMigrationResponse,
+  SearchIndexBackfillResponse,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { indexHistory } from '../services/searchIndex';
+
+/**
+ * Admin-only routes. The router checks the `admin` custom claim before any of
+ * these run; the handlers assume the caller is an admin.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ---------------------------------------------------------------------------
+// Allowed emails
+// ---------------------------------------------------------------------------
+
+/** GET /api/admin/allowed-emails */
+export async function handleListAllowedEmails(
+  req: Request,
+  res: Response,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const response: AllowedEmailsResponse = {
+      allowedEmails: await repo.listAllowedEmails(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in GET /api/admin/allowed-emails:', error);
+    res.status(500).json({ error: 'Failed to list allowed emails' });
+  }
+}
+
+/** POST /api/admin/allowed-emails { email } */
+export async function handleAddAllowedEmail(
+  req: Request,
+  res: Response,
+  adminEmail: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { email } = req.body as { email?: string };
+    if (!email || typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      res.status(400).json({ error: 'A valid email is required' });
+      return;
+    }
+
+    await repo.addAllowedEmail(email, adminEmail);
+    console.log(`[Admin] ${adminEmail} allowed ${email.toLowerCase().trim()}`);
+
+    const response: AllowedEmailsResponse = {
+      allowedEmails: await repo.listAllowedEmails(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in POST /api/admin/allowed-emails:', error);
+    res.status(500).json({ error: 'Failed to add allowed email' });
+  }
+}
+
+/**
+ * DELETE /api/admin/allowed-emails/:email
+ *
+ * Only stops new registrations; an existing account keeps working.
+ */
+export async function handleRemoveAllowedEmail(
+  req: Request,
+  res: Response,
+  adminEmail: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const encoded = req.path.split('/allowed-emails/')[1];
+    const email = encoded ? decodeURIComponent(encoded) : '';
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    if (!(await repo.isEmailAllowed(email))) {
+      res.status(404).json({ error: 'Email is not on the allowed list' });
+      return;
+    }
+
+    await repo.removeAllowedEmail(email);
+    console.log(`[Admin] ${adminEmail} removed ${email.toLowerCase().trim()}`);
+
+    const response: AllowedEmailsResponse = {
+      allowedEmails: await repo.listAllowedEmails(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in DELETE /api/admin/allowed-emails:', error);
+    res.status(500).json({ error: 'Failed to remove allowed email' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+/** GET /api/admin/users — every user with their active season and arc. */
+export async function handleListUsers(
+  req: Request,
+  res: Response,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const userIds = await repo.getAllUserIds();
+
+    const users = await Promise.all(
+      userIds.map(async (userId): Promise<AdminUserSummary | null> => {
+        const [profile, season, arc] = await Promise.all([
+          repo.getUserProfile(userId),
+          repo.getActiveSeason(userId),
+          repo.getActiveArc(userId),
+        ]);
+        if (!profile) return null;
+        return {
+          userId,
+          email: profile.email,
+          createdAt: profile.createdAt,
+          activeSeason: season ? { id: season.id, seasonNumber: season.seasonNumber } : null,
+          activeArc: arc
+            ? {
+                id: arc.id,
+                theme: arc.theme,
+                orderInSeason: arc.orderInSeason,
+                dayInArc: await repo.calculateDayInArc(userId, arc),
+              }
+            : null,
+        };
+      })
+    );
+
+    const response: AdminUsersResponse = {
+      users: users
+        .filter((u): u is AdminUserSummary => u !== null)
+        .sort((a, b) => a.email.localeCompare(b.email)),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in GET /api/admin/users:', error);
+    res.status(500).json({ error: 'Failed to list users' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+/**
+ * POST /api/admin/migrations/conversation-messages — move every conversation
+ * still holding its messages inline into the messages subcollection. Safe to
+ * re-run; untouched conversations would also move on their next message.
+ */
+export async function handleMigrateConversationMessages(
+  req: Request,
+  res: Response,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const userIds = await repo.getAllUserIds();
+
+    let conversations = 0;
+    for (const userId of userIds) {
+      const moved = await repo.migrateConversationMessages(userId);
+      if (moved > 0) console.log(`[Admin] Moved ${moved} conversation(s) for ${userId}`);
+      conversations += moved;
+    }
+
+    const response: ConversationMigrationResponse = { users: userIds.length, conversations };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in POST /api/admin/migrations/conversation-messages:', error);
+    res.status(500).json({ error: 'Failed to migrate conversations' });
+  }
+}
+
+/**
+ * POST /api/admin/migrations/search-index — index every user's engaged
+ * bundles and sessions, so encounters from before search existed can be
+ * found. Safe to re-run.
+ */
+export async function handleBackfillSearchIndex(
+  req: Request,
+  res: Response,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const userIds = await repo.getAllUserIds();
+
+    let bundles = 0;
+    for (const userId of userIds) {
+      const indexed = await indexHistory(userId, repo);
+      if (indexed > 0) console.log(`[Admin] Indexed ${indexed} bundle(s) for ${userId}`);
+      bundles += indexed;
+    }
+
+    const response: SearchIndexBackfillResponse = { users: userIds.length, bundles };
+    res.json(response);
+  } catch (error) {
+    console.error('[Admin] Error in POST /api/admin/migrations/search-index:', error);
+    res.status(500).json({ error: 'Failed to backfill the search index' });
+  }
+}
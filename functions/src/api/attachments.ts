@@ -0,0 +1,105 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import {
+  AttachmentUploadRequest,
+  AttachmentUploadResponse,
+  IMAGE_MEDIA_TYPES,
+  ImageAttachment,
+  ImageMediaType,
+  MAX_IMAGE_BYTES,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { toTimestamp } from '../utils/firestore';
+import { detectImageMediaType } from '../utils/images';
+
+// Attachment ids are generated here (UUIDs) and become storage paths.
+export const ATTACHMENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+function isImageMediaType(value: unknown): value is ImageMediaType {
+  return IMAGE_MEDIA_TYPES.includes(value as ImageMediaType);
+}
+
+/**
+ * POST /api/attachments — store an image (base64 in the JSON body) for the
+ * user to send with a message. Returns the attachment whose id goes in the
+ * message's `imageIds`.
+ */
+export async function handleUploadAttachment(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { mediaType, data } = (req.body || {}) as AttachmentUploadRequest;
+    if (!isImageMediaType(mediaType)) {
+      res.status(400).json({ error: `mediaType must be one of ${IMAGE_MEDIA_TYPES.join(', ')}` });
+      return;
+    }
+    if (!data || typeof data !== 'string') {
+      res.status(400).json({ error: 'data is required' });
+      return;
+    }
+
+    const bytes = Buffer.from(data, 'base64');
+    if (bytes.length === 0) {
+      res.status(400).json({ error: 'data is required' });
+      return;
+    }
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      res.status(413).json({ error: `Images must be ${MAX_IMAGE_BYTES / (1024 * 1024)} MB or smaller` });
+      return;
+    }
+    if (detectImageMediaType(bytes) !== mediaType) {
+      res.status(400).json({ error: `data is not a valid ${mediaType} image` });
+      return;
+    }
+
+    const attachment: ImageAttachment = {
+      id: randomUUID(),
+      mediaType,
+      size: bytes.length,
+      createdAt: toTimestamp(new Date()),
+    };
+    await repo.saveImageAttachment(userId, attachment, bytes);
+    console.log(`[Attachments] Stored ${attachment.id} (${mediaType}, ${bytes.length} bytes) for ${userId}`);
+
+    const response: AttachmentUploadResponse = { attachment };
+    res.json(response);
+  } catch (error) {
+    console.error('[Attachments] Error in POST /api/attachments:', error);
+    res.status(500).json({ error: 'Failed to store image' });
+  }
+}
+
+/**
+ * GET /api/attachments/:id — the image's bytes. Attachments never change, so
+ * the browser may keep them.
+ */
+export async function handleGetAttachment(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const id = req.path.split('/').pop() || '';
+    const attachment = ATTACHMENT_ID_PATTERN.test(id)
+      ? await repo.getImageAttachment(userId, id)
+      : null;
+    const data = attachment && (await repo.getImageAttachmentData(userId, id));
+    if (!attachment || !data) {
+      res.status(404).json({ error: 'Image not found' });
+      return;
+    }
+
+    res.set({
+      'Content-Type': attachment.mediaType,
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    });
+    res.send(data);
+  } catch (error) {
+    console.error('[Attachments] Error in GET /api/attachments/:id:', error);
+    res.status(500).json({ error: 'Failed to load image' });
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import * as admin from 'firebase-admin';
 import { isEmailAllowed } from '../utils/firestore';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../services/emails';
 
 interface RegisterRequest {
   email: string;
@@ -47,12 +48,15 @@ export async function handleRegister(req: Request, res: Response): Promise<void>
       emailVerified: false,
     });
 
-    // Generate email verification link
-    const verificationLink = await admin.auth().generateEmailVerificationLink(email);
-
-    // In production, you'd send this link via email
-    // For now, we'll just log it and return success
-    console.log(`[Auth] Verification link for ${email}: ${verificationLink}`);
+    // Send the verification link. The account exists either way; if delivery
+    // fails the user can ask for another from the verify screen.
+    try {
+      const verificationLink = await admin.auth().generateEmailVerificationLink(email);
+      await sendVerificationEmail(email, verificationLink);
+      console.log(`[Auth] Sent verification email to ${email}`);
+    } catch (mailError) {
+      console.error(`[Auth] Failed to send verification email to ${email}:`, mailError);
+    }
 
     res.json({
       success: true,
@@ -94,10 +98,11 @@ export async function handleForgotPassword(req: Request, res: Response): Promise
     // This will throw if the user doesn't exist, but we don't want to reveal that
     try {
       const resetLink = await admin.auth().generatePasswordResetLink(email);
-      console.log(`[Auth] Password reset link for ${email}: ${resetLink}`);
+      await sendPasswordResetEmail(email, resetLink);
+      console.log(`[Auth] Sent password reset email to ${email}`);
     } catch (e) {
       // Log but don't reveal to user
-      console.log(`[Auth] Password reset requested for non-existent email: ${email}`);
+      console.log(`[Auth] Password reset not sent for ${email}:`, e);
     }
 
     // Always return success to prevent email enumeration
@@ -127,7 +132,8 @@ export async function handleResendVerification(
 
     // Generate new verification link
     const verificationLink = await admin.auth().generateEmailVerificationLink(email);
-    console.log(`[Auth] Resent verification link for ${email}: ${verificationLink}`);
+    await sendVerificationEmail(email, verificationLink);
+    console.log(`[Auth] Resent verification email to ${email}`);
 
     res.json({
       success: true,
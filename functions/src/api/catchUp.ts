@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { CatchUpChoice, CatchUpRequest, CatchUpResponse } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { applyCatchUp, getCatchUpOffer } from '../services/catchUp';
+
+const CHOICES: CatchUpChoice[] = ['resume', 'restart', 'skip'];
+
+/**
+ * POST /api/arc/catch-up — answer the `catch_up` offer from GET /api/today.
+ * Only valid while the offer stands; the client reloads Today afterwards to
+ * poll the bundle it leads to.
+ */
+export async function handleCatchUp(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { choice } = (req.body || {}) as CatchUpRequest;
+    if (!CHOICES.includes(choice)) {
+      res.status(400).json({ error: `choice must be one of: ${CHOICES.join(', ')}` });
+      return;
+    }
+
+    const arc = await repo.getActiveArc(userId);
+    if (!arc) {
+      res.status(404).json({ error: 'No active arc found' });
+      return;
+    }
+
+    const offer = await getCatchUpOffer(userId, arc, repo);
+    if (!offer) {
+      res.status(409).json({ error: 'There is nothing to catch up on' });
+      return;
+    }
+    if (choice === 'skip' && !offer.nextArc) {
+      res.status(409).json({ error: 'This is the last arc of the course; there is none to skip to' });
+      return;
+    }
+
+    const active = await applyCatchUp(userId, arc, choice, offer.daysAway, repo);
+    const response: CatchUpResponse = { arc: active };
+    res.json(response);
+  } catch (error) {
+    console.error('[CatchUp] Error in POST /api/arc/catch-up:', error);
+    res.status(500).json({ error: 'Failed to catch up' });
+  }
+}
@@ -1,8 +1,15 @@
 import { Request, Response } from 'express';
-import { getConversation, getBundle, getArc, getArcBundles } from '../utils/firestore';
+import { ConversationHistoryQuery } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+
+const DEFAULT_MESSAGE_PAGE = 50;
+const MAX_MESSAGE_PAGE = 200;
 
 /**
- * GET /api/history/:bundleId/conversation
+ * GET /api/history/:bundleId/conversation?limit=&before=
+ *
+ * The latest `limit` messages, or those just before position `before`;
+ * `nextCursor` continues with earlier ones.
  *
  * Identity is now bundle-based. For best-effort legacy support, the path
  * segment may also be a legacy date-keyed bundle id (YYYY-MM-DD) — both are
@@ -11,7 +18,8 @@ import { getConversation, getBundle, getArc, getArcBundles } from '../utils/fire
 export async function handleGetConversation(
   req: Request,
   res: Response,
-  userId: string
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
 ): Promise<void> {
   try {
     const pathParts = req.path.split('/');
@@ -23,9 +31,19 @@ export async function handleGetConversation(
       return;
     }
 
-    const [conversation, bundle] = await Promise.all([
-      getConversation(userId, bundleId),
-      getBundle(userId, bundleId),
+    const { limit, before } = req.query as unknown as ConversationHistoryQuery;
+    const parsedLimit = limit
+      ? Math.min(Math.max(1, Number(limit) || DEFAULT_MESSAGE_PAGE), MAX_MESSAGE_PAGE)
+      : DEFAULT_MESSAGE_PAGE;
+    const parsedBefore = before !== undefined ? Number(before) : undefined;
+    if (parsedBefore !== undefined && !(Number.isInteger(parsedBefore) && parsedBefore > 0)) {
+      res.status(400).json({ error: 'before must be a positive integer' });
+      return;
+    }
+
+    const [page, bundle] = await Promise.all([
+      repo.getConversationMessages(userId, bundleId, parsedLimit, parsedBefore),
+      repo.getBundle(userId, bundleId),
     ]);
 
     if (!bundle) {
@@ -33,18 +51,19 @@ export async function handleGetConversation(
       return;
     }
 
-    const arc = await getArc(userId, bundle.arcId);
+    const arc = await repo.getArc(userId, bundle.arcId);
 
     // Day in arc: prefer the bundle's own field; fall back to position.
     let dayInArc = bundle.dayInArc || 1;
     if (!bundle.dayInArc && arc) {
-      const arcBundles = await getArcBundles(userId, arc.id);
+      const arcBundles = await repo.getArcBundles(userId, arc.id);
       const idx = arcBundles.findIndex(b => b.id === bundle.id);
       dayInArc = idx >= 0 ? idx + 1 : 1;
     }
 
     res.json({
-      conversation,
+      conversation: page.conversation && { ...page.conversation, messages: page.messages },
+      nextCursor: page.start > 0 ? page.start : null,
       bundle,
       arc: arc
         ? {
@@ -1,25 +1,30 @@
 import { Request, Response } from 'express';
-import { getBundle, getLatestBundleForArc, getActiveArc } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
 import { extractAndEndSession } from '../services/insightExtractor';
 import { EndSessionResponse } from '../types';
 
-async function resolveBundle(userId: string, bundleId?: string) {
+async function resolveBundle(
+  userId: string,
+  bundleId: string | undefined,
+  repo: PrimerRepository
+) {
   if (bundleId) {
-    return getBundle(userId, bundleId);
+    return repo.getBundle(userId, bundleId);
   }
-  const arc = await getActiveArc(userId);
+  const arc = await repo.getActiveArc(userId);
   if (!arc) return null;
-  return getLatestBundleForArc(userId, arc.id);
+  return repo.getLatestBundleForArc(userId, arc.id, await repo.getTimeZone(userId));
 }
 
 export async function handleEndArcEarly(
   req: Request,
   res: Response,
-  userId: string
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
 ): Promise<void> {
   try {
     const { bundleId } = req.body as { bundleId?: string };
-    const bundle = await resolveBundle(userId, bundleId);
+    const bundle = await resolveBundle(userId, bundleId, repo);
 
     if (!bundle) {
       res.status(404).json({ error: 'No bundle found for today' });
@@ -27,7 +32,7 @@ export async function handleEndArcEarly(
     }
 
     // End session + force arc completion regardless of day count.
-    const result = await extractAndEndSession(userId, bundle.id, bundle, true);
+    const result = await extractAndEndSession(userId, bundle.id, bundle, true, repo);
 
     const response: EndSessionResponse = {
       success: true,
@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { ExportFormat, ExportQuery } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { buildExportArchive, renderEpub, renderMarkdown } from '../services/exportArchive';
+import { dayKey } from '../utils/firestore';
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  epub: { contentType: 'application/epub+zip', extension: 'epub' },
+};
+
+function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FORMATS, value);
+}
+
+/**
+ * GET /api/export?format=json|markdown|epub — the user's whole history as a
+ * download. JSON (the default) is the complete archive.
+ */
+export async function handleExport(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { format = 'json' } = req.query as unknown as ExportQuery;
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: `format must be one of ${Object.keys(FORMATS).join(', ')}` });
+      return;
+    }
+
+    const archive = await buildExportArchive(userId, repo);
+    const body =
+      format === 'epub'
+        ? renderEpub(archive)
+        : format === 'markdown'
+          ? renderMarkdown(archive)
+          : JSON.stringify(archive, null, 2);
+
+    const timeZone = await repo.getTimeZone(userId);
+    const { contentType, extension } = FORMATS[format];
+    console.log(
+      `[Export] ${format} export for ${userId}: ${archive.bundles.length} bundles`
+    );
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="personal-primer-${dayKey(new Date(), timeZone)}.${extension}"`,
+    });
+    res.send(body);
+  } catch (error) {
+    console.error('[Export] Error in GET /api/export:', error);
+    res.status(500).json({ error: 'Failed to export history' });
+  }
+}
@@ -1,26 +1,48 @@
 import { Request, Response } from 'express';
-import { HistoryQuery, DailyBundle } from '../types';
-import { getBundleHistory, getArc } from '../utils/firestore';
+import { Arc, HistoryQuery, DailyBundle } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
 
 interface ArcWithBundles {
   arc: {
     id: string;
     theme: string;
     description: string;
+    status: Arc['status'] | null;
+    retrospective: string | null;
   };
   bundles: DailyBundle[];
 }
 
+interface HistoryResponse {
+  arcGroups: ArcWithBundles[];
+  bundles: DailyBundle[];
+  // Pass as `before` for the next (older) page; null on the last page.
+  nextCursor: string | null;
+}
+
+/**
+ * GET /api/history?limit=&before= — engaged bundles, newest first, grouped by
+ * arc. Pages continue from the `nextCursor` of the previous one.
+ */
 export async function handleGetHistory(
   req: Request,
   res: Response,
-  userId: string
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
 ): Promise<void> {
   try {
-    const { limit } = req.query as unknown as HistoryQuery;
+    const { limit, before } = req.query as unknown as HistoryQuery;
     const parsedLimit = limit ? Math.min(Math.max(1, Number(limit)), 100) : 30;
 
-    const bundles = await getBundleHistory(userId, parsedLimit);
+    if (before && !(await repo.getBundle(userId, before))) {
+      res.status(400).json({ error: 'Unknown history cursor' });
+      return;
+    }
+
+    // One past the page tells whether there is another.
+    const page = await repo.getBundleHistory(userId, parsedLimit + 1, before || undefined);
+    const bundles = page.slice(0, parsedLimit);
+    const nextCursor = page.length > parsedLimit ? bundles[bundles.length - 1].id : null;
 
     // Group bundles by arcId (works for both new bundles and legacy ones,
     // which also carry an arcId).
@@ -36,18 +58,35 @@ export async function handleGetHistory(
       bundlesByArc.get(arcId)!.push(bundle);
     }
 
+    const arcs = new Map(
+      (await repo.getArcs(userId, arcOrder)).map(arc => [arc.id, arc])
+    );
+
     const arcGroups: ArcWithBundles[] = [];
     for (const arcId of arcOrder) {
-      const arc = await getArc(userId, arcId);
+      const arc = arcs.get(arcId);
       arcGroups.push({
         arc: arc
-          ? { id: arc.id, theme: arc.theme, description: arc.description }
-          : { id: arcId, theme: 'Earlier Encounters', description: '' },
+          ? {
+              id: arc.id,
+              theme: arc.theme,
+              description: arc.description,
+              status: arc.status,
+              retrospective: arc.retrospective ?? null,
+            }
+          : {
+              id: arcId,
+              theme: 'Earlier Encounters',
+              description: '',
+              status: null,
+              retrospective: null,
+            },
         bundles: bundlesByArc.get(arcId)!,
       });
     }
 
-    res.json({ arcGroups, bundles });
+    const response: HistoryResponse = { arcGroups, bundles, nextCursor };
+    res.json(response);
   } catch (error) {
     console.error('[History] Error in GET /api/history:', error);
     res.status(500).json({ error: 'Failed to get history' });
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { ImportResponse } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { parseArchive, restoreArchive } from '../services/importArchive';
+
+// Enough to act on without flooding the response.
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * POST /api/import — restore a JSON export (GET /api/export) into this
+ * account. Only for accounts with nothing encountered yet: the season planned
+ * at sign-up and any unopened bundle are replaced by the archive's.
+ */
+export async function handleImport(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { archive, errors } = parseArchive(req.body);
+    if (!archive) {
+      res.status(400).json({
+        error: `Invalid archive: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${
+          errors.length > MAX_REPORTED_ERRORS
+            ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)`
+            : ''
+        }`,
+      });
+      return;
+    }
+
+    if ((await repo.getBundleHistory(userId, 1)).length > 0) {
+      res.status(409).json({
+        error: 'Import only restores into an account with no encounters yet',
+      });
+      return;
+    }
+
+    const imported = await restoreArchive(userId, archive, repo);
+    console.log(`[Import] Restored archive for ${userId}:`, imported);
+    const response: ImportResponse = { imported };
+    res.json(response);
+  } catch (error) {
+    console.error('[Import] Error in POST /api/import:', error);
+    res.status(500).json({ error: 'Failed to import archive' });
+  }
+}
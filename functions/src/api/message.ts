@@ -1,15 +1,18 @@
 import { Request, Response } from 'express';
-import { MessageRequest, MessageResponse } from '../types';
 import {
-  getBundle,
-  getCurrentUnengagedBundle,
-  getLatestBundleForArc,
-  getActiveArc,
-  getArc,
-  engageBundle,
-  getConversation,
-} from '../utils/firestore';
+  Arc,
+  CLIENT_MESSAGE_ID_PATTERN,
+  DailyBundle,
+  ImageAttachment,
+  MAX_IMAGES_PER_MESSAGE,
+  MessageRequest,
+  MessageResponse,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
 import { handleMessage } from '../services/conversationManager';
+import { indexBundle } from '../services/searchIndex';
+import { refundRequest } from '../middleware/budget';
+import { ATTACHMENT_ID_PATTERN } from './attachments';
 
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error) {
@@ -24,61 +27,273 @@ function getErrorMessage(error: unknown): string {
   return 'Failed to process message';
 }
 
+// A claim still pending after this long is taken to have died with its
+// request, and a retry runs the turn again.
+const CLAIM_STALE_MS = 5 * 60 * 1000;
+
+type MessageTarget =
+  | {
+      ok: true;
+      message: string;
+      bundle: DailyBundle;
+      arc: Arc;
+      clientMessageId?: string;
+      images: ImageAttachment[];
+    }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Validate the request and resolve the bundle (and its arc) the message
+ * belongs to. The first message of a bundle marks it engaged.
+ */
+async function resolveMessageTarget(
+  req: Request,
+  userId: string,
+  repo: PrimerRepository
+): Promise<MessageTarget> {
+  const { message = '', bundleId, clientMessageId, imageIds = [] } = req.body as MessageRequest;
+
+  if (
+    !Array.isArray(imageIds) ||
+    imageIds.length > MAX_IMAGES_PER_MESSAGE ||
+    !imageIds.every(id => typeof id === 'string' && ATTACHMENT_ID_PATTERN.test(id))
+  ) {
+    return {
+      ok: false,
+      status: 400,
+      error: `imageIds must be a list of at most ${MAX_IMAGES_PER_MESSAGE} image ids`,
+    };
+  }
+
+  if (typeof message !== 'string' || (!message.trim() && imageIds.length === 0)) {
+    return { ok: false, status: 400, error: 'Message is required' };
+  }
+
+  if (
+    clientMessageId !== undefined &&
+    !(typeof clientMessageId === 'string' && CLIENT_MESSAGE_ID_PATTERN.test(clientMessageId))
+  ) {
+    return { ok: false, status: 400, error: 'Invalid clientMessageId' };
+  }
+
+  const images: ImageAttachment[] = [];
+  for (const id of imageIds) {
+    const image = await repo.getImageAttachment(userId, id);
+    if (!image) {
+      return { ok: false, status: 400, error: `Unknown image ${id}` };
+    }
+    images.push(image);
+  }
+
+  const arc = await repo.getActiveArc(userId);
+  if (!arc) {
+    return { ok: false, status: 500, error: 'No active arc found' };
+  }
+
+  // Resolve the bundle: explicit bundleId, else the current un-engaged
+  // bundle, else the latest bundle of the active arc (for follow-up messages
+  // after the bundle was already engaged by the first message).
+  let bundle: DailyBundle | null = null;
+  if (bundleId) {
+    bundle = await repo.getBundle(userId, bundleId);
+  } else {
+    const timeZone = await repo.getTimeZone(userId);
+    bundle =
+      (await repo.getCurrentUnengagedBundle(userId, arc.id, timeZone)) ||
+      (await repo.getLatestBundleForArc(userId, arc.id, timeZone));
+  }
+
+  if (!bundle) {
+    return { ok: false, status: 404, error: 'No bundle found for today' };
+  }
+
+  // The bundle's arc drives the conversation context (it may be a prior arc
+  // if the user is finishing a conversation after the arc advanced).
+  const bundleArc = (await repo.getArc(userId, bundle.arcId)) || arc;
+
+  // First message marks the bundle engaged, creates exposures and makes it
+  // searchable.
+  const existingConversation = await repo.getConversation(userId, bundle.id);
+  if (!existingConversation) {
+    await repo.engageBundle(userId, bundle);
+    bundle = { ...bundle, engaged: true };
+    await indexBundle(userId, bundle, repo);
+  }
+
+  return { ok: true, message, bundle, arc: bundleArc, clientMessageId, images };
+}
+
+type TurnClaim =
+  | { kind: 'run' }
+  | { kind: 'replay'; result: MessageResponse }
+  | { kind: 'in_progress' };
+
+/**
+ * Claim the turn's client message id before spending a model call on it. A
+ * retry of a turn already answered gets the stored reply back; one whose
+ * first attempt is still running is turned away.
+ */
+async function claimTurn(
+  userId: string,
+  target: Extract<MessageTarget, { ok: true }>,
+  repo: PrimerRepository
+): Promise<TurnClaim> {
+  const { clientMessageId } = target;
+  if (!clientMessageId) return { kind: 'run' };
+
+  const claim = await repo.claimMessage(
+    userId,
+    clientMessageId,
+    target.bundle.id,
+    new Date(Date.now() - CLAIM_STALE_MS)
+  );
+  if (!claim) return { kind: 'run' };
+  if (claim.status === 'pending') return { kind: 'in_progress' };
+
+  console.log(`[Message] Replaying answered message ${clientMessageId}`);
+  const conversation = await repo.getConversation(userId, claim.bundleId);
+  return {
+    kind: 'replay',
+    result: {
+      response: claim.response ?? '',
+      conversation: conversation!,
+      sessionShouldEnd: claim.sessionShouldEnd,
+      arcShouldEnd: claim.arcShouldEnd,
+      replayed: true,
+    },
+  };
+}
+
+const IN_PROGRESS_ERROR = 'This message is still being answered';
+
+/** Run a claimed turn, freeing the claim if it fails so a retry can run it. */
+async function runTurn(
+  userId: string,
+  target: Extract<MessageTarget, { ok: true }>,
+  repo: PrimerRepository,
+  onText?: (delta: string) => void
+): Promise<MessageResponse> {
+  try {
+    const { response, conversation, sessionShouldEnd, arcShouldEnd } = await handleMessage(
+      userId,
+      target.message,
+      target.bundle,
+      target.arc,
+      repo,
+      onText,
+      target.clientMessageId,
+      target.images
+    );
+    return { response, conversation, sessionShouldEnd, arcShouldEnd };
+  } catch (error) {
+    if (target.clientMessageId) {
+      await repo.releaseMessageClaim(userId, target.clientMessageId).catch(releaseError =>
+        console.error('[Message] Failed to release message claim:', releaseError)
+      );
+    }
+    throw error;
+  }
+}
+
 export async function handlePostMessage(
   req: Request,
   res: Response,
-  userId: string
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
 ): Promise<void> {
   try {
-    const { message, bundleId } = req.body as MessageRequest;
-
-    if (!message || typeof message !== 'string') {
-      res.status(400).json({ error: 'Message is required' });
+    const target = await resolveMessageTarget(req, userId, repo);
+    if (!target.ok) {
+      await refundRequest(res, userId, repo);
+      res.status(target.status).json({ error: target.error });
       return;
     }
 
-    const arc = await getActiveArc(userId);
-    if (!arc) {
-      res.status(500).json({ error: 'No active arc found' });
+    // Only a turn that runs uses up a message of the daily budget.
+    const claim = await claimTurn(userId, target, repo);
+    if (claim.kind !== 'run') await refundRequest(res, userId, repo);
+    if (claim.kind === 'in_progress') {
+      res.status(409).json({ error: IN_PROGRESS_ERROR });
       return;
     }
 
-    // Resolve the bundle: explicit bundleId, else the current un-engaged
-    // bundle, else the latest bundle of the active arc (for follow-up messages
-    // after the bundle was already engaged by the first message).
-    let bundle = bundleId
-      ? await getBundle(userId, bundleId)
-      : (await getCurrentUnengagedBundle(userId, arc.id)) ||
-        (await getLatestBundleForArc(userId, arc.id));
+    const result: MessageResponse =
+      claim.kind === 'replay' ? claim.result : await runTurn(userId, target, repo);
+    res.json(result);
+  } catch (error) {
+    console.error('[Message] Error in POST /api/today/message:', error);
+    await refundRequest(res, userId, repo);
+    res.status(500).json({ error: getErrorMessage(error) });
+  }
+}
 
-    if (!bundle) {
-      res.status(404).json({ error: 'No bundle found for today' });
+// ---------------------------------------------------------------------------
+// POST /api/today/message/stream
+// ---------------------------------------------------------------------------
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streaming variant of POST /api/today/message, as Server-Sent Events:
+ *
+ * - `delta` { text }           — a fragment of the guide's reply
+ * - `done`  MessageResponse    — the persisted conversation and session flags
+ * - `error` { error }          — the turn failed after the stream opened
+ *
+ * Validation failures (and a retry of a turn still running, 409) are
+ * reported before the stream opens, as plain JSON with the same status codes
+ * as the non-streaming endpoint.
+ */
+export async function handlePostMessageStream(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  let streaming = false;
+  try {
+    const target = await resolveMessageTarget(req, userId, repo);
+    if (!target.ok) {
+      await refundRequest(res, userId, repo);
+      res.status(target.status).json({ error: target.error });
       return;
     }
 
-    // The bundle's arc drives the conversation context (it may be a prior arc
-    // if the user is finishing a conversation after the arc advanced).
-    const bundleArc = (await getArc(userId, bundle.arcId)) || arc;
-
-    // First message marks the bundle engaged and creates exposures.
-    const existingConversation = await getConversation(userId, bundle.id);
-    if (!existingConversation) {
-      await engageBundle(userId, bundle);
-      bundle = { ...bundle, engaged: true };
+    // Only a turn that runs uses up a message of the daily budget.
+    const claim = await claimTurn(userId, target, repo);
+    if (claim.kind !== 'run') await refundRequest(res, userId, repo);
+    if (claim.kind === 'in_progress') {
+      res.status(409).json({ error: IN_PROGRESS_ERROR });
+      return;
     }
 
-    const { response, conversation, sessionShouldEnd, arcShouldEnd } =
-      await handleMessage(userId, message, bundle, bundleArc);
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    streaming = true;
 
-    const result: MessageResponse = {
-      response,
-      conversation,
-      sessionShouldEnd,
-      arcShouldEnd,
-    };
-    res.json(result);
+    // A replay has no deltas: the stored reply arrives whole in `done`.
+    const result: MessageResponse =
+      claim.kind === 'replay'
+        ? claim.result
+        : await runTurn(userId, target, repo, text => writeEvent(res, 'delta', { text }));
+    writeEvent(res, 'done', result);
+    res.end();
   } catch (error) {
-    console.error('[Message] Error in POST /api/today/message:', error);
-    res.status(500).json({ error: getErrorMessage(error) });
+    console.error('[Message] Error in POST /api/today/message/stream:', error);
+    await refundRequest(res, userId, repo);
+    if (streaming) {
+      writeEvent(res, 'error', { error: getErrorMessage(error) });
+      res.end();
+    } else {
+      res.status(500).json({ error: getErrorMessage(error) });
+    }
   }
 }
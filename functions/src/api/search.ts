@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { SearchQuery, SearchResponse } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { searchBundles } from '../services/searchIndex';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * GET /api/search?q=&limit= — the user's past encounters whose artifacts,
+ * framing, conversation or session summary contain every word of `q`.
+ */
+export async function handleSearch(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { q, limit } = req.query as unknown as SearchQuery;
+    const query = typeof q === 'string' ? q.trim().slice(0, MAX_QUERY_LENGTH) : '';
+    if (!query) {
+      res.status(400).json({ error: 'q is required' });
+      return;
+    }
+    const parsed = Number(limit);
+    const parsedLimit = Number.isFinite(parsed)
+      ? Math.min(Math.max(1, Math.floor(parsed)), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    const response: SearchResponse = {
+      query,
+      results: await searchBundles(userId, query, parsedLimit, repo),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('[Search] Error in GET /api/search:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+}
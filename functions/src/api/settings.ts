@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import {
+  CadenceSettings,
+  DigestSettings,
+  SEASON_SHAPE_LIMITS,
+  SeasonShape,
+  UpdateSettingsRequest,
+  UserSettings,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  resolveCadence,
+  resolveSeasonShape,
+} from '../utils/firestore';
+
+// Off until the user opts in; 07:00 in their time zone once they do.
+export const DEFAULT_DIGEST: DigestSettings = { enabled: false, sendHour: 7 };
+
+async function loadSettings(userId: string, repo: PrimerRepository): Promise<UserSettings> {
+  const profile = await repo.getUserProfile(userId);
+  return {
+    digest: { ...DEFAULT_DIGEST, ...(profile?.digest || {}) },
+    timezone: profile?.timezone || DEFAULT_TIMEZONE,
+    nextSeason: resolveSeasonShape(profile?.nextSeason),
+    cadence: resolveCadence(profile?.cadence),
+  };
+}
+
+// An error message for the first out-of-range field, or null if all are valid.
+function validateSeasonShape(shape: Partial<SeasonShape>): string | null {
+  for (const field of Object.keys(SEASON_SHAPE_LIMITS) as (keyof SeasonShape)[]) {
+    const value = shape[field];
+    const { min, max } = SEASON_SHAPE_LIMITS[field];
+    if (value !== undefined && !(Number.isInteger(value) && value >= min && value <= max)) {
+      return `nextSeason.${field} must be a whole number from ${min} to ${max}`;
+    }
+  }
+  return null;
+}
+
+// An error message if the cadence is unusable, or null if it is valid.
+function validateCadence(cadence: CadenceSettings): string | null {
+  const { days } = cadence;
+  if (!Array.isArray(days) || days.length === 0) {
+    return 'cadence.days must list at least one day of the week';
+  }
+  if (!days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return 'cadence.days must be weekdays from 0 (Sunday) to 6 (Saturday)';
+  }
+  return null;
+}
+
+/**
+ * GET /api/user/settings — the user's editable settings, with defaults
+ * filled in.
+ */
+export async function handleGetSettings(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    res.json(await loadSettings(userId, repo));
+  } catch (error) {
+    console.error('[Settings] Error in GET /api/user/settings:', error);
+    res.status(500).json({ error: 'Failed to get settings' });
+  }
+}
+
+/**
+ * PUT /api/user/settings — update any subset of the settings. Returns the
+ * settings as saved. `nextSeason` applies from the next season planned; the
+ * current season keeps the shape it was planned with. `cadence` applies from
+ * the next bundle created.
+ */
+export async function handleUpdateSettings(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { digest, timezone, nextSeason, cadence } = (req.body || {}) as UpdateSettingsRequest;
+
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+      res.status(400).json({ error: 'timezone must be an IANA time zone, e.g. "Europe/Berlin"' });
+      return;
+    }
+
+    if (nextSeason !== undefined) {
+      const invalid =
+        typeof nextSeason !== 'object' || nextSeason === null
+          ? 'nextSeason must be an object'
+          : validateSeasonShape(nextSeason);
+      if (invalid) {
+        res.status(400).json({ error: invalid });
+        return;
+      }
+    }
+
+    if (cadence !== undefined) {
+      const invalid =
+        typeof cadence !== 'object' || cadence === null
+          ? 'cadence must be an object'
+          : validateCadence(cadence);
+      if (invalid) {
+        res.status(400).json({ error: invalid });
+        return;
+      }
+    }
+
+    if (digest !== undefined) {
+      if (typeof digest !== 'object' || digest === null) {
+        res.status(400).json({ error: 'digest must be an object' });
+        return;
+      }
+      if (digest.enabled !== undefined && typeof digest.enabled !== 'boolean') {
+        res.status(400).json({ error: 'digest.enabled must be true or false' });
+        return;
+      }
+      if (
+        digest.sendHour !== undefined &&
+        !(Number.isInteger(digest.sendHour) && digest.sendHour >= 0 && digest.sendHour <= 23)
+      ) {
+        res.status(400).json({ error: 'digest.sendHour must be a whole hour from 0 to 23' });
+        return;
+      }
+
+      const current = await loadSettings(userId, repo);
+      await repo.updateUserSettings(userId, {
+        digest: {
+          enabled: digest.enabled ?? current.digest.enabled,
+          sendHour: digest.sendHour ?? current.digest.sendHour,
+        },
+      });
+    }
+
+    if (timezone !== undefined) {
+      await repo.updateUserSettings(userId, { timezone });
+    }
+
+    if (nextSeason !== undefined) {
+      const current = await loadSettings(userId, repo);
+      await repo.updateUserSettings(userId, {
+        nextSeason: {
+          arcsPerSeason: nextSeason.arcsPerSeason ?? current.nextSeason.arcsPerSeason,
+          arcDurationDays: nextSeason.arcDurationDays ?? current.nextSeason.arcDurationDays,
+        },
+      });
+    }
+
+    if (cadence !== undefined) {
+      await repo.updateUserSettings(userId, {
+        cadence: { days: [...new Set(cadence.days)].sort((a, b) => a - b) },
+      });
+    }
+
+    res.json(await loadSettings(userId, repo));
+  } catch (error) {
+    console.error('[Settings] Error in PUT /api/user/settings:', error);
+    res.status(500).json({ error: 'Failed to update settings' });
+  }
+}
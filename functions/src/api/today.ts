@@ -1,18 +1,18 @@
 import { Request, Response } from 'express';
 import { TodayResponse } from '../types';
 import {
-  getActiveArc,
-  getActiveSeason,
-  getConversation,
-  getCurrentUnengagedBundle,
-  calculateDayInArc,
-  createPendingBundle,
-  resetBundleToPending,
-  setBundleGenerationStatus,
+  DEFAULT_TIMEZONE,
+  bundleId,
+  isBundleAvailable,
+  isEncounterDay,
+  nextEncounterDay,
+  resolveCadence,
   isBundleStale,
   isBundleGenerationStuck,
 } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
 import { planNextSeason } from '../services/seasonPlanner';
+import { getCatchUpOffer } from '../services/catchUp';
 
 const MAX_GENERATION_ATTEMPTS = 3;
 
@@ -41,9 +41,13 @@ function getErrorMessage(error: unknown): string {
  *
  * Behaviour:
  * - ready bundle  → return { status: 'ready', ... }
+ * - next bundle prefetched for tomorrow → return today's engaged bundle again
  * - missing       → atomically create a pending bundle, return 'generating'
  * - pending/gen   → return 'generating'
  * - stale un-engaged ready bundle → reset to pending, return 'generating'
+ * - missing or stale on an off day of the user's cadence → return 'rest'
+ * - missing or stale after a long absence → return 'catch_up' (answered via
+ *   POST /api/arc/catch-up)
  * - failed (< 3 attempts) → reset to pending (auto-retry), return 'generating'
  * - failed (>= 3 attempts) → return 'failed'
  *
@@ -52,33 +56,77 @@ function getErrorMessage(error: unknown): string {
 export async function handleGetToday(
   req: Request,
   res: Response,
-  userId: string
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
 ): Promise<void> {
   try {
     // Ensure the user has a season; plan season 1 on first load.
-    let season = await getActiveSeason(userId);
+    let season = await repo.getActiveSeason(userId);
     if (!season) {
       console.log(`[Today] No season for user ${userId}; planning season 1.`);
-      await planNextSeason(userId);
-      season = await getActiveSeason(userId);
+      await planNextSeason(userId, repo);
+      season = await repo.getActiveSeason(userId);
     }
 
-    const arc = await getActiveArc(userId);
+    const arc = await repo.getActiveArc(userId);
     if (!arc) {
       res.status(500).json({ error: 'No active arc found for this season.' });
       return;
     }
 
     // Resolve today's encounter: at most one un-engaged bundle per user.
-    const bundle = await getCurrentUnengagedBundle(userId, arc.id);
+    // "Today" is the user's calendar day in their own time zone.
+    const profile = await repo.getUserProfile(userId);
+    const timeZone = profile?.timezone || DEFAULT_TIMEZONE;
+    const bundle = await repo.getCurrentUnengagedBundle(userId, arc.id, timeZone);
+
+    // Off days never start a new encounter. A bundle already made for today
+    // (e.g. before the cadence changed) is still served below.
+    const now = new Date();
+    const cadence = resolveCadence(profile?.cadence);
+    const rest: TodayResponse = {
+      status: 'rest',
+      nextEncounter: nextEncounterDay(now, cadence, timeZone),
+    };
+    const restDay = !isEncounterDay(now, cadence, timeZone);
 
     if (!bundle) {
+      if (restDay) {
+        res.json(rest);
+        return;
+      }
+
+      const offer = await getCatchUpOffer(userId, arc, repo, now);
+      if (offer) {
+        res.json(offer);
+        return;
+      }
+
+      const dayInArc = await repo.calculateDayInArc(userId, arc);
+
+      // The nightly prefetch may already hold the next slot for tomorrow.
+      // Until then, today's encounter is the one the user already engaged.
+      const next = await repo.getBundle(userId, bundleId(arc.id, dayInArc, arc.cycle));
+      if (next && !isBundleAvailable(next, timeZone)) {
+        const [engaged] = await repo.getBundleHistory(userId, 1);
+        if (engaged) {
+          const response: TodayResponse = {
+            status: 'ready',
+            bundle: engaged,
+            conversation: await repo.getConversation(userId, engaged.id),
+            arc: (await repo.getArc(userId, engaged.arcId)) || arc,
+            dayInArc: engaged.dayInArc,
+          };
+          res.json(response);
+          return;
+        }
+      }
+
       // No un-engaged bundle. Atomically create a pending one; the create
       // throws if a concurrent request already created it — in which case the
       // other request won and we simply report 'generating'.
-      const dayInArc = await calculateDayInArc(userId, arc);
       try {
-        await createPendingBundle(userId, arc.id, dayInArc);
+        await repo.createPendingBundle(userId, arc.id, dayInArc, { cycle: arc.cycle });
         console.log(
           `[Today] Created pending bundle for arc "${arc.theme}" day ${dayInArc}`
         );
@@ -109,7 +157,7 @@ export async function handleGetToday(
         console.warn(
           `[Today] Bundle ${bundle.id} stuck in 'generating'; marking failed for retry.`
         );
-        await setBundleGenerationStatus(userId, bundle.id, 'failed', {
+        await repo.setBundleGenerationStatus(userId, bundle.id, 'failed', {
           incrementAttempts: true,
         });
       }
@@ -123,7 +171,7 @@ export async function handleGetToday(
         console.log(
           `[Today] Bundle ${bundle.id} failed (attempt ${bundle.generationAttempts}); resetting to pending for retry.`
         );
-        await resetBundleToPending(userId, bundle.id);
+        await repo.resetBundleToPending(userId, bundle.id);
         const generating: TodayResponse = { status: 'generating' };
         res.json(generating);
       } else {
@@ -137,19 +185,32 @@ export async function handleGetToday(
     }
 
     // status === 'ready'
-    if (isBundleStale(bundle)) {
+    if (isBundleStale(bundle, timeZone)) {
+      // Left for the next encounter day, which regenerates it.
+      if (restDay) {
+        res.json(rest);
+        return;
+      }
+
+      // Back after a long absence: ask before regenerating it in place.
+      const offer = await getCatchUpOffer(userId, arc, repo, now);
+      if (offer) {
+        res.json(offer);
+        return;
+      }
+
       // Stale un-engaged bundle: reset to pending so the trigger regenerates
       // it in place (same id, same dayInArc, fresh content).
       console.log(
         `[Today] Resetting stale bundle ${bundle.id} (arc "${arc.theme}" day ${bundle.dayInArc}) for regeneration.`
       );
-      await resetBundleToPending(userId, bundle.id);
+      await repo.resetBundleToPending(userId, bundle.id);
       const generating: TodayResponse = { status: 'generating' };
       res.json(generating);
       return;
     }
 
-    const conversation = await getConversation(userId, bundle.id);
+    const conversation = await repo.getConversation(userId, bundle.id);
     const response: TodayResponse = {
       status: 'ready',
       bundle,
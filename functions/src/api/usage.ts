@@ -0,0 +1,37 @@
+import { Request, Response } from 'express';
+import { UsageQuery } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { summarizeUsage } from '../services/usageLedger';
+import { startOfDay } from '../utils/firestore';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+/**
+ * GET /api/user/usage?days=N — the user's model usage and estimated cost over
+ * the last N days (default 30, at most 90), by day and by purpose.
+ */
+export async function handleGetUsage(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  try {
+    const { days } = req.query as unknown as UsageQuery;
+    const parsed = Number(days);
+    const window = Number.isFinite(parsed)
+      ? Math.min(Math.max(1, Math.floor(parsed)), MAX_DAYS)
+      : DEFAULT_DAYS;
+
+    // Today and the window - 1 calendar days before it.
+    const timeZone = await repo.getTimeZone(userId);
+    const since = startOfDay(new Date(Date.now() - (window - 1) * 24 * 60 * 60 * 1000), timeZone);
+    const records = await repo.getLlmUsageSince(userId, since);
+
+    res.json(summarizeUsage(records, window, timeZone));
+  } catch (error) {
+    console.error('[Usage] Error in GET /api/user/usage:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+}
@@ -2,22 +2,47 @@ import { onRequest } from 'firebase-functions/v2/https';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { setGlobalOptions } from 'firebase-functions/v2';
 import { anthropicApiKey } from './services/anthropic';
+import { smtpUrl } from './services/mailer';
+import { sendWelcomeEmail } from './services/emails';
 import { handleGetToday } from './api/today';
-import { handlePostMessage } from './api/message';
+import { handlePostMessage, handlePostMessageStream } from './api/message';
 import { handleEndSession } from './api/endSession';
+import { handleGetAttachment, handleUploadAttachment } from './api/attachments';
 import { handleGetHistory } from './api/history';
+import { handleSearch } from './api/search';
+import { handleExport } from './api/export';
+import { handleImport } from './api/import';
 import { handleGetConversation } from './api/conversationHistory';
 import { handleEndArcEarly } from './api/endArcEarly';
-import { handleGetSeason, handleSteerSeasonMessage } from './api/season';
+import { handleCatchUp } from './api/catchUp';
+import {
+  handleGetSeason,
+  handleGetSeasonById,
+  handleGetSeasons,
+  handleSteerSeasonMessage,
+} from './api/season';
+import { handleGetUsage } from './api/usage';
+import { handleGetSettings, handleUpdateSettings } from './api/settings';
+import {
+  handleListAllowedEmails,
+  handleAddAllowedEmail,
+  handleRemoveAllowedEmail,
+  handleListUsers,
+  handleMigrateConversationMessages,
+  handleBackfillSearchIndex,
+} from './api/admin';
 import {
   handleRegister,
   handleForgotPassword,
   handleResendVerification,
 } from './api/auth';
 import { checkInactiveSessions } from './scheduled/inactivityCheck';
+import { prefetchTomorrowsBundles } from './scheduled/bundlePrefetch';
+import { sendDailyDigests } from './scheduled/dailyDigest';
 import { bundleGenerator } from './triggers/bundleTrigger';
 import { verifyAuth } from './middleware/auth';
-import { ensureUserExists, getUserProfile, markAboutAsSeen } from './utils/firestore';
+import { enforceBudget } from './middleware/budget';
+import { firestoreRepository } from './repository';
 
 // Set global options
 setGlobalOptions({
@@ -28,7 +53,7 @@ setGlobalOptions({
 // Main API function
 export const api = onRequest(
   {
-    secrets: [anthropicApiKey],
+    secrets: [anthropicApiKey, smtpUrl],
     cors: true,
     timeoutSeconds: 300,
   },
@@ -52,16 +77,26 @@ export const api = onRequest(
       return;
     }
 
-    const { userId, email } = authResult;
+    const { userId, email, isAdmin } = authResult;
 
-    // Ensure user document exists in Firestore
-    await ensureUserExists(userId, email);
+    // Ensure user document exists in Firestore; greet first-time users
+    if (await firestoreRepository.ensureUserExists(userId, email)) {
+      // Awaited: work left running after the response may never finish.
+      await sendWelcomeEmail(email).catch(error =>
+        console.error(`[Auth] Failed to send welcome email to ${email}:`, error)
+      );
+    }
 
     // Resend verification requires auth
     if (path === '/api/auth/resend-verification' && method === 'POST') {
       return handleResendVerification(req, res, userId, email);
     }
 
+    // Daily budgets for guide messages and steering turns
+    if (!(await enforceBudget(req, res, userId))) {
+      return;
+    }
+
     // Today
     if (path === '/api/today' && method === 'GET') {
       return handleGetToday(req, res, userId);
@@ -71,10 +106,24 @@ export const api = onRequest(
       return handlePostMessage(req, res, userId);
     }
 
+    if (path === '/api/today/message/stream' && method === 'POST') {
+      return handlePostMessageStream(req, res, userId);
+    }
+
     if (path === '/api/today/end-session' && method === 'POST') {
       return handleEndSession(req, res, userId);
     }
 
+    // Image attachments for conversation messages
+    if (path === '/api/attachments' && method === 'POST') {
+      return handleUploadAttachment(req, res, userId);
+    }
+
+    // Match /api/attachments/:attachmentId pattern
+    if (path.match(/^\/api\/attachments\/[^/]+$/) && method === 'GET') {
+      return handleGetAttachment(req, res, userId);
+    }
+
     // Season
     if (path === '/api/season' && method === 'GET') {
       return handleGetSeason(req, res, userId);
@@ -84,6 +133,16 @@ export const api = onRequest(
       return handleSteerSeasonMessage(req, res, userId);
     }
 
+    // Season archive
+    if (path === '/api/seasons' && method === 'GET') {
+      return handleGetSeasons(req, res, userId);
+    }
+
+    // Match /api/seasons/:seasonId pattern
+    if (path.match(/^\/api\/seasons\/[^/]+$/) && method === 'GET') {
+      return handleGetSeasonById(req, res, userId);
+    }
+
     // History
     if (path === '/api/history' && method === 'GET') {
       return handleGetHistory(req, res, userId);
@@ -97,15 +156,34 @@ export const api = onRequest(
       return handleGetConversation(req, res, userId);
     }
 
+    // Search
+    if (path === '/api/search' && method === 'GET') {
+      return handleSearch(req, res, userId);
+    }
+
+    // Export and import
+    if (path === '/api/export' && method === 'GET') {
+      return handleExport(req, res, userId);
+    }
+
+    if (path === '/api/import' && method === 'POST') {
+      return handleImport(req, res, userId);
+    }
+
     // Arc end-early
     if (path === '/api/arc/end-early' && method === 'POST') {
       return handleEndArcEarly(req, res, userId);
     }
 
+    // Catch-up after a long absence
+    if (path === '/api/arc/catch-up' && method === 'POST') {
+      return handleCatchUp(req, res, userId);
+    }
+
     // User profile endpoints
     if (path === '/api/user/profile' && method === 'GET') {
       try {
-        const profile = await getUserProfile(userId);
+        const profile = await firestoreRepository.getUserProfile(userId);
         if (!profile) {
           res.status(404).json({ error: 'User not found' });
           return;
@@ -113,6 +191,8 @@ export const api = onRequest(
         res.json({
           hasSeenAbout: profile.hasSeenAbout,
           voicePreference: profile.voicePreference ?? null,
+          timezone: profile.timezone ?? null,
+          isAdmin,
         });
       } catch (error) {
         console.error('[User] Get profile error:', error);
@@ -121,9 +201,21 @@ export const api = onRequest(
       return;
     }
 
+    if (path === '/api/user/usage' && method === 'GET') {
+      return handleGetUsage(req, res, userId);
+    }
+
+    if (path === '/api/user/settings' && method === 'GET') {
+      return handleGetSettings(req, res, userId);
+    }
+
+    if (path === '/api/user/settings' && method === 'PUT') {
+      return handleUpdateSettings(req, res, userId);
+    }
+
     if (path === '/api/user/mark-about-seen' && method === 'POST') {
       try {
-        await markAboutAsSeen(userId);
+        await firestoreRepository.markAboutAsSeen(userId);
         res.json({ success: true });
       } catch (error) {
         console.error('[User] Mark about seen error:', error);
@@ -132,21 +224,78 @@ export const api = onRequest(
       return;
     }
 
+    // Admin (requires the `admin` custom claim)
+    if (path.startsWith('/api/admin/')) {
+      if (!isAdmin) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+
+      if (path === '/api/admin/allowed-emails' && method === 'GET') {
+        return handleListAllowedEmails(req, res);
+      }
+
+      if (path === '/api/admin/allowed-emails' && method === 'POST') {
+        return handleAddAllowedEmail(req, res, email);
+      }
+
+      if (path.startsWith('/api/admin/allowed-emails/') && method === 'DELETE') {
+        return handleRemoveAllowedEmail(req, res, email);
+      }
+
+      if (path === '/api/admin/users' && method === 'GET') {
+        return handleListUsers(req, res);
+      }
+
+      if (path === '/api/admin/migrations/conversation-messages' && method === 'POST') {
+        return handleMigrateConversationMessages(req, res);
+      }
+      if (path === '/api/admin/migrations/search-index' && method === 'POST') {
+        return handleBackfillSearchIndex(req, res);
+      }
+    }
+
     res.status(404).json({ error: 'Not found' });
   }
 );
 
-// Scheduled function to check for inactive sessions
+// Scheduled function to check for inactive sessions. It works on elapsed
+// time, not calendar days, so its zone only labels the schedule.
 export const inactivityChecker = onSchedule(
   {
     schedule: 'every 15 minutes',
     secrets: [anthropicApiKey],
-    timeZone: 'America/Los_Angeles',
+    timeZone: 'UTC',
   },
   async () => {
     await checkInactiveSessions();
   }
 );
 
+// Hourly: create tomorrow's pending bundles for users whose evening has come
+// in their own time zone, so the trigger generates them before morning.
+export const bundlePrefetcher = onSchedule(
+  {
+    schedule: 'every 1 hours',
+    timeZone: 'UTC',
+  },
+  async () => {
+    await prefetchTomorrowsBundles();
+  }
+);
+
+// Hourly: email the day's encounter to users who opted in, at their local
+// send hour.
+export const digestSender = onSchedule(
+  {
+    schedule: 'every 1 hours',
+    secrets: [smtpUrl],
+    timeZone: 'UTC',
+  },
+  async () => {
+    await sendDailyDigests();
+  }
+);
+
 // Firestore trigger: out-of-band daily-bundle generation.
 export { bundleGenerator };
@@ -4,6 +4,9 @@ import { Request } from 'firebase-functions/v2/https';
 export interface AuthResult {
   userId: string;
   email: string;
+  // Granted by the `admin: true` custom claim, set with the Admin SDK:
+  // admin.auth().setCustomUserClaims(uid, { admin: true })
+  isAdmin: boolean;
 }
 
 export async function verifyAuth(req: Request): Promise<AuthResult | null> {
@@ -20,6 +23,7 @@ export async function verifyAuth(req: Request): Promise<AuthResult | null> {
     return {
       userId: decodedToken.uid,
       email: decodedToken.email || '',
+      isAdmin: decodedToken.admin === true,
     };
   } catch (error) {
     console.error('[Auth] Token verification failed:', error);
@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import {
+  BudgetExceededResponse,
+  BudgetLimit,
+  CLIENT_MESSAGE_ID_PATTERN,
+  MessageRequest,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { BudgetedAction, checkBudget, refundBudget } from '../services/budget';
+
+// Routes that spend model calls on the user's say-so, keyed "METHOD path".
+const BUDGETED_ROUTES: Record<string, BudgetedAction> = {
+  'POST /api/today/message': 'message',
+  'POST /api/today/message/stream': 'message',
+  'POST /api/season/steer/message': 'steering',
+};
+
+const LIMIT_MESSAGES: Record<BudgetLimit, string> = {
+  messagesPerDay: "You've reached today's message limit.",
+  tokensPerDay: "You've reached today's usage limit.",
+  steeringTurnsPerDay: "You've reached today's limit for course changes.",
+};
+
+/**
+ * Whether the request retries a message already claimed. The handler replays
+ * the stored reply, or answers 409 while the first attempt is still running,
+ * so it isn't counted — a client retrying after a timeout shouldn't spend the
+ * user's budget.
+ */
+async function isRetry(
+  req: Request,
+  userId: string,
+  repo: PrimerRepository
+): Promise<boolean> {
+  const { clientMessageId } = (req.body || {}) as MessageRequest;
+  if (typeof clientMessageId !== 'string' || !CLIENT_MESSAGE_ID_PATTERN.test(clientMessageId)) {
+    return false;
+  }
+  return (await repo.getMessageClaim(userId, clientMessageId)) !== null;
+}
+
+// What enforceBudget counted, kept on `res.locals` until the handler either
+// completes the request or refunds it.
+interface CountedRequest {
+  action: BudgetedAction;
+  day: string;
+}
+
+/**
+ * Enforce the daily budget for budgeted routes. Returns false after replying
+ * 429 when the budget is spent; true (having counted the request) otherwise.
+ * Unbudgeted routes pass straight through. If the budget can't be checked,
+ * the request is let through rather than failed.
+ *
+ * Handlers refund the count (refundRequest) when they turn the request away
+ * or fail it, so only requests that reach the guide use up the budget.
+ */
+export async function enforceBudget(
+  req: Request,
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<boolean> {
+  const action = BUDGETED_ROUTES[`${req.method} ${req.path}`];
+  if (!action) return true;
+
+  try {
+    if (action === 'message' && (await isRetry(req, userId, repo))) return true;
+
+    const verdict = await checkBudget(userId, action, repo);
+    if (verdict.allowed) {
+      const counted: CountedRequest = { action, day: verdict.day };
+      res.locals.countedRequest = counted;
+      return true;
+    }
+
+    const now = new Date();
+    const { resetsAt } = verdict;
+    console.log(
+      `[Budget] User ${userId} over ${verdict.limit} (${verdict.used}/${verdict.max}) on ${req.path}`
+    );
+
+    const body: BudgetExceededResponse = {
+      type: 'error',
+      error: {
+        type: 'budget_exceeded',
+        message: LIMIT_MESSAGES[verdict.limit],
+        limit: verdict.limit,
+        used: verdict.used,
+        max: verdict.max,
+        resetsAt: resetsAt.toISOString(),
+      },
+    };
+    res.set({ 'Retry-After': String(Math.ceil((resetsAt.getTime() - now.getTime()) / 1000)) });
+    res.status(429).json(body);
+    return false;
+  } catch (error) {
+    console.error('[Budget] Budget check failed; allowing request:', error);
+    return true;
+  }
+}
+
+/**
+ * Give back the budget enforceBudget counted for this request, if any. Safe
+ * to call more than once; failures are logged, never thrown.
+ */
+export async function refundRequest(
+  res: Response,
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  const counted = res.locals.countedRequest as CountedRequest | undefined;
+  if (!counted) return;
+  delete res.locals.countedRequest;
+  try {
+    await refundBudget(userId, counted.action, counted.day, repo);
+  } catch (error) {
+    console.error('[Budget] Failed to refund request:', error);
+  }
+}
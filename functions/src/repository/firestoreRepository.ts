@@ -0,0 +1,93 @@
+import type { PrimerRepository } from './index';
+import * as firestore from '../utils/firestore';
+
+/**
+ * The production repository: the Firestore-backed functions in
+ * `utils/firestore.ts`, bound into a `PrimerRepository`.
+ */
+export const firestoreRepository: PrimerRepository = {
+  getActiveSeason: firestore.getActiveSeason,
+  getSeason: firestore.getSeason,
+  getAllSeasons: firestore.getAllSeasons,
+  getLatestSeasonNumber: firestore.getLatestSeasonNumber,
+  createSeason: firestore.createSeason,
+  completeSeason: firestore.completeSeason,
+
+  getActiveArc: firestore.getActiveArc,
+  getArc: firestore.getArc,
+  getArcs: firestore.getArcs,
+  getAllArcs: firestore.getAllArcs,
+  getSeasonArcs: firestore.getSeasonArcs,
+  createArc: firestore.createArc,
+  updateArc: firestore.updateArc,
+  deleteArc: firestore.deleteArc,
+
+  countEngagedBundles: firestore.countEngagedBundles,
+  calculateDayInArc: firestore.calculateDayInArc,
+  getBundle: firestore.getBundle,
+  createPendingBundle: firestore.createPendingBundle,
+  deleteBundle: firestore.deleteBundle,
+  resetBundleToPending: firestore.resetBundleToPending,
+  setBundleGenerationStatus: firestore.setBundleGenerationStatus,
+  getCurrentUnengagedBundle: firestore.getCurrentUnengagedBundle,
+  getLatestBundleForArc: firestore.getLatestBundleForArc,
+  fillBundleContent: firestore.fillBundleContent,
+  getArcBundles: firestore.getArcBundles,
+  getBundleHistory: firestore.getBundleHistory,
+  getAllBundles: firestore.getAllBundles,
+  updateBundleSuggestedReading: firestore.updateBundleSuggestedReading,
+  engageBundle: firestore.engageBundle,
+
+  getRecentExposures: firestore.getRecentExposures,
+  getAllExposures: firestore.getAllExposures,
+  createExposure: firestore.createExposure,
+
+  getConversation: firestore.getConversation,
+  getAllConversations: firestore.getAllConversations,
+  getConversationMessages: firestore.getConversationMessages,
+  createConversation: firestore.createConversation,
+  appendConversationMessages: firestore.appendConversationMessages,
+  updateConversation: firestore.updateConversation,
+  getStaleConversationsForUser: firestore.getStaleConversationsForUser,
+  migrateConversationMessages: firestore.migrateConversationMessages,
+  claimMessage: firestore.claimMessage,
+  getMessageClaim: firestore.getMessageClaim,
+  releaseMessageClaim: firestore.releaseMessageClaim,
+  saveImageAttachment: firestore.saveImageAttachment,
+  getImageAttachment: firestore.getImageAttachment,
+  getImageAttachmentData: firestore.getImageAttachmentData,
+
+  getRecentInsights: firestore.getRecentInsights,
+  getSeasonInsights: firestore.getSeasonInsights,
+  getSessionInsights: firestore.getSessionInsights,
+  getAllSessionInsights: firestore.getAllSessionInsights,
+  createSessionInsights: firestore.createSessionInsights,
+
+  addSearchTerms: firestore.addSearchTerms,
+  getSearchPostings: firestore.getSearchPostings,
+
+  replaceHistory: firestore.replaceHistory,
+
+  getAllUserIds: firestore.getAllUserIds,
+  ensureUserExists: firestore.ensureUserExists,
+  getUserProfile: firestore.getUserProfile,
+  markAboutAsSeen: firestore.markAboutAsSeen,
+  getTimeZone: firestore.getTimeZone,
+  updateUserSettings: firestore.updateUserSettings,
+  markDigestSent: firestore.markDigestSent,
+  getVoicePreference: firestore.getVoicePreference,
+  setVoicePreference: firestore.setVoicePreference,
+  getMemoryProfile: firestore.getMemoryProfile,
+  setMemoryProfile: firestore.setMemoryProfile,
+
+  isEmailAllowed: firestore.isEmailAllowed,
+  addAllowedEmail: firestore.addAllowedEmail,
+  removeAllowedEmail: firestore.removeAllowedEmail,
+  listAllowedEmails: firestore.listAllowedEmails,
+
+  recordLlmUsage: firestore.recordLlmUsage,
+  getLlmUsageSince: firestore.getLlmUsageSince,
+
+  consumeDailyCounter: firestore.consumeDailyCounter,
+  releaseDailyCounter: firestore.releaseDailyCounter,
+};
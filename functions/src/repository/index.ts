@@ -0,0 +1,220 @@
+import {
+  Arc,
+  Season,
+  DailyBundle,
+  SuggestedReading,
+  Exposure,
+  Conversation,
+  ConversationMessage,
+  ConversationMessagePage,
+  CompletedMessageClaim,
+  MessageClaim,
+  ImageAttachment,
+  SessionInsights,
+  UserMemoryProfile,
+  UserProfile,
+  UserSettings,
+  SeasonShape,
+  AllowedEmail,
+  LlmUsageRecord,
+  DailyCounter,
+  BundleGenerationStatus,
+  SearchPosting,
+  UserHistory,
+} from '../types';
+
+/**
+ * Typed storage for everything under `/users/{userId}`. Services and handlers
+ * take a repository by injection (defaulting to `firestoreRepository`), so
+ * they can run against `createMemoryRepository()` in tests without the
+ * emulator.
+ *
+ * Methods mirror the free functions in `utils/firestore.ts` one-for-one; pure
+ * helpers (bundleId, determinePhase, isBundleStale, ...) stay there.
+ */
+export interface PrimerRepository {
+  // --- Seasons ---
+  getActiveSeason(userId: string): Promise<Season | null>;
+  getSeason(userId: string, seasonId: string): Promise<Season | null>;
+  getAllSeasons(userId: string): Promise<Season[]>;
+  getLatestSeasonNumber(userId: string): Promise<number>;
+  createSeason(userId: string, seasonNumber: number, shape: SeasonShape): Promise<Season>;
+  completeSeason(userId: string, seasonId: string, memoryProfile?: UserMemoryProfile): Promise<void>;
+
+  // --- Arcs ---
+  getActiveArc(userId: string): Promise<Arc | null>;
+  getArc(userId: string, arcId: string): Promise<Arc | null>;
+  // In one read; ids with no arc are left out.
+  getArcs(userId: string, arcIds: string[]): Promise<Arc[]>;
+  getAllArcs(userId: string): Promise<Arc[]>;
+  getSeasonArcs(userId: string, seasonId: string): Promise<Arc[]>;
+  createArc(userId: string, arc: Omit<Arc, 'id'>): Promise<Arc>;
+  updateArc(userId: string, arcId: string, updates: Partial<Arc>): Promise<void>;
+  deleteArc(userId: string, arcId: string): Promise<void>;
+
+  // --- Bundles ---
+  countEngagedBundles(userId: string, arcId: string, cycle?: number): Promise<number>;
+  calculateDayInArc(userId: string, arc: Arc): Promise<number>;
+  getBundle(userId: string, id: string): Promise<DailyBundle | null>;
+  // Throws an error with `code: 6` (ALREADY_EXISTS) if the bundle exists.
+  createPendingBundle(
+    userId: string,
+    arcId: string,
+    dayInArc: number,
+    options?: { availableOn?: string; cycle?: number; returningAfterDays?: number }
+  ): Promise<DailyBundle>;
+  deleteBundle(userId: string, id: string): Promise<void>;
+  resetBundleToPending(userId: string, id: string): Promise<void>;
+  setBundleGenerationStatus(
+    userId: string,
+    id: string,
+    status: BundleGenerationStatus,
+    options?: { incrementAttempts?: boolean }
+  ): Promise<void>;
+  // Both skip bundles prefetched for a later day in the user's time zone.
+  getCurrentUnengagedBundle(
+    userId: string,
+    arcId: string,
+    timeZone: string
+  ): Promise<DailyBundle | null>;
+  getLatestBundleForArc(
+    userId: string,
+    arcId: string,
+    timeZone: string
+  ): Promise<DailyBundle | null>;
+  fillBundleContent(
+    userId: string,
+    id: string,
+    content: Pick<DailyBundle, 'music' | 'image' | 'text' | 'framingText'>
+  ): Promise<void>;
+  getArcBundles(userId: string, arcId: string): Promise<DailyBundle[]>;
+  // Engaged bundles, newest first, starting after the bundle `before`.
+  getBundleHistory(userId: string, limit?: number, before?: string): Promise<DailyBundle[]>;
+  // Oldest first, in any state.
+  getAllBundles(userId: string): Promise<DailyBundle[]>;
+  updateBundleSuggestedReading(
+    userId: string,
+    bundleId: string,
+    suggestedReading: SuggestedReading
+  ): Promise<void>;
+  // Marks the bundle engaged and records its exposures. Idempotent.
+  engageBundle(userId: string, bundle: DailyBundle): Promise<void>;
+
+  // --- Exposures ---
+  getRecentExposures(userId: string, days?: number): Promise<Exposure[]>;
+  // Oldest first.
+  getAllExposures(userId: string): Promise<Exposure[]>;
+  createExposure(userId: string, exposure: Omit<Exposure, 'id'>): Promise<void>;
+
+  // --- Conversations ---
+  getConversation(userId: string, bundleId: string): Promise<Conversation | null>;
+  getAllConversations(userId: string): Promise<Conversation[]>;
+  // Up to `limit` messages ending just before position `before` (default: the
+  // end), oldest first.
+  getConversationMessages(
+    userId: string,
+    bundleId: string,
+    limit: number,
+    before?: number
+  ): Promise<ConversationMessagePage>;
+  // A no-op if the conversation already exists.
+  createConversation(userId: string, conversation: Omit<Conversation, 'messages'>): Promise<void>;
+  // Appends after whatever is stored at the time, so concurrent turns both
+  // land; creates the conversation if needed and bumps lastActivity. A claim
+  // passed along is marked done in the same write.
+  appendConversationMessages(
+    userId: string,
+    bundleId: string,
+    messages: ConversationMessage[],
+    claim?: CompletedMessageClaim
+  ): Promise<void>;
+  updateConversation(
+    userId: string,
+    bundleId: string,
+    updates: Partial<Pick<Conversation, 'lastActivity' | 'sessionEnded'>>
+  ): Promise<void>;
+  getStaleConversationsForUser(userId: string, cutoffTime: Date): Promise<Conversation[]>;
+  // Moves conversations written with their messages inline on the document
+  // into the subcollection. Returns how many were moved.
+  migrateConversationMessages(userId: string): Promise<number>;
+
+  // --- Message claims ---
+  // Claims a client message id for a turn on `bundleId`. Returns null if this
+  // call got it (taking over a pending claim from before `staleBefore`), else
+  // the claim that stands.
+  claimMessage(
+    userId: string,
+    clientMessageId: string,
+    bundleId: string,
+    staleBefore: Date
+  ): Promise<MessageClaim | null>;
+  getMessageClaim(userId: string, clientMessageId: string): Promise<MessageClaim | null>;
+  // Frees a pending claim whose turn failed, so a retry runs it.
+  releaseMessageClaim(userId: string, clientMessageId: string): Promise<void>;
+
+  // --- Image attachments ---
+  // Stores the bytes, then the attachment's document.
+  saveImageAttachment(userId: string, attachment: ImageAttachment, data: Buffer): Promise<void>;
+  getImageAttachment(userId: string, id: string): Promise<ImageAttachment | null>;
+  // Null if the bytes are gone (or were never stored in this project).
+  getImageAttachmentData(userId: string, id: string): Promise<Buffer | null>;
+
+  // --- Insights ---
+  getRecentInsights(userId: string, days?: number): Promise<SessionInsights[]>;
+  getSeasonInsights(userId: string, arcIds: string[]): Promise<SessionInsights[]>;
+  getSessionInsights(userId: string, id: string): Promise<SessionInsights | null>;
+  // Oldest first.
+  getAllSessionInsights(userId: string): Promise<SessionInsights[]>;
+  createSessionInsights(userId: string, insights: SessionInsights): Promise<void>;
+
+  // --- Search index ---
+  // Adds the posting to each term's postings. Idempotent.
+  addSearchTerms(userId: string, posting: SearchPosting, terms: string[]): Promise<void>;
+  // Postings per term, in no particular order; a term never indexed maps to [].
+  getSearchPostings(userId: string, terms: string[]): Promise<Record<string, SearchPosting[]>>;
+
+  // --- Import ---
+  // Replaces every season, arc, bundle, exposure, conversation and insight,
+  // and clears the search index and message claims.
+  replaceHistory(userId: string, history: UserHistory): Promise<void>;
+
+  // --- Profile ---
+  getAllUserIds(): Promise<string[]>;
+  ensureUserExists(userId: string, email: string): Promise<boolean>;
+  getUserProfile(userId: string): Promise<UserProfile | null>;
+  markAboutAsSeen(userId: string): Promise<void>;
+  // The user's IANA time zone, or DEFAULT_TIMEZONE if they haven't set one.
+  getTimeZone(userId: string): Promise<string>;
+  updateUserSettings(userId: string, settings: Partial<UserSettings>): Promise<void>;
+  markDigestSent(userId: string, day: string): Promise<void>;
+  getVoicePreference(userId: string): Promise<string | null>;
+  setVoicePreference(userId: string, voicePreference: string): Promise<void>;
+  getMemoryProfile(userId: string): Promise<UserMemoryProfile | null>;
+  setMemoryProfile(userId: string, memoryProfile: UserMemoryProfile): Promise<void>;
+
+  // --- Registration whitelist (global, not per user) ---
+  isEmailAllowed(email: string): Promise<boolean>;
+  addAllowedEmail(email: string, addedBy?: string): Promise<void>;
+  removeAllowedEmail(email: string): Promise<void>;
+  // Sorted by email.
+  listAllowedEmails(): Promise<AllowedEmail[]>;
+
+  // --- LLM usage ---
+  recordLlmUsage(userId: string, record: Omit<LlmUsageRecord, 'id'>): Promise<void>;
+  // Newest first.
+  getLlmUsageSince(userId: string, since: Date): Promise<LlmUsageRecord[]>;
+
+  // --- Budgets ---
+  // Atomically takes one slot of a day's counter unless it is already at max.
+  consumeDailyCounter(
+    userId: string,
+    day: string,
+    counter: DailyCounter,
+    max: number
+  ): Promise<{ consumed: boolean; used: number }>;
+  // Gives one slot back (never below zero), for a request that didn't go through.
+  releaseDailyCounter(userId: string, day: string, counter: DailyCounter): Promise<void>;
+}
+
+export { firestoreRepository } from './firestoreRepository';
+export { createMemoryRepository, MemoryRepository } from './memoryRepository';
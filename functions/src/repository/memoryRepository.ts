@@ -0,0 +1,632 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import type { PrimerRepository } from './index';
+import {
+  Arc,
+  Season,
+  DailyBundle,
+  Exposure,
+  Conversation,
+  MessageClaim,
+  ImageAttachment,
+  SessionInsights,
+  UserMemoryProfile,
+  UserProfile,
+  AllowedEmail,
+  LlmUsageRecord,
+  UserBudget,
+  DigestSettings,
+  SeasonShape,
+  CadenceSettings,
+  SearchPosting,
+} from '../types';
+import { DEFAULT_TIMEZONE, bundleId, isBundleAvailable, toTimestamp } from '../utils/firestore';
+
+/**
+ * An in-memory `PrimerRepository` for tests and local tooling. It mirrors the
+ * Firestore implementation's observable behaviour — including the
+ * ALREADY_EXISTS throw from `createPendingBundle` that serves as the
+ * concurrency lock — and hands out copies, never live references.
+ */
+
+type CollectionName =
+  | 'seasons'
+  | 'arcs'
+  | 'dailyBundles'
+  | 'exposures'
+  | 'conversations'
+  | 'sessionInsights'
+  | 'llmUsage'
+  | 'dailyUsage'
+  | 'searchIndex'
+  | 'messageClaims'
+  | 'attachments';
+
+interface StoredDoc {
+  id: string;
+  [field: string]: unknown;
+}
+
+// A search term's postings, keyed by bundle id.
+interface SearchTermDoc {
+  id: string;
+  bundles: Record<string, Timestamp>;
+}
+
+export interface MemoryRepository extends PrimerRepository {
+  /** Write a document verbatim (seeding). Replaces any doc with the same id. */
+  put<T extends { id: string }>(userId: string, collection: CollectionName, doc: T): void;
+  /** Merge raw fields into a user's profile doc, creating it if needed. */
+  putProfile(userId: string, fields: Record<string, unknown>): void;
+  /** Every document in a collection, in insertion order. */
+  list<T>(userId: string, collection: CollectionName): T[];
+  /** Drop all users and their data. */
+  reset(): void;
+}
+
+// Deep-copy plain objects and arrays; class instances (Timestamp) are shared.
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clone) as unknown as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = clone(v);
+    }
+    return out as T;
+  }
+  return value;
+}
+
+function firestoreError(code: number, message: string): Error {
+  return Object.assign(new Error(`${code} ${message}`), { code });
+}
+
+function daysAgo(days: number): number {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+  return cutoff.getTime();
+}
+
+export function createMemoryRepository(): MemoryRepository {
+  const users = new Map<string, Record<string, unknown>>();
+  const allowedEmails = new Map<string, AllowedEmail>();
+  const collections = new Map<string, Map<string, StoredDoc>>();
+  // Stand-in for Cloud Storage, keyed `${userId}/${attachmentId}`.
+  const files = new Map<string, Buffer>();
+  let sequence = 0;
+
+  function collection(userId: string, name: CollectionName): Map<string, StoredDoc> {
+    const key = `${userId}/${name}`;
+    let docs = collections.get(key);
+    if (!docs) {
+      docs = new Map();
+      collections.set(key, docs);
+    }
+    return docs;
+  }
+
+  function all<T>(userId: string, name: CollectionName): T[] {
+    return [...collection(userId, name).values()].map(doc => clone(doc) as unknown as T);
+  }
+
+  function get<T>(userId: string, name: CollectionName, id: string): T | null {
+    const doc = collection(userId, name).get(id);
+    return doc ? (clone(doc) as unknown as T) : null;
+  }
+
+  function set(userId: string, name: CollectionName, doc: object & { id: string }): void {
+    collection(userId, name).set(doc.id, clone(doc) as StoredDoc);
+  }
+
+  function update(userId: string, name: CollectionName, id: string, updates: object): void {
+    const doc = collection(userId, name).get(id);
+    if (!doc) {
+      throw firestoreError(5, `NOT_FOUND: No document to update: ${name}/${id}`);
+    }
+    Object.assign(doc, clone(updates));
+  }
+
+  function profileDoc(userId: string): Record<string, unknown> | undefined {
+    return users.get(userId);
+  }
+
+  function mergeProfile(userId: string, fields: Record<string, unknown>): void {
+    users.set(userId, { ...(users.get(userId) || {}), ...clone(fields) });
+  }
+
+  const byCreatedDesc = (a: DailyBundle, b: DailyBundle) =>
+    b.createdAt.toMillis() - a.createdAt.toMillis();
+
+  const repo: MemoryRepository = {
+    // --- Seasons ---
+    getActiveSeason: async userId =>
+      all<Season>(userId, 'seasons').find(s => s.status === 'active') || null,
+
+    getSeason: async (userId, seasonId) => get<Season>(userId, 'seasons', seasonId),
+
+    getAllSeasons: async userId =>
+      all<Season>(userId, 'seasons').sort((a, b) => a.seasonNumber - b.seasonNumber),
+
+    getLatestSeasonNumber: async userId =>
+      all<Season>(userId, 'seasons').reduce((max, s) => Math.max(max, s.seasonNumber || 0), 0),
+
+    createSeason: async (userId, seasonNumber, shape) => {
+      const season: Season = {
+        id: `season-${seasonNumber}-${++sequence}`,
+        seasonNumber,
+        createdAt: toTimestamp(new Date()),
+        status: 'active',
+        arcsPerSeason: shape.arcsPerSeason,
+        arcDurationDays: shape.arcDurationDays,
+      };
+      set(userId, 'seasons', season);
+      return clone(season);
+    },
+
+    completeSeason: async (userId, seasonId, memoryProfile) => {
+      update(userId, 'seasons', seasonId, {
+        status: 'completed',
+        ...(memoryProfile && { memoryProfile }),
+      });
+    },
+
+    // --- Arcs ---
+    getActiveArc: async userId =>
+      all<Arc>(userId, 'arcs').find(a => a.status === 'active') || null,
+
+    getArc: async (userId, arcId) => get<Arc>(userId, 'arcs', arcId),
+
+    getArcs: async (userId, arcIds) =>
+      arcIds.flatMap(arcId => {
+        const arc = get<Arc>(userId, 'arcs', arcId);
+        return arc ? [arc] : [];
+      }),
+
+    getAllArcs: async userId => all<Arc>(userId, 'arcs'),
+
+    getSeasonArcs: async (userId, seasonId) =>
+      all<Arc>(userId, 'arcs')
+        .filter(a => a.seasonId === seasonId)
+        .sort((a, b) => a.orderInSeason - b.orderInSeason),
+
+    createArc: async (userId, arc) => {
+      const created: Arc = { id: `arc-${arc.seasonId}-${arc.orderInSeason}-${++sequence}`, ...arc };
+      set(userId, 'arcs', created);
+      return clone(created);
+    },
+
+    updateArc: async (userId, arcId, updates) => {
+      update(userId, 'arcs', arcId, updates);
+    },
+
+    deleteArc: async (userId, arcId) => {
+      collection(userId, 'arcs').delete(arcId);
+    },
+
+    // --- Bundles ---
+    countEngagedBundles: async (userId, arcId, cycle = 0) =>
+      all<DailyBundle>(userId, 'dailyBundles').filter(
+        b => b.arcId === arcId && b.engaged && (b.cycle ?? 0) === cycle
+      ).length,
+
+    calculateDayInArc: async (userId, arc) => {
+      const engaged = await repo.countEngagedBundles(userId, arc.id, arc.cycle ?? 0);
+      return Math.min(engaged + 1, arc.targetDurationDays);
+    },
+
+    getBundle: async (userId, id) => get<DailyBundle>(userId, 'dailyBundles', id),
+
+    createPendingBundle: async (userId, arcId, dayInArc, options = {}) => {
+      const id = bundleId(arcId, dayInArc, options.cycle);
+      if (collection(userId, 'dailyBundles').has(id)) {
+        throw firestoreError(6, `ALREADY_EXISTS: Document already exists: dailyBundles/${id}`);
+      }
+      const bundle: DailyBundle = {
+        id,
+        arcId,
+        dayInArc,
+        ...(options.cycle ? { cycle: options.cycle } : {}),
+        engaged: false,
+        createdAt: toTimestamp(new Date()),
+        generationStatus: 'pending',
+        generationAttempts: 0,
+        music: { title: '', artist: '', youtubeUrl: '' },
+        image: { title: '', sourceUrl: '', imageUrl: '' },
+        text: { content: '', source: '', author: '' },
+        framingText: '',
+        ...(options.availableOn ? { availableOn: options.availableOn } : {}),
+        ...(options.returningAfterDays
+          ? { returningAfterDays: options.returningAfterDays }
+          : {}),
+      };
+      set(userId, 'dailyBundles', bundle);
+      return clone(bundle);
+    },
+
+    deleteBundle: async (userId, id) => {
+      collection(userId, 'dailyBundles').delete(id);
+    },
+
+    resetBundleToPending: async (userId, id) => {
+      update(userId, 'dailyBundles', id, {
+        generationStatus: 'pending',
+        createdAt: toTimestamp(new Date()),
+        availableOn: undefined,
+      });
+    },
+
+    setBundleGenerationStatus: async (userId, id, status, options = {}) => {
+      const existing = get<DailyBundle>(userId, 'dailyBundles', id);
+      update(userId, 'dailyBundles', id, {
+        generationStatus: status,
+        ...(options.incrementAttempts
+          ? { generationAttempts: (existing?.generationAttempts ?? 0) + 1 }
+          : {}),
+      });
+    },
+
+    getCurrentUnengagedBundle: async (userId, arcId, timeZone) =>
+      all<DailyBundle>(userId, 'dailyBundles')
+        .filter(
+          b => b.arcId === arcId && b.engaged === false && isBundleAvailable(b, timeZone)
+        )
+        .sort(byCreatedDesc)[0] || null,
+
+    getLatestBundleForArc: async (userId, arcId, timeZone) =>
+      all<DailyBundle>(userId, 'dailyBundles')
+        .filter(b => b.arcId === arcId && isBundleAvailable(b, timeZone))
+        .sort(byCreatedDesc)[0] || null,
+
+    fillBundleContent: async (userId, id, content) => {
+      update(userId, 'dailyBundles', id, {
+        music: content.music,
+        image: content.image,
+        text: content.text,
+        framingText: content.framingText,
+        generationStatus: 'ready',
+      });
+    },
+
+    getArcBundles: async (userId, arcId) =>
+      all<DailyBundle>(userId, 'dailyBundles')
+        .filter(b => b.arcId === arcId && b.engaged === true)
+        .sort((a, b) => (a.dayInArc || 0) - (b.dayInArc || 0)),
+
+    getBundleHistory: async (userId, limit = 30, before) => {
+      const history = all<DailyBundle & { status?: string }>(userId, 'dailyBundles')
+        .sort(byCreatedDesc)
+        .filter(b => b.engaged === true || b.status === 'delivered')
+        .filter(b => b.generationStatus === undefined || b.generationStatus === 'ready');
+      const start = before ? history.findIndex(b => b.id === before) + 1 : 0;
+      if (before && start === 0) return [];
+      return history.slice(start, start + limit);
+    },
+
+    getAllBundles: async userId =>
+      all<DailyBundle>(userId, 'dailyBundles').sort(
+        (a, b) => a.createdAt.toMillis() - b.createdAt.toMillis()
+      ),
+
+    updateBundleSuggestedReading: async (userId, id, suggestedReading) => {
+      update(userId, 'dailyBundles', id, { suggestedReading });
+    },
+
+    engageBundle: async (userId, bundle) => {
+      if (bundle.engaged) {
+        return;
+      }
+      update(userId, 'dailyBundles', bundle.id, { engaged: true });
+      const base = { dateShown: toTimestamp(new Date()), arcId: bundle.arcId };
+      await repo.createExposure(userId, {
+        ...base,
+        artifactType: 'music',
+        artifactIdentifier: `${bundle.music.title} - ${bundle.music.artist}`,
+        creator: bundle.music.artist,
+      });
+      await repo.createExposure(userId, {
+        ...base,
+        artifactType: 'image',
+        artifactIdentifier: `${bundle.image.title} - ${bundle.image.artist || ''}`,
+        creator: bundle.image.artist || '',
+      });
+      await repo.createExposure(userId, {
+        ...base,
+        artifactType: 'text',
+        artifactIdentifier: `${bundle.text.source} - ${bundle.text.author}`,
+        creator: bundle.text.author,
+      });
+    },
+
+    // --- Exposures ---
+    getRecentExposures: async (userId, days = 30) => {
+      const cutoff = daysAgo(days);
+      return all<Exposure>(userId, 'exposures')
+        .filter(e => e.dateShown.toMillis() >= cutoff)
+        .sort((a, b) => b.dateShown.toMillis() - a.dateShown.toMillis());
+    },
+
+    getAllExposures: async userId =>
+      all<Exposure>(userId, 'exposures').sort(
+        (a, b) => a.dateShown.toMillis() - b.dateShown.toMillis()
+      ),
+
+    createExposure: async (userId, exposure) => {
+      set(userId, 'exposures', { id: `exposure-${++sequence}`, ...exposure });
+    },
+
+    // --- Conversations ---
+    getConversation: async (userId, id) => get<Conversation>(userId, 'conversations', id),
+
+    getAllConversations: async userId => all<Conversation>(userId, 'conversations'),
+
+    // Messages stay on the conversation here; only the operations matter.
+    getConversationMessages: async (userId, id, limit, before) => {
+      const stored = get<Conversation>(userId, 'conversations', id);
+      if (!stored) return { conversation: null, messages: [], start: 0 };
+      const { messages, ...conversation } = stored;
+      const end = Math.min(before ?? messages.length, messages.length);
+      const start = Math.max(0, end - limit);
+      return { conversation, messages: messages.slice(start, end), start };
+    },
+
+    createConversation: async (userId, conversation) => {
+      if (!get<Conversation>(userId, 'conversations', conversation.id)) {
+        const created: Conversation = { ...conversation, messages: [] };
+        set(userId, 'conversations', created);
+      }
+    },
+
+    appendConversationMessages: async (userId, id, messages, claim) => {
+      const existing = get<Conversation>(userId, 'conversations', id);
+      const appended: Conversation = {
+        id,
+        bundleId: id,
+        sessionEnded: false,
+        ...existing,
+        messages: [...(existing?.messages || []), ...messages],
+        lastActivity: toTimestamp(new Date()),
+      };
+      set(userId, 'conversations', appended);
+      if (claim) update(userId, 'messageClaims', claim.id, { ...claim, status: 'done' });
+    },
+
+    updateConversation: async (userId, id, updates) => {
+      update(userId, 'conversations', id, updates);
+    },
+
+    getStaleConversationsForUser: async (userId, cutoffTime) =>
+      all<Conversation>(userId, 'conversations').filter(
+        c => c.sessionEnded === false && c.lastActivity.toMillis() < cutoffTime.getTime()
+      ),
+
+    migrateConversationMessages: async () => 0,
+
+    // --- Message claims ---
+    claimMessage: async (userId, clientMessageId, bundleId, staleBefore) => {
+      const existing = get<MessageClaim>(userId, 'messageClaims', clientMessageId);
+      const stale =
+        existing?.status === 'pending' && existing.claimedAt.toMillis() < staleBefore.getTime();
+      if (existing && !stale) return existing;
+      const claim: MessageClaim = {
+        id: clientMessageId,
+        bundleId,
+        status: 'pending',
+        claimedAt: toTimestamp(new Date()),
+      };
+      set(userId, 'messageClaims', claim);
+      return null;
+    },
+
+    getMessageClaim: async (userId, clientMessageId) =>
+      get<MessageClaim>(userId, 'messageClaims', clientMessageId),
+
+    releaseMessageClaim: async (userId, clientMessageId) => {
+      const existing = get<MessageClaim>(userId, 'messageClaims', clientMessageId);
+      if (existing?.status === 'pending') collection(userId, 'messageClaims').delete(clientMessageId);
+    },
+
+    // --- Image attachments ---
+    saveImageAttachment: async (userId, attachment, data) => {
+      files.set(`${userId}/${attachment.id}`, Buffer.from(data));
+      set(userId, 'attachments', attachment);
+    },
+
+    getImageAttachment: async (userId, id) => get<ImageAttachment>(userId, 'attachments', id),
+
+    getImageAttachmentData: async (userId, id) => {
+      const data = files.get(`${userId}/${id}`);
+      return data ? Buffer.from(data) : null;
+    },
+
+    // --- Insights ---
+    getRecentInsights: async (userId, days = 21) => {
+      const cutoff = daysAgo(days);
+      return all<SessionInsights>(userId, 'sessionInsights')
+        .filter(i => i.date.toMillis() >= cutoff)
+        .sort((a, b) => b.date.toMillis() - a.date.toMillis());
+    },
+
+    getSeasonInsights: async (userId, arcIds) =>
+      all<SessionInsights>(userId, 'sessionInsights').filter(i => arcIds.includes(i.arcId)),
+
+    getSessionInsights: async (userId, id) =>
+      get<SessionInsights>(userId, 'sessionInsights', id),
+
+    getAllSessionInsights: async userId =>
+      all<SessionInsights>(userId, 'sessionInsights').sort(
+        (a, b) => a.date.toMillis() - b.date.toMillis()
+      ),
+
+    createSessionInsights: async (userId, insights) => {
+      set(userId, 'sessionInsights', insights);
+    },
+
+    // --- Search index ---
+    addSearchTerms: async (userId, posting, terms) => {
+      for (const term of terms) {
+        const stored = get<SearchTermDoc>(userId, 'searchIndex', term) || { id: term, bundles: {} };
+        stored.bundles[posting.bundleId] = posting.createdAt;
+        set(userId, 'searchIndex', stored);
+      }
+    },
+
+    getSearchPostings: async (userId, terms) => {
+      const postings: Record<string, SearchPosting[]> = {};
+      for (const term of terms) {
+        const bundles = get<SearchTermDoc>(userId, 'searchIndex', term)?.bundles || {};
+        postings[term] = Object.entries(bundles).map(([bundleId, createdAt]) => ({
+          bundleId,
+          createdAt,
+        }));
+      }
+      return postings;
+    },
+
+    // --- Import ---
+    replaceHistory: async (userId, history) => {
+      const replaced: Array<[CollectionName, Array<{ id: string }>]> = [
+        ['seasons', history.seasons],
+        ['arcs', history.arcs],
+        ['dailyBundles', history.bundles],
+        ['exposures', history.exposures],
+        ['conversations', history.conversations],
+        ['sessionInsights', history.sessionInsights],
+        ['searchIndex', []],
+        ['messageClaims', []],
+      ];
+      for (const [name, docs] of replaced) {
+        collection(userId, name).clear();
+        docs.forEach(doc => set(userId, name, doc));
+      }
+    },
+
+    // --- Profile ---
+    getAllUserIds: async () => [...users.keys()],
+
+    ensureUserExists: async (userId, email) => {
+      if (users.has(userId)) return false;
+      mergeProfile(userId, {
+        email,
+        createdAt: toTimestamp(new Date()),
+        hasSeenAbout: false,
+      });
+      return true;
+    },
+
+    getUserProfile: async userId => {
+      const data = profileDoc(userId);
+      if (!data) return null;
+      const profile: UserProfile = {
+        email: (data.email as string) || '',
+        createdAt: (data.createdAt as Timestamp) || toTimestamp(new Date()),
+        hasSeenAbout: (data.hasSeenAbout as boolean) ?? true,
+        voicePreference: (data.voicePreference as string) ?? null,
+        memoryProfile: (data.memoryProfile as UserMemoryProfile) ?? null,
+        budget: (data.budget as Partial<UserBudget>) ?? null,
+        digest: (data.digest as DigestSettings) ?? null,
+        lastDigestOn: (data.lastDigestOn as string) ?? null,
+        timezone: (data.timezone as string) ?? null,
+        nextSeason: (data.nextSeason as Partial<SeasonShape>) ?? null,
+        cadence: (data.cadence as CadenceSettings) ?? null,
+      };
+      return clone(profile);
+    },
+
+    markAboutAsSeen: async userId => {
+      mergeProfile(userId, { hasSeenAbout: true });
+    },
+
+    getTimeZone: async userId => (profileDoc(userId)?.timezone as string) || DEFAULT_TIMEZONE,
+
+    updateUserSettings: async (userId, settings) => {
+      mergeProfile(userId, { ...settings });
+    },
+
+    markDigestSent: async (userId, day) => {
+      mergeProfile(userId, { lastDigestOn: day });
+    },
+
+    getVoicePreference: async userId =>
+      (await repo.getUserProfile(userId))?.voicePreference ?? null,
+
+    setVoicePreference: async (userId, voicePreference) => {
+      mergeProfile(userId, { voicePreference });
+    },
+
+    getMemoryProfile: async userId =>
+      (await repo.getUserProfile(userId))?.memoryProfile ?? null,
+
+    setMemoryProfile: async (userId, memoryProfile) => {
+      mergeProfile(userId, { memoryProfile });
+    },
+
+    // --- Registration whitelist ---
+    isEmailAllowed: async email => allowedEmails.has(email.toLowerCase().trim()),
+
+    addAllowedEmail: async (email, addedBy) => {
+      const normalized = email.toLowerCase().trim();
+      allowedEmails.set(normalized, {
+        email: normalized,
+        addedAt: toTimestamp(new Date()),
+        addedBy: addedBy || 'system',
+      });
+    },
+
+    removeAllowedEmail: async email => {
+      allowedEmails.delete(email.toLowerCase().trim());
+    },
+
+    listAllowedEmails: async () =>
+      [...allowedEmails.values()].map(clone).sort((a, b) => a.email.localeCompare(b.email)),
+
+    // --- LLM usage ---
+    recordLlmUsage: async (userId, record) => {
+      set(userId, 'llmUsage', { id: `usage-${++sequence}`, ...record });
+    },
+
+    getLlmUsageSince: async (userId, since) =>
+      all<LlmUsageRecord>(userId, 'llmUsage')
+        .filter(r => r.createdAt.toMillis() >= since.getTime())
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis()),
+
+    // --- Budgets ---
+    consumeDailyCounter: async (userId, day, counter, max) => {
+      const counters = get<Record<string, number>>(userId, 'dailyUsage', day) || {};
+      const used = counters[counter] ?? 0;
+      if (used >= max) {
+        return { consumed: false, used };
+      }
+      set(userId, 'dailyUsage', { ...counters, id: day, [counter]: used + 1 });
+      return { consumed: true, used: used + 1 };
+    },
+
+    releaseDailyCounter: async (userId, day, counter) => {
+      const counters = get<Record<string, number>>(userId, 'dailyUsage', day) || {};
+      const used = counters[counter] ?? 0;
+      if (used > 0) {
+        set(userId, 'dailyUsage', { ...counters, id: day, [counter]: used - 1 });
+      }
+    },
+
+    // --- Test helpers ---
+    put: (userId, name, doc) => {
+      set(userId, name, doc);
+    },
+
+    putProfile: (userId, fields) => {
+      mergeProfile(userId, fields);
+    },
+
+    list: <T>(userId: string, name: CollectionName) => all<T>(userId, name),
+
+    reset: () => {
+      users.clear();
+      allowedEmails.clear();
+      collections.clear();
+      files.clear();
+    },
+  };
+
+  return repo;
+}
@@ -0,0 +1,66 @@
+import { PrimerRepository, firestoreRepository } from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  bundleId,
+  hourOfDay,
+  isEncounterDay,
+  nextDayKey,
+  resolveCadence,
+  startOfNextDay,
+} from '../utils/firestore';
+
+// Local hour from which a user's next bundle is prefetched.
+export const PREFETCH_HOUR = 21;
+
+/**
+ * Hourly: for every user whose evening has come (PREFETCH_HOUR or later in
+ * their time zone) and who has used up today's bundle, create tomorrow's
+ * pending bundle, so the `bundleGenerator` trigger fills it overnight and the
+ * morning's encounter is ready on first load.
+ *
+ * A user is prefetched for only when their next slot is empty — i.e. they
+ * engaged today's bundle (or an earlier one) and nothing un-engaged is
+ * waiting. The later evening runs therefore find the slot taken and skip the
+ * user. So are users whose tomorrow is an off day of their cadence; the
+ * evening before their next encounter day prefetches it instead. A user who
+ * stops visiting gets at most one prefetched bundle; if it goes unopened past
+ * its day, GET /api/today regenerates it as stale, as for any other bundle.
+ */
+export async function prefetchTomorrowsBundles(
+  repo: PrimerRepository = firestoreRepository,
+  now: Date = new Date()
+): Promise<void> {
+  const userIds = await repo.getAllUserIds();
+  console.log(`[Prefetch] Checking ${userIds.length} user(s)`);
+
+  let created = 0;
+  for (const userId of userIds) {
+    try {
+      const profile = await repo.getUserProfile(userId);
+      const timeZone = profile?.timezone || DEFAULT_TIMEZONE;
+      if (hourOfDay(now, timeZone) < PREFETCH_HOUR) continue;
+      const tomorrow = startOfNextDay(now, timeZone);
+      if (!isEncounterDay(tomorrow, resolveCadence(profile?.cadence), timeZone)) continue;
+
+      const arc = await repo.getActiveArc(userId);
+      if (!arc) continue;
+
+      const dayInArc = await repo.calculateDayInArc(userId, arc);
+      const cycle = arc.cycle ?? 0;
+      if (await repo.getBundle(userId, bundleId(arc.id, dayInArc, cycle))) continue;
+
+      const availableOn = nextDayKey(now, timeZone);
+      await repo.createPendingBundle(userId, arc.id, dayInArc, { availableOn, cycle });
+      created++;
+      console.log(
+        `[Prefetch] Created pending bundle for user ${userId}, arc "${arc.theme}" day ${dayInArc}, available ${availableOn}`
+      );
+    } catch (error) {
+      // ALREADY_EXISTS: the user opened the app and created it concurrently.
+      if ((error as { code?: number }).code === 6) continue;
+      console.error(`[Prefetch] Error prefetching for user ${userId}:`, error);
+    }
+  }
+
+  console.log(`[Prefetch] Created ${created} pending bundle(s)`);
+}
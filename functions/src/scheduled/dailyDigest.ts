@@ -0,0 +1,75 @@
+import { PrimerRepository, firestoreRepository } from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  dayKey,
+  hourOfDay,
+  isBundleStale,
+  isEncounterDay,
+  resolveCadence,
+} from '../utils/firestore';
+import { sendDigestEmail } from '../services/emails';
+import { CATCH_UP_AFTER_DAYS, daysSinceLastEncounter } from '../services/catchUp';
+
+/**
+ * Hourly: email the day's encounter to every user who opted in and whose send
+ * hour has come in their own time zone, once per day.
+ *
+ * The digest pairs with the nightly prefetch: by the send hour, tomorrow's
+ * pending bundle has usually been generated, so it is simply sent. A user
+ * whose bundle is still generating is retried on the next run. A user whose
+ * un-opened bundle has gone stale gets it reset to pending, as GET /api/today
+ * would, so the trigger regenerates it in time for a later run. A user with
+ * nothing un-engaged waiting has already met today's encounter and is skipped,
+ * as is a user on an off day of their cadence.
+ *
+ * A user away for CATCH_UP_AFTER_DAYS or more gets nothing until they return:
+ * regenerating daily for an absent reader is wasted model calls, and a fresh
+ * bundle would hide the catch-up offer GET /api/today makes on their return.
+ */
+export async function sendDailyDigests(
+  repo: PrimerRepository = firestoreRepository,
+  now: Date = new Date()
+): Promise<void> {
+  const userIds = await repo.getAllUserIds();
+
+  let sent = 0;
+  for (const userId of userIds) {
+    try {
+      const profile = await repo.getUserProfile(userId);
+      if (!profile?.digest?.enabled || !profile.email) continue;
+
+      const timeZone = profile.timezone || DEFAULT_TIMEZONE;
+      const today = dayKey(now, timeZone);
+      if (hourOfDay(now, timeZone) < profile.digest.sendHour) continue;
+      if (profile.lastDigestOn === today) continue;
+      if (!isEncounterDay(now, resolveCadence(profile.cadence), timeZone)) continue;
+
+      const arc = await repo.getActiveArc(userId);
+      if (!arc) continue;
+
+      const daysAway = await daysSinceLastEncounter(userId, repo, now);
+      if (daysAway !== null && daysAway >= CATCH_UP_AFTER_DAYS) {
+        console.log(`[Digest] Skipping user ${userId}, away ${daysAway} days`);
+        continue;
+      }
+
+      const bundle = await repo.getCurrentUnengagedBundle(userId, arc.id, timeZone);
+      if (!bundle || bundle.generationStatus !== 'ready') continue;
+
+      if (isBundleStale(bundle, timeZone)) {
+        console.log(`[Digest] Resetting stale bundle ${bundle.id} for user ${userId}`);
+        await repo.resetBundleToPending(userId, bundle.id);
+        continue;
+      }
+
+      await sendDigestEmail(profile.email, bundle, arc);
+      await repo.markDigestSent(userId, today);
+      sent++;
+      console.log(`[Digest] Sent ${bundle.id} to user ${userId}`);
+    } catch (error) {
+      console.error(`[Digest] Error sending digest for user ${userId}:`, error);
+    }
+  }
+
+  console.log(`[Digest] Sent ${sent} digest(s) across ${userIds.length} user(s)`);
+}
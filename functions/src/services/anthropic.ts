@@ -1,24 +1,90 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { defineSecret } from 'firebase-functions/params';
-
-const anthropicApiKey = defineSecret('ANTHROPIC_API_KEY');
+import { anthropicApiKey, getLlmProvider } from './llmProvider';
+import { LlmCallContext, recordUsage } from './usageLedger';
 
 export const MODEL = 'claude-opus-4-7';
 
-let client: Anthropic | null = null;
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  // Plain text, or content blocks when the turn carries an image.
+  content: string | Anthropic.ContentBlockParam[];
+}
+
+// ---------------------------------------------------------------------------
+// Prompt caching
+// ---------------------------------------------------------------------------
+
+/**
+ * A system prompt, either whole or as segments ordered from most to least
+ * stable (e.g. fixed instructions, then per-user context). Each segment ends
+ * in a cache breakpoint, so a change in a later segment still reuses the
+ * cached prefix before it. The API allows four breakpoints per request and
+ * the helpers spend one on the conversation, so use at most three segments.
+ */
+export type SystemPrompt = string | string[];
+
+const EPHEMERAL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' };
+
+function buildSystem(prompt: SystemPrompt): Anthropic.TextBlockParam[] {
+  const segments = (Array.isArray(prompt) ? prompt : [prompt]).filter(Boolean);
+  return segments.map(text => ({ type: 'text', text, cache_control: EPHEMERAL }));
+}
 
-function getClient(): Anthropic {
-  if (!client) {
-    client = new Anthropic({
-      apiKey: anthropicApiKey.value(),
-    });
+/**
+ * Copy of `messages` with a cache breakpoint on the final block, so each turn
+ * of a multi-turn exchange reads the previous turns from cache. Applied per
+ * request — the stored history never accumulates breakpoints.
+ */
+function withConversationBreakpoint(
+  messages: Anthropic.MessageParam[]
+): Anthropic.MessageParam[] {
+  if (messages.length === 0) return messages;
+  const last = messages[messages.length - 1];
+  const blocks: Anthropic.ContentBlockParam[] =
+    typeof last.content === 'string'
+      ? [{ type: 'text', text: last.content }]
+      : [...last.content];
+  const final = blocks[blocks.length - 1];
+  if (!final || final.type === 'thinking' || final.type === 'redacted_thinking') {
+    return messages;
   }
-  return client;
+  blocks[blocks.length - 1] = { ...final, cache_control: EPHEMERAL };
+  return [...messages.slice(0, -1), { role: last.role, content: blocks }];
 }
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+function logUsage(label: string, usage: Anthropic.Usage): void {
+  console.log(
+    `[Anthropic] ${label}: input=${usage.input_tokens} cache_read=${
+      usage.cache_read_input_tokens ?? 0
+    } cache_write=${usage.cache_creation_input_tokens ?? 0} output=${usage.output_tokens}`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Request dispatch
+// ---------------------------------------------------------------------------
+
+/**
+ * Send one request through the active provider (streamed when `onText` is
+ * given), log its token usage, and — when the call has a context — write it
+ * to the user's usage ledger.
+ */
+async function send(
+  request: Anthropic.MessageCreateParamsNonStreaming,
+  label: string,
+  context?: LlmCallContext,
+  onText?: (delta: string) => void
+): Promise<Anthropic.Message> {
+  const provider = getLlmProvider();
+  const started = Date.now();
+  const response = onText
+    ? await provider.streamMessage(request, onText)
+    : await provider.createMessage(request);
+  logUsage(context ? `${label} [${context.purpose}]` : label, response.usage);
+  if (context) {
+    await recordUsage(context, response, Date.now() - started);
+  }
+  return response;
 }
 
 /**
@@ -47,21 +113,24 @@ export interface StructuredTool {
  * call. The tool's `input` is returned as `T` — no text parsing involved.
  */
 export async function generateStructured<T>(
-  systemPrompt: string,
+  systemPrompt: SystemPrompt,
   userPrompt: string,
   tool: StructuredTool,
-  maxTokens: number = 8000
+  maxTokens: number = 8000,
+  context?: LlmCallContext
 ): Promise<T> {
-  const anthropic = getClient();
-
-  const response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: maxTokens,
-    system: systemPrompt,
-    tools: [tool],
-    tool_choice: { type: 'tool', name: tool.name },
-    messages: [{ role: 'user', content: userPrompt }],
-  });
+  const response = await send(
+    {
+      model: MODEL,
+      max_tokens: maxTokens,
+      system: buildSystem(systemPrompt),
+      tools: [tool],
+      tool_choice: { type: 'tool', name: tool.name },
+      messages: [{ role: 'user', content: userPrompt }],
+    },
+    tool.name,
+    context
+  );
 
   const toolUse = response.content.find(
     (b): b is Anthropic.ToolUseBlock =>
@@ -92,38 +161,43 @@ const WEB_SEARCH_TOOL: Anthropic.WebSearchTool20250305 = {
  * returned as `T`. If the turn ends without that call, this throws.
  */
 export async function generateStructuredWithWebSearch<T>(
-  systemPrompt: string,
+  systemPrompt: SystemPrompt,
   userPrompt: string,
   submitTool: StructuredTool,
-  maxTokens: number = 8000
+  maxTokens: number = 8000,
+  context?: LlmCallContext
 ): Promise<T> {
-  const anthropic = getClient();
-
   const tools: Anthropic.ToolUnion[] = [WEB_SEARCH_TOOL, submitTool];
   const messages: Anthropic.MessageParam[] = [
     { role: 'user', content: userPrompt },
   ];
 
-  let response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: maxTokens,
-    system: systemPrompt,
-    tools,
-    messages,
-  });
+  const system = buildSystem(systemPrompt);
+
+  let response = await send(
+    { model: MODEL, max_tokens: maxTokens, system, tools, messages },
+    submitTool.name,
+    context
+  );
 
-  // Handle pause_turn: append assistant content and continue.
+  // Handle pause_turn: append assistant content and continue. The breakpoint
+  // on the accumulated turn lets each continuation reuse the search results
+  // gathered so far.
   let guard = 0;
   while (response.stop_reason === 'pause_turn' && guard < 5) {
     guard++;
     messages.push({ role: 'assistant', content: response.content });
-    response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: maxTokens,
-      system: systemPrompt,
-      tools,
-      messages,
-    });
+    response = await send(
+      {
+        model: MODEL,
+        max_tokens: maxTokens,
+        system,
+        tools,
+        messages: withConversationBreakpoint(messages),
+      },
+      `${submitTool.name} (continued)`,
+      context
+    );
   }
 
   const toolUse = response.content.find(
@@ -150,6 +224,14 @@ export interface ClientTool {
 
 export type ToolHandler = (input: Record<string, unknown>) => Promise<string> | string;
 
+export interface ToolUseLoopOptions {
+  maxTokens?: number;
+  // Stream every turn, forwarding text deltas as they arrive.
+  onText?: (delta: string) => void;
+  // Record each turn in the user's usage ledger.
+  context?: LlmCallContext;
+}
+
 export interface ToolUseLoopResult {
   text: string;
   toolCalls: Array<{ name: string; input: Record<string, unknown> }>;
@@ -159,15 +241,20 @@ export interface ToolUseLoopResult {
  * Run a conversation with client-side tools. Executes registered handlers for
  * any `tool_use` blocks and feeds `tool_result` blocks back until the model
  * reaches `end_turn`. Returns the final text and a record of tool calls made.
+ *
+ * With `options.onText`, every turn is streamed and its text deltas are
+ * forwarded as they arrive. Text from turns before a tool call has then already reached
+ * the client, so the returned text is everything streamed, not just the final
+ * turn's.
  */
 export async function runToolUseLoop(
-  systemPrompt: string,
+  systemPrompt: SystemPrompt,
   initialMessages: ChatMessage[],
   tools: ClientTool[],
   handlers: Record<string, ToolHandler>,
-  maxTokens: number = 2048
+  options: ToolUseLoopOptions = {}
 ): Promise<ToolUseLoopResult> {
-  const anthropic = getClient();
+  const { maxTokens = 2048, onText, context } = options;
 
   const messages: Anthropic.MessageParam[] = initialMessages.map(m => ({
     role: m.role,
@@ -180,26 +267,45 @@ export async function runToolUseLoop(
     input_schema: t.input_schema,
   }));
 
+  const system = buildSystem(systemPrompt);
   const toolCalls: Array<{ name: string; input: Record<string, unknown> }> = [];
+  let streamed = '';
   let guard = 0;
 
   while (guard < 8) {
     guard++;
 
-    const response = await anthropic.messages.create({
+    const request: Anthropic.MessageCreateParamsNonStreaming = {
       model: MODEL,
       max_tokens: maxTokens,
-      system: systemPrompt,
+      system,
       tools: toolDefs,
-      messages,
-    });
+      messages: withConversationBreakpoint(messages),
+    };
+
+    // Separate each streamed turn's text from any earlier turn's with a
+    // paragraph break.
+    let turnStarted = false;
+    const response = await send(
+      request,
+      'tool loop',
+      context,
+      onText &&
+        (delta => {
+          const chunk = !turnStarted && streamed ? `\n\n${delta}` : delta;
+          turnStarted = true;
+          streamed += chunk;
+          onText(chunk);
+        })
+    );
 
     const toolUseBlocks = response.content.filter(
       (b): b is Anthropic.ToolUseBlock => b.type === 'tool_use'
     );
 
     if (response.stop_reason !== 'tool_use' || toolUseBlocks.length === 0) {
-      return { text: extractText(response.content), toolCalls };
+      const text = onText ? streamed.trim() : extractText(response.content);
+      return { text, toolCalls };
     }
 
     // Record the assistant's turn (including the tool_use blocks).
@@ -234,7 +340,7 @@ export async function runToolUseLoop(
   }
 
   // Loop guard exhausted.
-  return { text: '', toolCalls };
+  return { text: onText ? streamed.trim() : '', toolCalls };
 }
 
 export { anthropicApiKey };
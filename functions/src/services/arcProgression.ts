@@ -0,0 +1,41 @@
+import { Arc } from '../types';
+import { toTimestamp } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
+
+/** The next-order planned arc in the arc's season, or null if it is the last. */
+export async function findNextPlannedArc(
+  userId: string,
+  arc: Arc,
+  repo: PrimerRepository = firestoreRepository
+): Promise<Arc | null> {
+  const seasonArcs = await repo.getSeasonArcs(userId, arc.seasonId);
+  return (
+    seasonArcs.find(a => a.status === 'planned' && a.orderInSeason > arc.orderInSeason) || null
+  );
+}
+
+/**
+ * Marks an arc completed and activates the next-order planned arc in the same
+ * season. Returns the newly activated arc, or null if the season is finished.
+ */
+export async function completeArcAndAdvance(
+  userId: string,
+  arc: Arc,
+  repo: PrimerRepository = firestoreRepository
+): Promise<Arc | null> {
+  await repo.updateArc(userId, arc.id, {
+    status: 'completed',
+    completedDate: toTimestamp(new Date()),
+  });
+
+  const next = await findNextPlannedArc(userId, arc, repo);
+  if (!next) {
+    return null;
+  }
+
+  await repo.updateArc(userId, next.id, {
+    status: 'active',
+    startDate: toTimestamp(new Date()),
+  });
+  return { ...next, status: 'active' };
+}
@@ -0,0 +1,107 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { IMAGE_MEDIA_TYPES, ImageMediaType, MAX_IMAGE_BYTES } from '../types';
+
+/**
+ * Today's artwork as the guide sees it: the bundle's resolved image fetched
+ * and encoded as an image content block, so the guide can talk about the
+ * composition itself rather than guess from the title.
+ *
+ * Fetched images are cached per function instance — every turn of every
+ * conversation about the same artwork reuses one download. Failures are
+ * cached too (for less time), so an unreachable image doesn't add a slow
+ * fetch to each message; the guide falls back to the title and artist.
+ */
+
+const FETCH_TIMEOUT_MS = 8000;
+
+const CACHE_LIMIT = 20;
+const SUCCESS_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+
+interface CacheEntry {
+  expires: number;
+  block: Promise<Anthropic.ImageBlockParam | null>;
+}
+
+// Insertion-ordered, so the first key is the oldest entry.
+const cache = new Map<string, CacheEntry>();
+
+async function fetchImageBlock(url: string): Promise<Anthropic.ImageBlockParam | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'PersonalPrimer/1.0' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.log(`[ArtworkImage] Fetch returned ${response.status}: ${url}`);
+      return null;
+    }
+
+    const mediaType = (response.headers.get('content-type') || '')
+      .split(';')[0]
+      .trim()
+      .toLowerCase() as ImageMediaType;
+    if (!IMAGE_MEDIA_TYPES.includes(mediaType)) {
+      console.log(`[ArtworkImage] Unsupported type "${mediaType}": ${url}`);
+      return null;
+    }
+
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      console.log(`[ArtworkImage] Too large (${bytes.length} bytes): ${url}`);
+      return null;
+    }
+
+    console.log(`[ArtworkImage] Fetched ${bytes.length} bytes (${mediaType}): ${url}`);
+    return {
+      type: 'image',
+      source: { type: 'base64', media_type: mediaType, data: bytes.toString('base64') },
+    };
+  } catch (error) {
+    console.error(`[ArtworkImage] Error fetching ${url}:`, error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * The image at `url` as an image content block, or null when it can't be
+ * used (not http(s), unreachable, an unsupported type, or too large).
+ * Concurrent callers for the same URL share one fetch.
+ */
+export async function getArtworkImageBlock(
+  url: string
+): Promise<Anthropic.ImageBlockParam | null> {
+  if (!url || !/^https?:\/\//i.test(url)) {
+    return null;
+  }
+
+  const now = Date.now();
+  const cached = cache.get(url);
+  if (cached && cached.expires > now) {
+    return cached.block;
+  }
+  cache.delete(url);
+
+  const entry: CacheEntry = { expires: now + SUCCESS_TTL_MS, block: fetchImageBlock(url) };
+  cache.set(url, entry);
+  while (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+
+  const block = await entry.block;
+  if (!block) {
+    entry.expires = now + FAILURE_TTL_MS;
+  }
+  return block;
+}
+
+/**
+ * Forget every cached image (tests).
+ */
+export function clearArtworkImageCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,119 @@
+import { BudgetLimit, DailyCounter, UserBudget } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { DEFAULT_TIMEZONE, dayKey, startOfDay, startOfNextDay } from '../utils/firestore';
+
+/**
+ * Per-user daily budgets for the calls a user can trigger at will: guide
+ * messages and course-steering turns, plus a ceiling on all tokens spent on
+ * the user that day (the token count comes from the usage ledger).
+ *
+ * Defaults can be changed per deployment through BUDGET_* environment
+ * variables and per user through the `budget` field on their profile doc.
+ * Days are the user's calendar days in their own time zone.
+ */
+
+export type BudgetedAction = 'message' | 'steering';
+
+export type BudgetVerdict =
+  | { allowed: true; day: string } // The day the request was counted under
+  | { allowed: false; limit: BudgetLimit; used: number; max: number; resetsAt: Date };
+
+const DEFAULT_BUDGET: UserBudget = {
+  messagesPerDay: 60,
+  tokensPerDay: 1_500_000,
+  steeringTurnsPerDay: 20,
+};
+
+const ENV_OVERRIDES: Record<BudgetLimit, string> = {
+  messagesPerDay: 'BUDGET_MESSAGES_PER_DAY',
+  tokensPerDay: 'BUDGET_TOKENS_PER_DAY',
+  steeringTurnsPerDay: 'BUDGET_STEERING_TURNS_PER_DAY',
+};
+
+const COUNTERS: Record<BudgetedAction, { counter: DailyCounter; limit: BudgetLimit }> = {
+  message: { counter: 'messages', limit: 'messagesPerDay' },
+  steering: { counter: 'steeringTurns', limit: 'steeringTurnsPerDay' },
+};
+
+/** The budget in force for a user: profile override, else env, else default. */
+export function resolveBudget(overrides?: Partial<UserBudget> | null): UserBudget {
+  const budget = { ...DEFAULT_BUDGET };
+  for (const limit of Object.keys(budget) as BudgetLimit[]) {
+    const fromEnv = Number(process.env[ENV_OVERRIDES[limit]]);
+    if (process.env[ENV_OVERRIDES[limit]] && Number.isFinite(fromEnv)) {
+      budget[limit] = fromEnv;
+    }
+    const fromProfile = overrides?.[limit];
+    if (typeof fromProfile === 'number' && Number.isFinite(fromProfile)) {
+      budget[limit] = fromProfile;
+    }
+  }
+  return budget;
+}
+
+/** The day key (YYYY-MM-DD) budgets are counted under. */
+export function budgetDay(now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string {
+  return dayKey(now, timeZone);
+}
+
+/** When the current budget day ends (the user's next midnight). */
+export function budgetResetsAt(
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  return startOfNextDay(now, timeZone);
+}
+
+/**
+ * Decide whether the user may make one more request of this kind today. An
+ * allowed request is counted against its daily limit (until refunded); a
+ * refused one is not.
+ */
+export async function checkBudget(
+  userId: string,
+  action: BudgetedAction,
+  repo: PrimerRepository = firestoreRepository,
+  now: Date = new Date()
+): Promise<BudgetVerdict> {
+  const profile = await repo.getUserProfile(userId);
+  const budget = resolveBudget(profile?.budget);
+  const timeZone = profile?.timezone || DEFAULT_TIMEZONE;
+  const resetsAt = budgetResetsAt(now, timeZone);
+
+  const records = await repo.getLlmUsageSince(userId, startOfDay(now, timeZone));
+  const tokens = records.reduce(
+    (sum, r) => sum + r.inputTokens + r.outputTokens + r.cacheWriteTokens,
+    0
+  );
+  if (tokens >= budget.tokensPerDay) {
+    return {
+      allowed: false,
+      limit: 'tokensPerDay',
+      used: tokens,
+      max: budget.tokensPerDay,
+      resetsAt,
+    };
+  }
+
+  const { counter, limit } = COUNTERS[action];
+  const { consumed, used } = await repo.consumeDailyCounter(
+    userId,
+    budgetDay(now, timeZone),
+    counter,
+    budget[limit]
+  );
+  if (!consumed) {
+    return { allowed: false, limit, used, max: budget[limit], resetsAt };
+  }
+  return { allowed: true, day: budgetDay(now, timeZone) };
+}
+
+/** Give back a request counted by checkBudget on `day` that didn't go through. */
+export async function refundBudget(
+  userId: string,
+  action: BudgetedAction,
+  day: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  await repo.releaseDailyCounter(userId, day, COUNTERS[action].counter);
+}
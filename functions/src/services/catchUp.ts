@@ -0,0 +1,104 @@
+import { Arc, CatchUpChoice, TodayResponse } from '../types';
+import { dayKey, daysBetweenKeys, toTimestamp } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { completeArcAndAdvance, findNextPlannedArc } from './arcProgression';
+
+// Days since the last engaged bundle after which GET /api/today asks how to
+// pick things up instead of carrying on at the same day.
+export const CATCH_UP_AFTER_DAYS = 7;
+
+/**
+ * Calendar days, in the user's time zone, from their last engaged bundle to
+ * `now`, or null if they have never engaged one.
+ */
+export async function daysSinceLastEncounter(
+  userId: string,
+  repo: PrimerRepository = firestoreRepository,
+  now: Date = new Date()
+): Promise<number | null> {
+  const [last] = await repo.getBundleHistory(userId, 1);
+  if (!last) return null;
+  const timeZone = await repo.getTimeZone(userId);
+  return daysBetweenKeys(dayKey(last.createdAt.toDate(), timeZone), dayKey(now, timeZone));
+}
+
+/**
+ * The catch-up offer for a user back after CATCH_UP_AFTER_DAYS or more, or
+ * null if they haven't been away that long.
+ */
+export async function getCatchUpOffer(
+  userId: string,
+  arc: Arc,
+  repo: PrimerRepository = firestoreRepository,
+  now: Date = new Date()
+): Promise<Extract<TodayResponse, { status: 'catch_up' }> | null> {
+  const daysAway = await daysSinceLastEncounter(userId, repo, now);
+  if (daysAway === null || daysAway < CATCH_UP_AFTER_DAYS) return null;
+
+  const nextArc = await findNextPlannedArc(userId, arc, repo);
+  return {
+    status: 'catch_up',
+    arc,
+    dayInArc: await repo.calculateDayInArc(userId, arc),
+    daysAway,
+    nextArc: nextArc
+      ? { theme: nextArc.theme, shortDescription: nextArc.shortDescription }
+      : null,
+  };
+}
+
+/**
+ * Act on the user's answer to a catch-up offer and create the pending bundle
+ * it leads to. Any un-engaged bundle left waiting in the arc is dropped first:
+ * it was made for a day the user missed.
+ *
+ * - resume:  same arc and day; the new bundle's framing welcomes them back.
+ * - restart: the arc starts a new cycle from day 1.
+ * - skip:    the arc is completed and the next planned arc begins.
+ *
+ * Returns the active arc afterwards. The caller checks that skipping has an
+ * arc to skip to.
+ */
+export async function applyCatchUp(
+  userId: string,
+  arc: Arc,
+  choice: CatchUpChoice,
+  daysAway: number,
+  repo: PrimerRepository = firestoreRepository
+): Promise<Arc> {
+  const timeZone = await repo.getTimeZone(userId);
+  const waiting = await repo.getCurrentUnengagedBundle(userId, arc.id, timeZone);
+  if (waiting) {
+    await repo.deleteBundle(userId, waiting.id);
+  }
+
+  let active = arc;
+  let options: { cycle?: number; returningAfterDays?: number } = {};
+  if (choice === 'resume') {
+    options = { cycle: arc.cycle, returningAfterDays: daysAway };
+  } else if (choice === 'restart') {
+    const cycle = (arc.cycle ?? 0) + 1;
+    const startDate = toTimestamp(new Date());
+    await repo.updateArc(userId, arc.id, { cycle, startDate });
+    active = { ...arc, cycle, startDate };
+    options = { cycle };
+  } else {
+    const next = await completeArcAndAdvance(userId, arc, repo);
+    if (!next) {
+      throw new Error(`No planned arc after "${arc.theme}" to skip to`);
+    }
+    active = next;
+  }
+
+  const dayInArc = await repo.calculateDayInArc(userId, active);
+  try {
+    await repo.createPendingBundle(userId, active.id, dayInArc, options);
+  } catch (err) {
+    // ALREADY_EXISTS: a concurrent GET /api/today created it first.
+    if ((err as { code?: number }).code !== 6) throw err;
+  }
+  console.log(
+    `[CatchUp] User ${userId} chose "${choice}" after ${daysAway} days away; arc "${active.theme}" day ${dayInArc}`
+  );
+  return active;
+}
@@ -0,0 +1,185 @@
+import { Arc, DailyBundle } from '../types';
+import { MailMessage, getMailer } from './mailer';
+
+/**
+ * Transactional email templates. Each renders a plain-text and an HTML body
+ * from the same content; `send*` hands the result to the active mailer.
+ */
+
+type EmailContent = Omit<MailMessage, 'to'>;
+
+/** Where links back into the app point. Set APP_URL to the Hosting origin. */
+export function appUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+export type EmailBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'image'; url: string; alt: string; caption?: string }
+  | { kind: 'quote'; text: string; attribution: string }
+  | { kind: 'link'; label: string; url: string }
+  | { kind: 'button'; label: string; url: string }
+  | { kind: 'footnote'; text: string };
+
+const STYLE = {
+  body: 'margin:0;padding:32px 16px;background:#faf9f7;font-family:Georgia,serif;color:#1a1a1a;',
+  heading: 'font-size:22px;font-weight:normal;margin:0 0 24px;',
+  paragraph: 'font-size:16px;line-height:1.6;margin:0 0 16px;',
+  image: 'display:block;max-width:100%;height:auto;border-radius:4px;',
+  caption: 'font-family:sans-serif;font-size:13px;color:#666;margin:8px 0 0;',
+  quote: 'margin:24px 0;padding:0 0 0 16px;border-left:3px solid #e5e5e5;font-style:italic;font-size:16px;line-height:1.6;',
+  attribution: 'display:block;margin-top:8px;font-style:normal;font-family:sans-serif;font-size:13px;color:#666;',
+  link: 'color:#2563eb;',
+  button: 'display:inline-block;padding:10px 20px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;font-family:sans-serif;font-size:15px;',
+  footnote: 'font-family:sans-serif;font-size:13px;color:#777;margin:24px 0 0;',
+};
+
+function blockText(block: EmailBlock): string {
+  switch (block.kind) {
+    case 'paragraph':
+    case 'footnote':
+      return block.text;
+    case 'image':
+      return block.caption ? `[${block.caption}]` : '';
+    case 'quote':
+      return `"${block.text}"\n  — ${block.attribution}`;
+    case 'link':
+    case 'button':
+      return `${block.label}: ${block.url}`;
+  }
+}
+
+function blockHtml(block: EmailBlock): string {
+  switch (block.kind) {
+    case 'paragraph':
+      return `<p style="${STYLE.paragraph}">${escapeHtml(block.text)}</p>`;
+    case 'image':
+      return `<p style="margin:0 0 24px;"><img src="${escapeHtml(block.url)}" alt="${escapeHtml(block.alt)}" width="560" style="${STYLE.image}">${
+        block.caption ? `<span style="display:block;${STYLE.caption}">${escapeHtml(block.caption)}</span>` : ''
+      }</p>`;
+    case 'quote':
+      return `<blockquote style="${STYLE.quote}">${escapeHtml(block.text)}<span style="${STYLE.attribution}">— ${escapeHtml(block.attribution)}</span></blockquote>`;
+    case 'link':
+      return `<p style="${STYLE.paragraph}"><a href="${escapeHtml(block.url)}" style="${STYLE.link}">${escapeHtml(block.label)}</a></p>`;
+    case 'button':
+      return `<p style="margin:24px 0;"><a href="${escapeHtml(block.url)}" style="${STYLE.button}">${escapeHtml(block.label)}</a></p>`;
+    case 'footnote':
+      return `<p style="${STYLE.footnote}">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+/** Render the shared layout: a heading over a column of blocks. */
+export function renderEmail(subject: string, heading: string, blocks: EmailBlock[]): EmailContent {
+  const text = [heading, ...blocks.map(blockText).filter(Boolean)].join('\n\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="${STYLE.body}">
+    <div style="max-width:560px;margin:0 auto;">
+      <h1 style="${STYLE.heading}">${escapeHtml(heading)}</h1>
+      ${blocks.map(blockHtml).join('\n      ')}
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+export function verificationEmail(link: string): EmailContent {
+  return renderEmail('Verify your email for Primer', 'Confirm your email', [
+    { kind: 'paragraph', text: 'Welcome to Primer. Confirm this address to finish setting up your account.' },
+    { kind: 'button', label: 'Verify email', url: link },
+    { kind: 'footnote', text: "If you didn't create a Primer account, you can ignore this email." },
+  ]);
+}
+
+export function passwordResetEmail(link: string): EmailContent {
+  return renderEmail('Reset your Primer password', 'Reset your password', [
+    { kind: 'paragraph', text: 'Someone asked to reset the password for your Primer account.' },
+    { kind: 'button', label: 'Choose a new password', url: link },
+    { kind: 'footnote', text: "If it wasn't you, ignore this email; your password stays the same." },
+  ]);
+}
+
+export function welcomeEmail(): EmailContent {
+  return renderEmail('Welcome to Personal Primer', 'Welcome to Personal Primer', [
+    {
+      kind: 'paragraph',
+      text: 'Each day brings one encounter: a piece of music, an image and a text around a shared theme, with a guide to talk them over with.',
+    },
+    {
+      kind: 'paragraph',
+      text: "Your first course is being planned now, and today's encounter will be ready in a moment.",
+    },
+    { kind: 'button', label: "Open today's encounter", url: `${appUrl()}/` },
+  ]);
+}
+
+// Framing text is Markdown; the email shows it as plain paragraphs.
+function framingParagraphs(markdown: string): string[] {
+  return markdown
+    .split(/\n\s*\n/)
+    .map(p =>
+      p
+        .replace(/^#+\s*/gm, '')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/([*_])(.+?)\1/g, '$2')
+        .replace(/\s*\n\s*/g, ' ')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/** The daily digest: one ready bundle, with a link back to Today. */
+export function digestEmail(bundle: DailyBundle, arc: Arc): EmailContent {
+  const { music, image, text } = bundle;
+  const caption = [image.title, image.artist, image.year].filter(Boolean).join(', ');
+
+  return renderEmail(`Today in Primer: ${arc.theme}`, arc.theme, [
+    { kind: 'image', url: image.imageUrl, alt: image.title, caption },
+    ...framingParagraphs(bundle.framingText).map(p => ({ kind: 'paragraph' as const, text: p })),
+    { kind: 'link', label: `Listen: ${music.title} — ${music.artist}`, url: music.youtubeUrl },
+    { kind: 'quote', text: text.content, attribution: `${text.author}, ${text.source}` },
+    { kind: 'button', label: 'Talk it over with your guide', url: `${appUrl()}/` },
+    {
+      kind: 'footnote',
+      text: `Day ${bundle.dayInArc} of ${arc.targetDurationDays}. You get this email because you turned on the daily digest; change its time or turn it off at ${appUrl()}/settings.`,
+    },
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export async function sendVerificationEmail(to: string, link: string): Promise<void> {
+  await getMailer().send({ to, ...verificationEmail(link) });
+}
+
+export async function sendPasswordResetEmail(to: string, link: string): Promise<void> {
+  await getMailer().send({ to, ...passwordResetEmail(link) });
+}
+
+export async function sendWelcomeEmail(to: string): Promise<void> {
+  await getMailer().send({ to, ...welcomeEmail() });
+}
+
+export async function sendDigestEmail(to: string, bundle: DailyBundle, arc: Arc): Promise<void> {
+  await getMailer().send({ to, ...digestEmail(bundle, arc) });
+}
@@ -0,0 +1,461 @@
+import { randomUUID } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  Arc,
+  Conversation,
+  ConversationMessage,
+  DailyBundle,
+  EXPORT_VERSION,
+  ExportArchive,
+  Exported,
+  Season,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { DEFAULT_TIMEZONE, dayKey } from '../utils/firestore';
+import { createZip } from '../utils/zip';
+
+/**
+ * A user's whole history, for download. The JSON archive holds every document
+ * the user owns; Markdown and EPUB render the same archive as a readable book:
+ * one chapter per season, one section per arc with its retrospective, and
+ * each day's artifacts, framing, further reading and conversation.
+ */
+
+const BOOK_TITLE = 'Personal Primer';
+
+// ---------------------------------------------------------------------------
+// Archive
+// ---------------------------------------------------------------------------
+
+// Timestamps become ISO 8601 strings; everything else is copied as is.
+function exported<T>(value: T): Exported<T> {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString() as Exported<T>;
+  }
+  if (Array.isArray(value)) {
+    return value.map(exported) as Exported<T>;
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field !== undefined) out[key] = exported(field);
+    }
+    return out as Exported<T>;
+  }
+  return value as Exported<T>;
+}
+
+// Engaged bundles with content. Legacy bundles say `status: 'delivered'`.
+function isEncountered(bundle: DailyBundle & { status?: string }): boolean {
+  return (
+    (bundle.engaged === true || bundle.status === 'delivered') &&
+    (bundle.generationStatus === undefined || bundle.generationStatus === 'ready')
+  );
+}
+
+export async function buildExportArchive(
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<ExportArchive> {
+  const [profile, seasons, arcs, bundles, exposures, conversations, sessionInsights] =
+    await Promise.all([
+      repo.getUserProfile(userId),
+      repo.getAllSeasons(userId),
+      repo.getAllArcs(userId),
+      repo.getAllBundles(userId),
+      repo.getAllExposures(userId),
+      repo.getAllConversations(userId),
+      repo.getAllSessionInsights(userId),
+    ]);
+
+  const encountered = bundles.filter(isEncountered);
+  const bundleIds = new Set(encountered.map(b => b.id));
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile
+      ? exported({
+          email: profile.email,
+          createdAt: profile.createdAt,
+          voicePreference: profile.voicePreference ?? null,
+          memoryProfile: profile.memoryProfile ?? null,
+          timezone: profile.timezone ?? null,
+          digest: profile.digest ?? null,
+          nextSeason: profile.nextSeason ?? null,
+          cadence: profile.cadence ?? null,
+        })
+      : null,
+    seasons: exported(seasons),
+    arcs: exported(arcs),
+    bundles: exported(encountered),
+    exposures: exported(exposures),
+    conversations: exported(conversations.filter(c => bundleIds.has(c.bundleId))),
+    sessionInsights: exported(sessionInsights),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Book outline, shared by Markdown and EPUB
+// ---------------------------------------------------------------------------
+
+interface BookDay {
+  bundle: Exported<DailyBundle>;
+  conversation: Exported<Conversation> | null;
+}
+
+interface BookArc {
+  arc: Exported<Arc> | null;
+  title: string;
+  days: BookDay[];
+}
+
+interface BookChapter {
+  season: Exported<Season> | null;
+  title: string;
+  arcs: BookArc[];
+}
+
+// Seasons in order, their arcs in order, each arc's days in order. Arcs with
+// no encountered bundles are left out; bundles whose arc or season is gone
+// (legacy data) close the book under "Earlier Encounters".
+function outline(archive: ExportArchive): BookChapter[] {
+  const conversations = new Map(archive.conversations.map(c => [c.bundleId, c]));
+  const daysByArc = new Map<string, BookDay[]>();
+  for (const bundle of archive.bundles) {
+    const days = daysByArc.get(bundle.arcId) || [];
+    days.push({ bundle, conversation: conversations.get(bundle.id) || null });
+    daysByArc.set(bundle.arcId, days);
+  }
+  for (const days of daysByArc.values()) {
+    days.sort(
+      (a, b) =>
+        (a.bundle.cycle ?? 0) - (b.bundle.cycle ?? 0) ||
+        (a.bundle.dayInArc || 0) - (b.bundle.dayInArc || 0) ||
+        a.bundle.createdAt.localeCompare(b.bundle.createdAt)
+    );
+  }
+
+  const chapters: BookChapter[] = [];
+  const placed = new Set<string>();
+  const seasons = [...archive.seasons].sort((a, b) => a.seasonNumber - b.seasonNumber);
+  for (const season of seasons) {
+    const arcs = archive.arcs
+      .filter(arc => arc.seasonId === season.id && daysByArc.has(arc.id))
+      .sort((a, b) => a.orderInSeason - b.orderInSeason)
+      .map(arc => {
+        placed.add(arc.id);
+        return { arc, title: `${arc.orderInSeason}. ${arc.theme}`, days: daysByArc.get(arc.id)! };
+      });
+    if (arcs.length > 0) {
+      chapters.push({ season, title: `Season ${season.seasonNumber}`, arcs });
+    }
+  }
+
+  const arcsById = new Map(archive.arcs.map(arc => [arc.id, arc]));
+  const leftover: BookArc[] = [...daysByArc.keys()]
+    .filter(arcId => !placed.has(arcId))
+    .map(arcId => {
+      const arc = arcsById.get(arcId) || null;
+      return { arc, title: arc?.theme || 'Earlier Encounters', days: daysByArc.get(arcId)! };
+    });
+  if (leftover.length > 0) {
+    chapters.push({ season: null, title: 'Earlier Encounters', arcs: leftover });
+  }
+  return chapters;
+}
+
+function dayTitle(day: BookDay, timeZone: string): string {
+  const { bundle } = day;
+  const pass = bundle.cycle ? `, restart ${bundle.cycle}` : '';
+  return `Day ${bundle.dayInArc || 1}${pass} · ${dayKey(new Date(bundle.createdAt), timeZone)}`;
+}
+
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+}
+
+function speaker(role: 'user' | 'assistant'): string {
+  return role === 'user' ? 'You' : 'Guide';
+}
+
+// The exports carry text only; shared images are noted, not embedded.
+function messageText(message: Exported<ConversationMessage>): string {
+  const count = message.images?.length ?? 0;
+  const note = count === 0 ? '' : count === 1 ? '[Shared an image]' : `[Shared ${count} images]`;
+  return [note, message.content.trim()].filter(Boolean).join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function mdLink(title: string, url: string | undefined): string {
+  return url ? `[${title}](${url})` : title;
+}
+
+function mdQuote(text: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function markdownDay(day: BookDay, timeZone: string): string {
+  const { bundle, conversation } = day;
+  const lines = [`#### ${dayTitle(day, timeZone)}`, ''];
+
+  for (const p of paragraphs(bundle.framingText || '')) {
+    lines.push(p, '');
+  }
+
+  const imageArtist = bundle.image.artist ? ` — ${bundle.image.artist}` : '';
+  lines.push(
+    `- **Music:** ${mdLink(bundle.music.title, bundle.music.youtubeUrl)} — ${bundle.music.artist}`,
+    `- **Image:** ${mdLink(bundle.image.title, bundle.image.sourceUrl)}${imageArtist}`,
+    `- **Text:** *${bundle.text.source}* — ${bundle.text.author}`,
+    ''
+  );
+  if (bundle.text.content) {
+    lines.push(mdQuote(bundle.text.content), '');
+  }
+
+  if (bundle.suggestedReading) {
+    const { title, url, rationale } = bundle.suggestedReading;
+    lines.push(`**Further reading:** ${mdLink(title, url)} — ${rationale}`, '');
+  }
+
+  if (conversation && conversation.messages.length > 0) {
+    lines.push('##### Conversation', '');
+    for (const message of conversation.messages) {
+      lines.push(`**${speaker(message.role)}:** ${messageText(message)}`, '');
+    }
+  }
+  return lines.join('\n');
+}
+
+export function renderMarkdown(archive: ExportArchive): string {
+  const timeZone = archive.profile?.timezone || DEFAULT_TIMEZONE;
+  const chapters = outline(archive);
+  const out = [
+    `# ${BOOK_TITLE}`,
+    '',
+    `Exported ${dayKey(new Date(archive.exportedAt), timeZone)}.`,
+    '',
+  ];
+  if (chapters.length === 0) {
+    out.push('No encounters yet.', '');
+  }
+
+  for (const chapter of chapters) {
+    out.push(`## ${chapter.title}`, '');
+    for (const section of chapter.arcs) {
+      out.push(`### ${section.title}`, '');
+      if (section.arc?.description) {
+        out.push(`*${section.arc.description.trim()}*`, '');
+      }
+      if (section.arc?.retrospective) {
+        out.push('**Looking back**', '', section.arc.retrospective.trim(), '');
+      }
+      for (const day of section.days) {
+        out.push(markdownDay(day, timeZone));
+      }
+    }
+  }
+  return out.join('\n').trimEnd() + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// EPUB 3
+// ---------------------------------------------------------------------------
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlLink(title: string, url: string | undefined): string {
+  return url ? `<a href="${esc(url)}">${esc(title)}</a>` : esc(title);
+}
+
+// The guide writes Markdown; keep its emphasis, drop the rest of the syntax.
+function inlineMarkdown(html: string): string {
+  return html
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*/g, '$1<em>$2</em>')
+    .replace(/^#{1,6}\s+/, '');
+}
+
+function htmlParagraphs(text: string, className?: string): string {
+  const attr = className ? ` class="${className}"` : '';
+  return paragraphs(text)
+    .map(p => `<p${attr}>${inlineMarkdown(esc(p)).replace(/\n/g, '<br/>')}</p>`)
+    .join('\n');
+}
+
+function xhtml(title: string, body: string, extraNamespace = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${esc(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function htmlDay(day: BookDay, timeZone: string): string {
+  const { bundle, conversation } = day;
+  const parts = [`<section class="day">`, `<h3>${esc(dayTitle(day, timeZone))}</h3>`];
+
+  parts.push(htmlParagraphs(bundle.framingText || '', 'framing'));
+
+  const imageArtist = bundle.image.artist ? ` — ${esc(bundle.image.artist)}` : '';
+  parts.push(
+    '<ul class="artifacts">',
+    `<li><strong>Music:</strong> ${htmlLink(bundle.music.title, bundle.music.youtubeUrl)} — ${esc(bundle.music.artist)}</li>`,
+    `<li><strong>Image:</strong> ${htmlLink(bundle.image.title, bundle.image.sourceUrl)}${imageArtist}</li>`,
+    `<li><strong>Text:</strong> <em>${esc(bundle.text.source)}</em> — ${esc(bundle.text.author)}</li>`,
+    '</ul>'
+  );
+  if (bundle.text.content) {
+    parts.push(`<blockquote>${htmlParagraphs(bundle.text.content)}</blockquote>`);
+  }
+
+  if (bundle.suggestedReading) {
+    const { title, url, rationale } = bundle.suggestedReading;
+    parts.push(
+      `<p class="reading"><strong>Further reading:</strong> ${htmlLink(title, url)} — ${esc(rationale)}</p>`
+    );
+  }
+
+  if (conversation && conversation.messages.length > 0) {
+    parts.push('<h4>Conversation</h4>');
+    for (const message of conversation.messages) {
+      parts.push(
+        `<div class="message ${message.role}"><p class="speaker">${speaker(message.role)}</p>`,
+        htmlParagraphs(messageText(message)),
+        '</div>'
+      );
+    }
+  }
+
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+function chapterXhtml(chapter: BookChapter, timeZone: string): string {
+  const parts = [`<h1>${esc(chapter.title)}</h1>`];
+  for (const section of chapter.arcs) {
+    parts.push(`<h2>${esc(section.title)}</h2>`);
+    if (section.arc?.description) {
+      parts.push(htmlParagraphs(section.arc.description, 'arc-description'));
+    }
+    if (section.arc?.retrospective) {
+      parts.push(
+        '<div class="retrospective">',
+        '<p class="speaker">Looking back</p>',
+        htmlParagraphs(section.arc.retrospective),
+        '</div>'
+      );
+    }
+    for (const day of section.days) {
+      parts.push(htmlDay(day, timeZone));
+    }
+  }
+  return xhtml(chapter.title, parts.join('\n'));
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3, h4 { font-family: sans-serif; }
+.arc-description { font-style: italic; }
+.retrospective { margin: 1em 0 2em; padding-left: 1em; border-left: 2px solid #ccc; }
+.artifacts { padding-left: 1.25em; }
+blockquote { margin: 1em 1.5em; font-style: italic; }
+.speaker { font-family: sans-serif; font-size: 0.85em; font-weight: bold; margin-bottom: 0; }
+.message.user { margin-left: 1.5em; }
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+export function renderEpub(archive: ExportArchive): Buffer {
+  const timeZone = archive.profile?.timezone || DEFAULT_TIMEZONE;
+  const chapters = outline(archive);
+  const files = chapters.map((chapter, i) => ({
+    id: `chapter-${i + 1}`,
+    href: `chapter-${i + 1}.xhtml`,
+    title: chapter.title,
+    content: chapterXhtml(chapter, timeZone),
+  }));
+
+  const exportedOn = dayKey(new Date(archive.exportedAt), timeZone);
+  const titlePage = xhtml(
+    BOOK_TITLE,
+    `<h1>${BOOK_TITLE}</h1>\n<p>Exported ${exportedOn}.</p>` +
+      (chapters.length === 0 ? '\n<p>No encounters yet.</p>' : '')
+  );
+
+  const nav = xhtml(
+    'Contents',
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+<li><a href="title.xhtml">${BOOK_TITLE}</a></li>
+${files.map(f => `<li><a href="${f.href}">${esc(f.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`,
+    ' xmlns:epub="http://www.idpf.org/2007/ops"'
+  );
+
+  // dcterms:modified wants whole seconds.
+  const modified = archive.exportedAt.replace(/\.\d+Z$/, 'Z');
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+    <dc:title>${BOOK_TITLE}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:date>${exportedOn}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+    <item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${files.map(f => `    <item id="${f.id}" href="${f.href}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>
+    <itemref idref="title"/>
+${files.map(f => `    <itemref idref="${f.id}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+
+  return createZip([
+    { name: 'mimetype', data: 'application/epub+zip', store: true },
+    { name: 'META-INF/container.xml', data: CONTAINER_XML },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    { name: 'OEBPS/style.css', data: STYLESHEET },
+    { name: 'OEBPS/title.xhtml', data: titlePage },
+    ...files.map(f => ({ name: `OEBPS/${f.href}`, data: f.content })),
+  ]);
+}
@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmProvider } from './llmProvider';
+
+/**
+ * A deterministic, offline stand-in for the Anthropic API. It never calls the
+ * network: every reply is replayed from a script, so the whole pipeline
+ * (season planning, bundle generation, conversation tools, extraction) can be
+ * exercised in the emulator without a key or real web search.
+ *
+ * Replies are chosen from the request shape alone:
+ * - a forced tool_choice, or any offered tool the script has canned input for
+ *   (e.g. `submit_bundle` next to `web_search`), gets a tool_use block whose
+ *   input is the next canned entry for that tool (entries cycle);
+ * - otherwise the latest user text is matched against `replies`. A matching
+ *   reply's tool calls are emitted first; once their tool_results come back,
+ *   the reply's text ends the turn.
+ */
+
+export interface FakeToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface FakeReply {
+  // Case-insensitive substring of the latest user message. Omit for the
+  // fallback reply.
+  match?: string;
+  toolCalls?: FakeToolCall[];
+  text: string;
+}
+
+export interface FakeLlmScript {
+  // Canned structured-output inputs keyed by tool name; cycled per call.
+  structured: Record<string, Array<Record<string, unknown>>>;
+  replies: FakeReply[];
+}
+
+// ---------------------------------------------------------------------------
+// Default script
+// ---------------------------------------------------------------------------
+
+const CANNED_ARCS: Array<[string, string]> = [
+  ['The Weight of Beautiful Things', 'What beauty asks of the people who make and keep it.'],
+  ['Night Shifts', 'Work done while everyone else sleeps, and what it reveals.'],
+  ['Borrowed Tongues', 'Translation, loss, and the words that refuse to travel.'],
+  ['The Ledger and the Gift', 'Exchange, debt, and the things we refuse to price.'],
+  ['Small Gods', 'Household rituals and the sacred at kitchen-table scale.'],
+  ['Maps That Lie', 'How every picture of the world decides what to leave out.'],
+  ['The Long Goodbye', 'Mortality seen from the middle of a life, not its end.'],
+  ['Playing for Keeps', 'Games, rules, and the seriousness of play.'],
+  ['Unfinished Cathedrals', 'Works begun by people who knew they would not see them done.'],
+  ['The Crowd and the One', 'Solitude, belonging, and the pull between them.'],
+  ['Weather Reports', 'Nature as mood, omen, and indifferent neighbour.'],
+  ['Second Looks', 'Returning to familiar things until they turn strange again.'],
+];
+
+export const DEFAULT_FAKE_SCRIPT: FakeLlmScript = {
+  structured: {
+    plan_season: [
+      {
+        arcs: CANNED_ARCS.map(([theme, shortDescription]) => ({
+          theme,
+          description: `${shortDescription} A week of music, images, and texts that circle the question from different eras and traditions.`,
+          shortDescription,
+        })),
+      },
+    ],
+    submit_bundle: [
+      {
+        music: {
+          title: 'Gymnopédie No. 1',
+          artist: 'Erik Satie',
+          youtubeUrl: 'https://www.youtube.com/watch?v=S-Xm7s9eGxU',
+        },
+        image: {
+          title: 'The Great Wave off Kanagawa',
+          artist: 'Katsushika Hokusai',
+          year: '1831',
+          searchQuery: 'Hokusai Great Wave off Kanagawa',
+        },
+        text: {
+          content: 'Nature does not hurry, yet everything is accomplished.',
+          source: 'Tao Te Ching (attributed)',
+          author: 'Lao Tzu',
+        },
+        framingText:
+          'A wave about to break, a piano that refuses to rush, and a line about patience. Today is about the tension between stillness and force.',
+      },
+      {
+        music: {
+          title: 'So What',
+          artist: 'Miles Davis',
+          youtubeUrl: 'https://www.youtube.com/watch?v=ylXk1LBvIqU',
+        },
+        image: {
+          title: 'Nighthawks',
+          artist: 'Edward Hopper',
+          year: '1942',
+          searchQuery: 'Edward Hopper Nighthawks 1942',
+        },
+        text: {
+          content: 'I celebrate myself, and sing myself.',
+          source: 'Song of Myself',
+          author: 'Walt Whitman',
+        },
+        framingText:
+          'A diner lit up against the dark, a trumpet that says more by playing less, and a poet who refused to be small. Who is awake with you tonight?',
+      },
+      {
+        music: {
+          title: 'Clair de lune',
+          artist: 'Claude Debussy',
+          youtubeUrl: 'https://www.youtube.com/watch?v=CvFH_6DNRCY',
+        },
+        image: {
+          title: 'The Starry Night',
+          artist: 'Vincent van Gogh',
+          year: '1889',
+          searchQuery: 'Van Gogh The Starry Night 1889',
+        },
+        text: {
+          content: 'We are all in the gutter, but some of us are looking at the stars.',
+          source: "Lady Windermere's Fan",
+          author: 'Oscar Wilde',
+        },
+        framingText:
+          'Three ways of looking up: a painter in an asylum window, a composer chasing moonlight, and a playwright with his feet in the gutter.',
+      },
+    ],
+    submit_extraction: [
+      {
+        personalContext: ['Enjoys connecting music to visual art'],
+        rawSummary:
+          "The user talked through how today's artifacts fit together and which one landed hardest.",
+        suggestedReading: {
+          title: 'Ways of Seeing',
+          url: 'https://en.wikipedia.org/wiki/Ways_of_Seeing',
+          rationale: 'You kept asking how context changes what you see — Berger built a whole book on that question.',
+        },
+      },
+    ],
+    submit_arc_summary: [
+      {
+        summary:
+          'This arc kept circling one idea from new angles, and the best moments came when the artifacts argued with each other. On to the next one.',
+      },
+    ],
+    submit_profile: [
+      {
+        intellectualLeanings: ['cross-domain connections', 'visual art'],
+        notes: 'Engages most when artifacts are placed in tension with each other.',
+      },
+    ],
+  },
+  replies: [
+    {
+      match: 'goodbye',
+      toolCalls: [{ name: 'conclude_session', input: {} }],
+      text: 'Good talking with you. Until tomorrow.',
+    },
+    {
+      match: 'move on',
+      toolCalls: [{ name: 'conclude_arc', input: {} }],
+      text: 'Fair enough — on to new territory tomorrow.',
+    },
+    {
+      match: 'be more direct',
+      toolCalls: [{ name: 'update_voice_preference', input: { description: 'Direct and concise' } }],
+      text: 'Noted. Shorter and straighter from here.',
+    },
+    {
+      text: "That's a sharp observation. What caught your attention first?",
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+function loadScript(scriptPath?: string): FakeLlmScript {
+  if (!scriptPath) {
+    return DEFAULT_FAKE_SCRIPT;
+  }
+  const loaded = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as Partial<FakeLlmScript>;
+  return {
+    structured: { ...DEFAULT_FAKE_SCRIPT.structured, ...(loaded.structured || {}) },
+    replies: loaded.replies || DEFAULT_FAKE_SCRIPT.replies,
+  };
+}
+
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value ?? '').length / 4);
+}
+
+function latestUserText(messages: Anthropic.MessageParam[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role !== 'user') continue;
+    if (typeof m.content === 'string') return m.content;
+    const text = m.content
+      .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+      .map(b => b.text)
+      .join('\n');
+    if (text) return text;
+  }
+  return '';
+}
+
+function isToolResultTurn(message: Anthropic.MessageParam | undefined): boolean {
+  return (
+    !!message &&
+    message.role === 'user' &&
+    Array.isArray(message.content) &&
+    message.content.some(b => b.type === 'tool_result')
+  );
+}
+
+export function createFakeLlmProvider(scriptPath?: string): LlmProvider {
+  const script = loadScript(scriptPath);
+  const cursors = new Map<string, number>();
+  let sequence = 0;
+
+  function nextStructured(name: string): Record<string, unknown> {
+    const entries = script.structured[name];
+    if (!entries || entries.length === 0) {
+      throw new Error(`Fake LLM script has no canned input for the ${name} tool`);
+    }
+    const cursor = cursors.get(name) ?? 0;
+    cursors.set(name, cursor + 1);
+    return entries[cursor % entries.length];
+  }
+
+  function buildMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    content: Anthropic.ContentBlock[],
+    stopReason: Anthropic.StopReason
+  ): Anthropic.Message {
+    sequence++;
+    return {
+      id: `msg_fake_${sequence}`,
+      type: 'message',
+      role: 'assistant',
+      model: params.model,
+      content,
+      stop_reason: stopReason,
+      stop_sequence: null,
+      usage: {
+        input_tokens: estimateTokens([params.system, params.messages]),
+        output_tokens: estimateTokens(content),
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+        cache_creation: null,
+        server_tool_use: null,
+        service_tier: 'standard',
+      },
+    };
+  }
+
+  function toolUse(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    calls: FakeToolCall[]
+  ): Anthropic.Message {
+    const blocks: Anthropic.ContentBlock[] = calls.map((call, i) => ({
+      type: 'tool_use',
+      id: `toolu_fake_${sequence + 1}_${i}`,
+      name: call.name,
+      input: call.input,
+    }));
+    return buildMessage(params, blocks, 'tool_use');
+  }
+
+  function text(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    value: string
+  ): Anthropic.Message {
+    return buildMessage(params, [{ type: 'text', text: value, citations: null }], 'end_turn');
+  }
+
+  async function createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming
+  ): Promise<Anthropic.Message> {
+    const offered = (params.tools || [])
+      .map(t => ('name' in t ? t.name : ''))
+      .filter(Boolean);
+
+    // Structured output: forced tool, or a submit tool offered alongside
+    // server tools (tool_choice stays auto there).
+    const forced =
+      params.tool_choice?.type === 'tool' ? params.tool_choice.name : undefined;
+    const submit = forced || offered.find(name => name in script.structured);
+    if (submit) {
+      return toolUse(params, [{ name: submit, input: nextStructured(submit) }]);
+    }
+
+    // Conversation: pick the reply for the latest user text.
+    const userText = latestUserText(params.messages).toLowerCase();
+    const reply =
+      script.replies.find(r => r.match && userText.includes(r.match.toLowerCase())) ||
+      script.replies.find(r => !r.match) || { text: '...' };
+
+    const calls = (reply.toolCalls || []).filter(c => offered.includes(c.name));
+    const last = params.messages[params.messages.length - 1];
+    if (calls.length === 0 || isToolResultTurn(last)) {
+      return text(params, reply.text);
+    }
+    return toolUse(params, calls);
+  }
+
+  return {
+    name: 'fake',
+    offline: true,
+    createMessage,
+    // Replays the scripted reply word by word, so streaming clients see
+    // incremental deltas just as they would from the real API.
+    streamMessage: async (params, onText) => {
+      const message = await createMessage(params);
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          for (const chunk of block.text.match(/\S+\s*/g) || []) {
+            onText(chunk);
+          }
+        }
+      }
+      return message;
+    },
+  };
+}
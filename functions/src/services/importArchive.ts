@@ -0,0 +1,407 @@
+import { randomUUID } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  Arc,
+  CadenceSettings,
+  Conversation,
+  ConversationMessage,
+  DailyBundle,
+  DigestSettings,
+  EXPORT_VERSION,
+  ExportedProfile,
+  Exposure,
+  IMAGE_MEDIA_TYPES,
+  ImageAttachment,
+  ImportResponse,
+  SEASON_SHAPE_LIMITS,
+  Season,
+  SeasonShape,
+  SessionInsights,
+  SuggestedReading,
+  UserHistory,
+  UserMemoryProfile,
+} from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+import { bundleId, isValidTimeZone, resolveSeasonShape } from '../utils/firestore';
+import { indexBundle, indexSession } from './searchIndex';
+
+/**
+ * Restoring a JSON export (see exportArchive.ts) into an account. Every
+ * document is checked field by field against its type before anything is
+ * written; timestamps come back from ISO 8601 strings.
+ */
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+// Reads `value` as a T, or records why it can't at `path`. What it returns
+// after recording an error is never used.
+type Check<T> = (value: unknown, path: string, errors: string[]) => T;
+
+function invalid<T>(errors: string[], path: string, expected: string): T {
+  errors.push(`${path}: expected ${expected}`);
+  return undefined as T;
+}
+
+const string: Check<string> = (value, path, errors) =>
+  typeof value === 'string' ? value : invalid(errors, path, 'a string');
+
+const boolean: Check<boolean> = (value, path, errors) =>
+  typeof value === 'boolean' ? value : invalid(errors, path, 'true or false');
+
+function integer(min = -Infinity, max = Infinity): Check<number> {
+  const range =
+    max < Infinity ? ` from ${min} to ${max}` : min > -Infinity ? ` of at least ${min}` : '';
+  return (value, path, errors) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+      ? (value as number)
+      : invalid(errors, path, `a whole number${range}`);
+}
+
+const timestamp: Check<Timestamp> = (value, path, errors) => {
+  const millis = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(millis)
+    ? invalid(errors, path, 'an ISO 8601 date')
+    : Timestamp.fromMillis(millis);
+};
+
+function oneOf<T extends string>(...values: T[]): Check<T> {
+  return (value, path, errors) =>
+    values.includes(value as T) ? (value as T) : invalid(errors, path, `one of ${values.join(', ')}`);
+}
+
+// Absent and null both read as absent.
+function optional<T>(check: Check<T>): Check<T | undefined> {
+  return (value, path, errors) => (value == null ? undefined : check(value, path, errors));
+}
+
+function nullable<T>(check: Check<T>): Check<T | null> {
+  return (value, path, errors) => (value == null ? null : check(value, path, errors));
+}
+
+function arrayOf<T>(check: Check<T>): Check<T[]> {
+  return (value, path, errors) =>
+    Array.isArray(value)
+      ? value.map((item, i) => check(item, `${path}[${i}]`, errors))
+      : invalid(errors, path, 'an array');
+}
+
+// A check for every field of T, so the validators can't drift from the
+// types. Unknown fields are dropped; absent optional ones stay absent.
+function shape<T>(fields: { [K in keyof T]-?: Check<T[K]> }): Check<T> {
+  return (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return invalid(errors, path, 'an object');
+    }
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(fields) as Array<keyof T & string>) {
+      const field = fields[key]((value as Record<string, unknown>)[key], `${path}.${key}`, errors);
+      if (field !== undefined) out[key] = field;
+    }
+    return out as T;
+  };
+}
+
+const seasonShapeField = (field: keyof SeasonShape) =>
+  optional(integer(SEASON_SHAPE_LIMITS[field].min, SEASON_SHAPE_LIMITS[field].max));
+
+const MEMORY_PROFILE = shape<UserMemoryProfile>({
+  intellectualLeanings: arrayOf(string),
+  notes: string,
+  derivedAt: timestamp,
+  fromSeasonNumber: integer(0),
+});
+
+const SEASON = shape<Season>({
+  id: string,
+  seasonNumber: integer(1),
+  createdAt: timestamp,
+  status: oneOf('active', 'completed'),
+  arcsPerSeason: seasonShapeField('arcsPerSeason'),
+  arcDurationDays: seasonShapeField('arcDurationDays'),
+  memoryProfile: optional(MEMORY_PROFILE),
+});
+
+const ARC = shape<Arc>({
+  id: string,
+  seasonId: string,
+  orderInSeason: integer(1),
+  status: oneOf('planned', 'active', 'completed'),
+  theme: string,
+  description: string,
+  shortDescription: string,
+  targetDurationDays: integer(1),
+  startDate: optional(timestamp),
+  completedDate: optional(timestamp),
+  cycle: optional(integer(0)),
+  retrospective: optional(string),
+});
+
+const SUGGESTED_READING = shape<SuggestedReading>({
+  title: string,
+  url: string,
+  rationale: string,
+});
+
+const BUNDLE = shape<DailyBundle>({
+  id: string,
+  arcId: string,
+  dayInArc: integer(1),
+  cycle: optional(integer(0)),
+  engaged: boolean,
+  createdAt: timestamp,
+  generationStatus: oneOf('pending', 'generating', 'ready', 'failed'),
+  generationAttempts: integer(0),
+  music: shape<DailyBundle['music']>({ title: string, artist: string, youtubeUrl: string }),
+  image: shape<DailyBundle['image']>({
+    title: string,
+    artist: optional(string),
+    year: optional(string),
+    sourceUrl: string,
+    imageUrl: string,
+  }),
+  text: shape<DailyBundle['text']>({ content: string, source: string, author: string }),
+  framingText: string,
+  suggestedReading: optional(SUGGESTED_READING),
+  availableOn: optional(string),
+  returningAfterDays: optional(integer(1)),
+});
+
+const EXPOSURE = shape<Exposure>({
+  id: string,
+  artifactType: oneOf('music', 'image', 'text'),
+  artifactIdentifier: string,
+  creator: string,
+  dateShown: timestamp,
+  arcId: string,
+});
+
+// Kept on the message as exported; the image itself is not in the archive.
+const IMAGE_ATTACHMENT = shape<ImageAttachment>({
+  id: string,
+  mediaType: oneOf(...IMAGE_MEDIA_TYPES),
+  size: integer(0),
+  createdAt: timestamp,
+});
+
+const CONVERSATION = shape<Conversation>({
+  id: string,
+  bundleId: string,
+  messages: arrayOf(
+    shape<ConversationMessage>({
+      role: oneOf('user', 'assistant'),
+      content: string,
+      timestamp: timestamp,
+      clientMessageId: optional(string),
+      images: optional(arrayOf(IMAGE_ATTACHMENT)),
+    })
+  ),
+  lastActivity: timestamp,
+  sessionEnded: boolean,
+});
+
+const SESSION_INSIGHTS = shape<SessionInsights>({
+  id: string,
+  date: timestamp,
+  arcId: string,
+  personalContext: arrayOf(string),
+  rawSummary: string,
+});
+
+const PROFILE = shape<ExportedProfile>({
+  email: string,
+  createdAt: timestamp,
+  voicePreference: nullable(string),
+  memoryProfile: nullable(MEMORY_PROFILE),
+  timezone: nullable(string),
+  digest: nullable(shape<DigestSettings>({ enabled: boolean, sendHour: integer(0, 23) })),
+  nextSeason: nullable(
+    shape<Partial<SeasonShape>>({
+      arcsPerSeason: seasonShapeField('arcsPerSeason'),
+      arcDurationDays: seasonShapeField('arcDurationDays'),
+    })
+  ),
+  cadence: nullable(shape<CadenceSettings>({ days: arrayOf(integer(0, 6)) })),
+});
+
+export interface ParsedArchive {
+  profile: ExportedProfile | null;
+  history: UserHistory;
+}
+
+// The JSON export, less `exportedAt`.
+type ArchiveInput = UserHistory & { version: number; profile: ExportedProfile | null };
+
+const ARCHIVE = shape<ArchiveInput>({
+  version: integer(1, EXPORT_VERSION),
+  profile: nullable(PROFILE),
+  seasons: arrayOf(SEASON),
+  arcs: arrayOf(ARC),
+  bundles: arrayOf(BUNDLE),
+  exposures: arrayOf(EXPOSURE),
+  conversations: arrayOf(CONVERSATION),
+  sessionInsights: arrayOf(SESSION_INSIGHTS),
+});
+
+// ---------------------------------------------------------------------------
+// Ids
+// ---------------------------------------------------------------------------
+
+// Firestore's rules for document ids.
+function isValidDocId(id: string): boolean {
+  return (
+    id.length > 0 &&
+    Buffer.byteLength(id, 'utf8') <= 1500 &&
+    !id.includes('/') &&
+    id !== '.' &&
+    id !== '..' &&
+    !/^__.*__$/.test(id)
+  );
+}
+
+// Gives each doc an id that Firestore accepts, keeping the archive's where it
+// can; returns old id -> new. Two docs sharing an id is an error, since
+// references to it would be ambiguous.
+function assignIds<T extends { id: string }>(
+  docs: T[],
+  path: string,
+  freshId: (doc: T) => string,
+  errors: string[]
+): Map<string, string> {
+  const ids = new Map<string, string>();
+  docs.forEach((doc, i) => {
+    if (ids.has(doc.id)) {
+      errors.push(`${path}[${i}].id: "${doc.id}" appears more than once`);
+      return;
+    }
+    ids.set(doc.id, isValidDocId(doc.id) ? doc.id : freshId(doc));
+  });
+  return ids;
+}
+
+// Seasons, arcs and exposures keep their ids unless Firestore would reject
+// them. Bundle ids are always derived again from arc, day and cycle, since
+// bundle creation relies on them (`createPendingBundle`); conversations and
+// insights, keyed by bundle, follow.
+function remapIds(history: UserHistory, errors: string[]): UserHistory {
+  const seasonIds = assignIds(
+    history.seasons,
+    'seasons',
+    s => `season-${s.seasonNumber}-${randomUUID()}`,
+    errors
+  );
+  const arcIds = assignIds(
+    history.arcs,
+    'arcs',
+    a => `arc-${a.orderInSeason}-${randomUUID()}`,
+    errors
+  );
+  const exposureIds = assignIds(history.exposures, 'exposures', () => randomUUID(), errors);
+  const season = (id: string) => seasonIds.get(id) ?? id;
+  const arc = (id: string) => arcIds.get(id) ?? id;
+
+  const bundleIds = new Map<string, string>();
+  const taken = new Set<string>();
+  history.bundles.forEach((b, i) => {
+    const id = bundleId(arc(b.arcId), b.dayInArc, b.cycle);
+    if (taken.has(id) || bundleIds.has(b.id)) {
+      errors.push(`bundles[${i}]: a second bundle for day ${b.dayInArc} of arc "${b.arcId}"`);
+    }
+    taken.add(id);
+    bundleIds.set(b.id, id);
+  });
+  const bundle = (id: string) => bundleIds.get(id) ?? (isValidDocId(id) ? id : randomUUID());
+
+  return {
+    seasons: history.seasons.map(s => ({ ...s, id: season(s.id) })),
+    arcs: history.arcs.map(a => ({ ...a, id: arc(a.id), seasonId: season(a.seasonId) })),
+    bundles: history.bundles.map(b => ({ ...b, id: bundle(b.id), arcId: arc(b.arcId) })),
+    exposures: history.exposures.map(e => ({
+      ...e,
+      id: exposureIds.get(e.id) ?? e.id,
+      arcId: arc(e.arcId),
+    })),
+    conversations: history.conversations.map(c => {
+      const id = bundle(c.bundleId);
+      return { ...c, id, bundleId: id };
+    }),
+    sessionInsights: history.sessionInsights.map(s => ({
+      ...s,
+      id: bundle(s.id),
+      arcId: arc(s.arcId),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Restoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Check an uploaded export. Returns the archive ready to restore, or every
+ * problem found, each prefixed with the path of the offending field.
+ */
+export function parseArchive(
+  input: unknown
+): { archive: ParsedArchive; errors: [] } | { archive: null; errors: string[] } {
+  const errors: string[] = [];
+  const parsed = ARCHIVE(input, 'archive', errors);
+  if (errors.length > 0) return { archive: null, errors };
+
+  const { profile, seasons, arcs, bundles, exposures, conversations, sessionInsights } = parsed;
+  if (profile?.timezone && !isValidTimeZone(profile.timezone)) {
+    errors.push('archive.profile.timezone: expected an IANA time zone');
+  }
+  if (profile?.cadence && profile.cadence.days.length === 0) {
+    errors.push('archive.profile.cadence.days: expected at least one day');
+  }
+  const history = remapIds(
+    { seasons, arcs, bundles, exposures, conversations, sessionInsights },
+    errors
+  );
+  if (errors.length > 0) return { archive: null, errors };
+  return { archive: { profile, history }, errors: [] };
+}
+
+/**
+ * Replace the user's history with the archive's, restore the profile
+ * settings it carries, and rebuild the search index. Returns how many docs
+ * of each kind were written.
+ */
+export async function restoreArchive(
+  userId: string,
+  archive: ParsedArchive,
+  repo: PrimerRepository = firestoreRepository
+): Promise<ImportResponse['imported']> {
+  const { profile, history } = archive;
+  await repo.replaceHistory(userId, history);
+
+  if (profile?.voicePreference) {
+    await repo.setVoicePreference(userId, profile.voicePreference);
+  }
+  if (profile?.memoryProfile) {
+    await repo.setMemoryProfile(userId, profile.memoryProfile);
+  }
+  await repo.updateUserSettings(userId, {
+    ...(profile?.timezone ? { timezone: profile.timezone } : {}),
+    ...(profile?.digest ? { digest: profile.digest } : {}),
+    ...(profile?.nextSeason ? { nextSeason: resolveSeasonShape(profile.nextSeason) } : {}),
+    ...(profile?.cadence ? { cadence: profile.cadence } : {}),
+  });
+
+  // Best-effort, like all indexing.
+  for (const bundle of history.bundles) {
+    await indexBundle(userId, bundle, repo);
+    await indexSession(userId, bundle, repo);
+  }
+
+  return {
+    seasons: history.seasons.length,
+    arcs: history.arcs.length,
+    bundles: history.bundles.length,
+    exposures: history.exposures.length,
+    conversations: history.conversations.length,
+    sessionInsights: history.sessionInsights.length,
+  };
+}
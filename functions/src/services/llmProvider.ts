@@ -0,0 +1,87 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { defineSecret } from 'firebase-functions/params';
+import { createFakeLlmProvider } from './fakeLlmProvider';
+
+const anthropicApiKey = defineSecret('ANTHROPIC_API_KEY');
+
+/**
+ * The single seam between the generation helpers in `anthropic.ts` and the
+ * model backend. A provider takes a fully-built Messages API request and
+ * returns the model's reply, whole or as streamed text deltas; the helpers own
+ * everything else (tool loops, pause_turn handling, structured-output
+ * extraction).
+ */
+export interface LlmProvider {
+  readonly name: string;
+  // True when the provider never touches the network. Callers use it to skip
+  // other network lookups (e.g. Wikimedia) so offline runs stay hermetic.
+  readonly offline: boolean;
+  createMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming
+  ): Promise<Anthropic.Message>;
+  // The same request, streamed: `onText` receives each text delta as it
+  // arrives, and the promise resolves with the complete message.
+  streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    onText: (delta: string) => void
+  ): Promise<Anthropic.Message>;
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+// ---------------------------------------------------------------------------
+
+let client: Anthropic | null = null;
+
+function getClient(): Anthropic {
+  if (!client) {
+    client = new Anthropic({
+      apiKey: anthropicApiKey.value(),
+    });
+  }
+  return client;
+}
+
+export const anthropicProvider: LlmProvider = {
+  name: 'anthropic',
+  offline: false,
+  createMessage: params => getClient().messages.create(params),
+  streamMessage: (params, onText) =>
+    getClient().messages.stream(params).on('text', onText).finalMessage(),
+};
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+let provider: LlmProvider | null = null;
+
+/**
+ * The active provider. Chosen once from the LLM_PROVIDER environment variable:
+ * `anthropic` (default) or `fake` — the scripted offline provider, which can
+ * load its script from the JSON file named by LLM_FAKE_SCRIPT.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    const selected = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase();
+    if (selected === 'fake') {
+      provider = createFakeLlmProvider(process.env.LLM_FAKE_SCRIPT);
+    } else if (selected === 'anthropic') {
+      provider = anthropicProvider;
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${selected}"`);
+    }
+    console.log(`[LlmProvider] Using the ${provider.name} provider`);
+  }
+  return provider;
+}
+
+/**
+ * Override the active provider (tests and local tooling). Pass null to fall
+ * back to environment-based selection on the next call.
+ */
+export function setLlmProvider(next: LlmProvider | null): void {
+  provider = next;
+}
+
+export { anthropicApiKey };
@@ -0,0 +1,228 @@
+import { DailyBundle, SearchField, SearchResult, SearchSnippet } from '../types';
+import { PrimerRepository, firestoreRepository } from '../repository';
+
+/**
+ * Full-text search over a user's past encounters. Each engaged bundle is a
+ * search document: its artifacts and framing are indexed when it is engaged,
+ * and its conversation and session summary when the session ends. The index
+ * maps each term to the bundles containing it and when each was created
+ * (`/users/{userId}/searchIndex`), so results are ordered before any is read;
+ * snippets are cut from the source documents at query time.
+ */
+
+// ---------------------------------------------------------------------------
+// Terms
+// ---------------------------------------------------------------------------
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had',
+  'has', 'have', 'he', 'her', 'his', 'in', 'is', 'it', 'its', 'me', 'my', 'not',
+  'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with', 'you', 'your',
+]);
+
+// Longer "words" are URLs and the like; not worth an index doc each.
+const MAX_TERM_LENGTH = 40;
+
+// Lowercase with accents stripped, so "Bjork" finds "Björk".
+function normalize(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/** The distinct index terms in `text`, in order of first appearance. */
+export function tokenize(text: string): string[] {
+  const terms = new Set<string>();
+  for (const [word] of text.matchAll(WORD)) {
+    const term = normalize(word);
+    if (term.length >= 2 && term.length <= MAX_TERM_LENGTH && !STOP_WORDS.has(term)) {
+      terms.add(term);
+    }
+  }
+  return [...terms];
+}
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+type Field = [SearchField, string];
+
+function bundleFields(bundle: DailyBundle): Field[] {
+  const image = [bundle.image.title, bundle.image.artist].filter(Boolean).join(' — ');
+  return [
+    ['music', `${bundle.music.title} — ${bundle.music.artist}`],
+    ['image', image],
+    ['text', `"${bundle.text.content}" — ${bundle.text.author}, ${bundle.text.source}`],
+    ['framing', bundle.framingText],
+  ];
+}
+
+async function sessionFields(
+  userId: string,
+  bundleId: string,
+  repo: PrimerRepository
+): Promise<Field[]> {
+  const [conversation, insights] = await Promise.all([
+    repo.getConversation(userId, bundleId),
+    repo.getSessionInsights(userId, bundleId),
+  ]);
+  const fields: Field[] = (conversation?.messages || []).map(m => ['conversation', m.content]);
+  if (insights?.rawSummary) {
+    fields.push(['summary', insights.rawSummary]);
+  }
+  return fields;
+}
+
+async function addFields(
+  userId: string,
+  bundle: DailyBundle,
+  fields: Field[],
+  repo: PrimerRepository
+): Promise<void> {
+  const terms = tokenize(fields.map(([, text]) => text).join('\n'));
+  try {
+    await repo.addSearchTerms(userId, { bundleId: bundle.id, createdAt: bundle.createdAt }, terms);
+  } catch (err) {
+    console.warn(`[Search] Failed to index bundle ${bundle.id} for ${userId}:`, err);
+  }
+}
+
+/**
+ * Index a bundle's artifacts and framing; called when it is engaged.
+ * Best-effort, like all indexing: a failed write is logged and swallowed so
+ * it never fails the user's request.
+ */
+export async function indexBundle(
+  userId: string,
+  bundle: DailyBundle,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  await addFields(userId, bundle, bundleFields(bundle), repo);
+}
+
+/** Index a bundle's conversation and session summary; called at session end. */
+export async function indexSession(
+  userId: string,
+  bundle: DailyBundle,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  await addFields(userId, bundle, await sessionFields(userId, bundle.id, repo), repo);
+}
+
+/**
+ * Index every engaged bundle and its session; used to backfill history from
+ * before search existed. Re-indexing adds nothing new, so it's safe to re-run.
+ * Returns the number of bundles indexed.
+ */
+export async function indexHistory(
+  userId: string,
+  repo: PrimerRepository = firestoreRepository
+): Promise<number> {
+  const bundles = (await repo.getAllBundles(userId)).filter(b => b.engaged);
+  for (const bundle of bundles) {
+    await indexBundle(userId, bundle, repo);
+    await indexSession(userId, bundle, repo);
+  }
+  return bundles.length;
+}
+
+// ---------------------------------------------------------------------------
+// Querying
+// ---------------------------------------------------------------------------
+
+const SNIPPET_LENGTH = 200;
+// Context kept before the first match.
+const SNIPPET_LEAD = 60;
+const MAX_SNIPPETS = 4;
+
+/** The stretch of `text` around its first match, or null if nothing matches. */
+export function buildSnippet(
+  field: SearchField,
+  text: string,
+  terms: Set<string>
+): SearchSnippet | null {
+  const matches: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD)) {
+    if (terms.has(normalize(match[0]))) {
+      matches.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  if (matches.length === 0) return null;
+
+  const [first] = matches;
+  let start = Math.max(0, first[0] - SNIPPET_LEAD);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  // Don't cut words in half.
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first[0]) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first[1]) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: matches
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift]),
+  };
+}
+
+/**
+ * Engaged bundles containing every term of `query`, newest first, each with
+ * up to MAX_SNIPPETS snippets (artifacts first, then conversation, then the
+ * summary).
+ */
+export async function searchBundles(
+  userId: string,
+  query: string,
+  limit: number,
+  repo: PrimerRepository = firestoreRepository
+): Promise<SearchResult[]> {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  // Postings carry each bundle's creation time, so only the page of results
+  // is ever read.
+  const postings = await repo.getSearchPostings(userId, terms);
+  const [first, ...rest] = terms.map(term => postings[term] || []);
+  const others = rest.map(list => new Set(list.map(p => p.bundleId)));
+  const page = first
+    .filter(posting => others.every(ids => ids.has(posting.bundleId)))
+    .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+    .slice(0, limit);
+
+  const bundles = (await Promise.all(page.map(p => repo.getBundle(userId, p.bundleId)))).filter(
+    (b): b is DailyBundle => b !== null
+  );
+  const [arcs, sessions] = await Promise.all([
+    repo.getArcs(userId, [...new Set(bundles.map(b => b.arcId))]),
+    Promise.all(bundles.map(b => sessionFields(userId, b.id, repo))),
+  ]);
+  const themes = new Map(arcs.map(arc => [arc.id, arc.theme]));
+
+  const termSet = new Set(terms);
+  return bundles.map((bundle, i) => {
+    const snippets = [...bundleFields(bundle), ...sessions[i]]
+      .map(([field, text]) => buildSnippet(field, text, termSet))
+      .filter((s): s is SearchSnippet => s !== null)
+      .slice(0, MAX_SNIPPETS);
+
+    return {
+      bundleId: bundle.id,
+      arcId: bundle.arcId,
+      arcTheme: themes.get(bundle.arcId) ?? null,
+      dayInArc: bundle.dayInArc,
+      createdAt: bundle.createdAt,
+      snippets,
+    };
+  });
+}
@@ -0,0 +1,168 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LlmUsagePurpose,
+  LlmUsageRecord,
+  LlmUsageTotals,
+  UsageDay,
+  UsageSummaryResponse,
+} from '../types';
+import { DEFAULT_TIMEZONE, dayKey, toTimestamp } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
+
+/**
+ * Who a model call is for and why. Passed to the `anthropic.ts` helpers, which
+ * write one ledger record per API call to `/users/{userId}/llmUsage`.
+ */
+export interface LlmCallContext {
+  userId: string;
+  purpose: LlmUsagePurpose;
+  repo?: PrimerRepository;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing (USD list prices; tokens per million)
+// ---------------------------------------------------------------------------
+
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-7': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+};
+
+// Unknown models (e.g. the fake provider echoing a request) price as Opus.
+const DEFAULT_PRICE = MODEL_PRICES['claude-opus-4-7'];
+
+const WEB_SEARCH_PRICE = 10 / 1000;
+
+export function estimateCostUsd(
+  record: Pick<
+    LlmUsageRecord,
+    'model' | 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens' | 'webSearches'
+  >
+): number {
+  const price = MODEL_PRICES[record.model] || DEFAULT_PRICE;
+  return (
+    (record.inputTokens * price.input +
+      record.outputTokens * price.output +
+      record.cacheWriteTokens * price.cacheWrite +
+      record.cacheReadTokens * price.cacheRead) /
+      1_000_000 +
+    record.webSearches * WEB_SEARCH_PRICE
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Write the ledger record for one API call. Best-effort: a failed write is
+ * logged and swallowed so bookkeeping never fails the user's request.
+ */
+export async function recordUsage(
+  context: LlmCallContext,
+  response: Anthropic.Message,
+  latencyMs: number
+): Promise<void> {
+  const repo = context.repo || firestoreRepository;
+  const usage = response.usage;
+  try {
+    await repo.recordLlmUsage(context.userId, {
+      purpose: context.purpose,
+      model: response.model,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+      webSearches: usage.server_tool_use?.web_search_requests ?? 0,
+      latencyMs,
+      createdAt: toTimestamp(new Date()),
+    });
+  } catch (err) {
+    console.warn(`[Usage] Failed to record ${context.purpose} usage for ${context.userId}:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+function emptyTotals(): LlmUsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    webSearches: 0,
+    latencyMs: 0,
+    estimatedCostUsd: 0,
+  };
+}
+
+function add(totals: LlmUsageTotals, record: LlmUsageRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheWriteTokens += record.cacheWriteTokens;
+  totals.webSearches += record.webSearches;
+  totals.latencyMs += record.latencyMs;
+  totals.estimatedCostUsd += estimateCostUsd(record);
+}
+
+function roundCost(totals: LlmUsageTotals): LlmUsageTotals {
+  return { ...totals, estimatedCostUsd: Math.round(totals.estimatedCostUsd * 10000) / 10000 };
+}
+
+function roundAll(
+  byPurpose: Partial<Record<LlmUsagePurpose, LlmUsageTotals>>
+): Partial<Record<LlmUsagePurpose, LlmUsageTotals>> {
+  const rounded: Partial<Record<LlmUsagePurpose, LlmUsageTotals>> = {};
+  for (const [purpose, totals] of Object.entries(byPurpose)) {
+    rounded[purpose as LlmUsagePurpose] = roundCost(totals);
+  }
+  return rounded;
+}
+
+/**
+ * Roll ledger records up into totals overall, per purpose, and per day per
+ * purpose. Days are the user's calendar days, as budgets count them.
+ */
+export function summarizeUsage(
+  records: LlmUsageRecord[],
+  days: number,
+  timeZone: string = DEFAULT_TIMEZONE
+): UsageSummaryResponse {
+  const totals = emptyTotals();
+  const byPurpose: Partial<Record<LlmUsagePurpose, LlmUsageTotals>> = {};
+  const byDay = new Map<string, UsageDay>();
+
+  for (const record of records) {
+    const date = dayKey(record.createdAt.toDate(), timeZone);
+    let day = byDay.get(date);
+    if (!day) {
+      day = { date, totals: emptyTotals(), byPurpose: {} };
+      byDay.set(date, day);
+    }
+
+    add(totals, record);
+    add((byPurpose[record.purpose] ??= emptyTotals()), record);
+    add(day.totals, record);
+    add((day.byPurpose[record.purpose] ??= emptyTotals()), record);
+  }
+
+  return {
+    days,
+    totals: roundCost(totals),
+    byPurpose: roundAll(byPurpose),
+    byDay: [...byDay.values()]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(day => ({ ...day, totals: roundCost(day.totals), byPurpose: roundAll(day.byPurpose) })),
+  };
+}
@@ -1,7 +1,12 @@
-import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import {
+  onDocumentWritten,
+  Change,
+  DocumentSnapshot,
+  FirestoreEvent,
+} from 'firebase-functions/v2/firestore';
 import { anthropicApiKey } from '../services/anthropic';
 import { generateDailyBundle } from '../services/bundleGenerator';
-import { getArc, getBundle, setBundleGenerationStatus } from '../utils/firestore';
+import { PrimerRepository, firestoreRepository } from '../repository';
 import { DailyBundle } from '../types';
 
 /**
@@ -18,64 +23,72 @@ import { DailyBundle } from '../types';
  * `pending`. This prevents the trigger from re-firing on its own writes
  * (status → generating → ready/failed).
  */
-export const bundleGenerator = onDocumentWritten(
-  {
-    document: 'users/{userId}/dailyBundles/{bundleId}',
-    secrets: [anthropicApiKey],
-    timeoutSeconds: 540,
-    region: 'us-west3',
-    memory: '256MiB',
-  },
-  async event => {
-    const after = event.data?.after;
-    if (!after?.exists) {
-      return;
-    }
+export async function handleBundleWrite(
+  event: FirestoreEvent<
+    Change<DocumentSnapshot> | undefined,
+    { userId: string; bundleId: string }
+  >,
+  repo: PrimerRepository = firestoreRepository
+): Promise<void> {
+  const after = event.data?.after;
+  if (!after?.exists) {
+    return;
+  }
 
-    const afterStatus = after.data()?.generationStatus;
-    const beforeStatus = event.data?.before?.exists
-      ? event.data.before.data()?.generationStatus
-      : undefined;
+  const afterStatus = after.data()?.generationStatus;
+  const beforeStatus = event.data?.before?.exists
+    ? event.data.before.data()?.generationStatus
+    : undefined;
 
-    // Only act on the transition into `pending`.
-    if (afterStatus !== 'pending' || beforeStatus === 'pending') {
-      return;
-    }
+  // Only act on the transition into `pending`.
+  if (afterStatus !== 'pending' || beforeStatus === 'pending') {
+    return;
+  }
 
-    const { userId, bundleId } = event.params;
-    console.log(
-      `[bundleGenerator] Triggered for user ${userId}, bundle ${bundleId}`
-    );
+  const { userId, bundleId } = event.params;
+  console.log(
+    `[bundleGenerator] Triggered for user ${userId}, bundle ${bundleId}`
+  );
 
-    // Claim the bundle: pending -> generating. This write does not re-fire the
-    // trigger into generation (guard requires after === 'pending').
-    await setBundleGenerationStatus(userId, bundleId, 'generating');
+  // Claim the bundle: pending -> generating. This write does not re-fire the
+  // trigger into generation (guard requires after === 'pending').
+  await repo.setBundleGenerationStatus(userId, bundleId, 'generating');
 
-    // Re-read for the freshest state (engaged flag, dayInArc, etc.).
-    const bundle = (await getBundle(userId, bundleId)) as DailyBundle | null;
-    if (!bundle) {
-      console.warn(`[bundleGenerator] Bundle ${bundleId} disappeared; aborting.`);
-      return;
-    }
+  // Re-read for the freshest state (engaged flag, dayInArc, etc.).
+  const bundle = (await repo.getBundle(userId, bundleId)) as DailyBundle | null;
+  if (!bundle) {
+    console.warn(`[bundleGenerator] Bundle ${bundleId} disappeared; aborting.`);
+    return;
+  }
 
-    const arc = await getArc(userId, bundle.arcId);
-    if (!arc) {
-      console.error(
-        `[bundleGenerator] Arc ${bundle.arcId} not found for bundle ${bundleId}; marking failed.`
-      );
-      await setBundleGenerationStatus(userId, bundleId, 'failed', {
-        incrementAttempts: true,
-      });
-      return;
-    }
+  const arc = await repo.getArc(userId, bundle.arcId);
+  if (!arc) {
+    console.error(
+      `[bundleGenerator] Arc ${bundle.arcId} not found for bundle ${bundleId}; marking failed.`
+    );
+    await repo.setBundleGenerationStatus(userId, bundleId, 'failed', {
+      incrementAttempts: true,
+    });
+    return;
+  }
 
-    // generateDailyBundle handles its own success/failure status writes.
-    try {
-      await generateDailyBundle(userId, bundle, arc);
-    } catch (err) {
-      // Already marked 'failed' inside generateDailyBundle; log and swallow so
-      // the trigger does not retry on its own.
-      console.error(`[bundleGenerator] Generation error for ${bundleId}:`, err);
-    }
+  // generateDailyBundle handles its own success/failure status writes.
+  try {
+    await generateDailyBundle(userId, bundle, arc, repo);
+  } catch (err) {
+    // Already marked 'failed' inside generateDailyBundle; log and swallow so
+    // the trigger does not retry on its own.
+    console.error(`[bundleGenerator] Generation error for ${bundleId}:`, err);
   }
+}
+
+export const bundleGenerator = onDocumentWritten(
+  {
+    document: 'users/{userId}/dailyBundles/{bundleId}',
+    secrets: [anthropicApiKey],
+    timeoutSeconds: 540,
+    region: 'us-west3',
+    memory: '256MiB',
+  },
+  event => handleBundleWrite(event)
 );
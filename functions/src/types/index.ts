@@ -4,14 +4,35 @@ import { Timestamp } from 'firebase-admin/firestore';
 // Seasons
 // ---------------------------------------------------------------------------
 
+// Defaults; a user can choose their own for their next season.
 export const ARCS_PER_SEASON = 12;
 export const ARC_DURATION_DAYS = 7;
 
+// How a season is laid out. Taken from the user's settings when the season is
+// planned and fixed for its lifetime.
+export interface SeasonShape {
+  arcsPerSeason: number;
+  arcDurationDays: number;
+}
+
+export const SEASON_SHAPE_LIMITS: Record<keyof SeasonShape, { min: number; max: number }> = {
+  arcsPerSeason: { min: 3, max: 24 },
+  arcDurationDays: { min: 3, max: 14 },
+};
+
 export interface Season {
   id: string;
   seasonNumber: number;
   createdAt: Timestamp;
   status: 'active' | 'completed';
+  // Absent on seasons planned before the shape was configurable; read them
+  // through `seasonShape()`.
+  arcsPerSeason?: number;
+  arcDurationDays?: number;
+  // The profile derived when the season ended, kept so the archive can show
+  // it after later seasons replace the user's. Absent on seasons completed
+  // before it was kept.
+  memoryProfile?: UserMemoryProfile;
 }
 
 // ---------------------------------------------------------------------------
@@ -21,14 +42,20 @@ export interface Season {
 export interface Arc {
   id: string;
   seasonId: string;
-  orderInSeason: number; // 1-12
+  orderInSeason: number; // 1-arcsPerSeason
   status: 'planned' | 'active' | 'completed';
   theme: string;
   description: string;
   shortDescription: string; // One-sentence summary for UI display
-  targetDurationDays: number; // Fixed at 7
+  targetDurationDays: number; // The season's arcDurationDays
   startDate?: Timestamp; // Display metadata only
   completedDate?: Timestamp;
+  // Times the arc has been restarted from day 1 (absent = 0). Each cycle has
+  // its own bundles; earlier cycles' stay in the history.
+  cycle?: number;
+  // Markdown, written when the arc completes. Absent on arcs completed before
+  // retrospectives were kept, and on skipped ones.
+  retrospective?: string;
 }
 
 // Phase is derived, not stored
@@ -51,9 +78,10 @@ export type BundleGenerationStatus =
   | 'failed';
 
 export interface DailyBundle {
-  id: string; // Deterministic id: `${arcId}-day${dayInArc}`
+  id: string; // Deterministic id: `${arcId}-day${dayInArc}`, or `${arcId}-c${cycle}-day${dayInArc}`
   arcId: string;
-  dayInArc: number; // 1-7
+  dayInArc: number; // 1-targetDurationDays
+  cycle?: number; // The arc's cycle when created; absent = 0
   engaged: boolean; // True once the user sends their first message
   createdAt: Timestamp;
   // Generation lifecycle. Artifact/framing fields may be empty/absent until
@@ -79,6 +107,12 @@ export interface DailyBundle {
   };
   framingText: string;
   suggestedReading?: SuggestedReading;
+  // Set on a bundle prefetched overnight: the day (YYYY-MM-DD, in the user's
+  // time zone) it becomes today's encounter. Absent on bundles created on demand.
+  availableOn?: string;
+  // Set when the user chose to resume the arc after a long absence; the
+  // framing welcomes them back.
+  returningAfterDays?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -102,8 +136,34 @@ export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Timestamp;
+  clientMessageId?: string; // On user turns sent with one (MessageRequest)
+  images?: ImageAttachment[]; // On user turns; content may then be empty
+}
+
+// Image formats the model accepts, and its size limit per image. A message
+// carries at most MAX_IMAGES_PER_MESSAGE of the user's images.
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+export const IMAGE_MEDIA_TYPES: ImageMediaType[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGES_PER_MESSAGE = 3;
+
+// users/{userId}/attachments/{id}: an image the user uploaded to send with a
+// message. The bytes are in Cloud Storage at the same path.
+export interface ImageAttachment {
+  id: string;
+  mediaType: ImageMediaType;
+  size: number; // Bytes
+  createdAt: Timestamp;
 }
 
+// Messages are stored one document each under the conversation
+// (`conversations/{bundleId}/messages`) and appended, never rewritten; reads
+// assemble them here in order.
 export interface Conversation {
   id: string; // Same as bundle id
   bundleId: string;
@@ -112,6 +172,13 @@ export interface Conversation {
   sessionEnded: boolean;
 }
 
+// A run of consecutive messages, e.g. the latest few of a long conversation.
+export interface ConversationMessagePage {
+  conversation: Omit<Conversation, 'messages'> | null; // null until the first message
+  messages: ConversationMessage[];
+  start: number; // Position of the first one in the conversation
+}
+
 // ---------------------------------------------------------------------------
 // Insights (conversational continuity only)
 // ---------------------------------------------------------------------------
@@ -132,11 +199,108 @@ export interface UserMemoryProfile {
   fromSeasonNumber: number;
 }
 
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+export interface UserProfile {
+  email: string;
+  createdAt: Timestamp;
+  hasSeenAbout: boolean;
+  voicePreference?: string | null;
+  memoryProfile?: UserMemoryProfile | null;
+  // Per-user overrides of the default daily budget (set via the admin SDK).
+  budget?: Partial<UserBudget> | null;
+  digest?: DigestSettings | null;
+  // dayKey of the last digest email sent, so each day's goes out once.
+  lastDigestOn?: string | null;
+  // IANA time zone (e.g. "Europe/Berlin") that day boundaries follow.
+  timezone?: string | null;
+  // Shape of the next season to be planned; the current one keeps its own.
+  nextSeason?: Partial<SeasonShape> | null;
+  cadence?: CadenceSettings | null;
+}
+
+// Opt-in daily email with the day's encounter. It goes out on the first
+// hourly run at or after `sendHour` (0-23, in the user's time zone) once the
+// bundle is ready.
+export interface DigestSettings {
+  enabled: boolean;
+  sendHour: number;
+}
+
+// Which days of the week (0 = Sunday … 6 = Saturday, in the user's time
+// zone) bring a new encounter. Every day, unless the user narrows it.
+export interface CadenceSettings {
+  days: number[];
+}
+
+// The part of the profile the user edits from /settings.
+export interface UserSettings {
+  digest: DigestSettings;
+  timezone: string;
+  nextSeason: SeasonShape;
+  cadence: CadenceSettings;
+}
+
+// Registration whitelist entry; doc id is the normalized email.
+export interface AllowedEmail {
+  email: string;
+  addedAt: Timestamp;
+  addedBy: string;
+}
+
+// ---------------------------------------------------------------------------
+// LLM usage ledger
+// ---------------------------------------------------------------------------
+
+export type LlmUsagePurpose =
+  | 'bundle_generation'
+  | 'season_planning'
+  | 'season_steering'
+  | 'conversation'
+  | 'extraction'
+  | 'arc_summary'
+  | 'profile_derivation';
+
+// One record per Messages API call (each tool-loop turn and pause_turn
+// continuation is its own call). Cost is derived at read time from the
+// price table, so the ledger stays valid when prices change.
+export interface LlmUsageRecord {
+  id: string;
+  purpose: LlmUsagePurpose;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  webSearches: number;
+  latencyMs: number;
+  createdAt: Timestamp;
+}
+
+// ---------------------------------------------------------------------------
+// Budgets
+// ---------------------------------------------------------------------------
+
+export interface UserBudget {
+  messagesPerDay: number;
+  // Input + output + cache-write tokens across all of the user's calls.
+  // Cache reads are excluded: they bill at a tenth of the input rate.
+  tokensPerDay: number;
+  steeringTurnsPerDay: number;
+}
+
+export type BudgetLimit = keyof UserBudget;
+
+// Admitted requests per UTC day, counted in /users/{userId}/dailyUsage/{YYYY-MM-DD}.
+export type DailyCounter = 'messages' | 'steeringTurns';
+
 // ---------------------------------------------------------------------------
 // LLM response types
 // ---------------------------------------------------------------------------
 
-// Season planning: the model returns 12 arcs.
+// Season planning: the model returns the season's arcsPerSeason arcs.
 export interface LLMSeasonPlan {
   arcs: Array<{
     theme: string;
@@ -187,19 +351,74 @@ export type TodayResponse =
       arc: Arc;
       dayInArc: number;
     }
-  | { status: 'failed' };
+  | { status: 'failed' }
+  // An off day in the user's cadence; `nextEncounter` is the dayKey of the
+  // next day that brings one.
+  | { status: 'rest'; nextEncounter: string }
+  // Back after CATCH_UP_AFTER_DAYS or more; answered via POST /api/arc/catch-up.
+  | {
+      status: 'catch_up';
+      arc: Arc;
+      dayInArc: number;
+      daysAway: number;
+      nextArc: { theme: string; shortDescription: string } | null;
+    };
+
+export type CatchUpChoice = 'resume' | 'restart' | 'skip';
+
+export interface CatchUpRequest {
+  choice: CatchUpChoice;
+}
+
+export interface CatchUpResponse {
+  arc: Arc;
+}
 
 export interface MessageRequest {
   message: string;
   date?: string; // Legacy / optional; bundle resolution is arc-based
   bundleId?: string;
+  // Generated by the client per message and resent on retry, so a retried
+  // turn returns the reply it already got instead of running again.
+  clientMessageId?: string;
+  // Uploaded first (POST /api/attachments); `message` may be empty with them.
+  imageIds?: string[];
 }
 
+// Client message ids become document ids.
+export const CLIENT_MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
 export interface MessageResponse {
   response: string;
   conversation: Conversation;
   sessionShouldEnd?: boolean;
   arcShouldEnd?: boolean;
+  replayed?: boolean; // A retry of a turn that had already been answered
+}
+
+// users/{userId}/messageClaims/{clientMessageId}: taken before a turn runs,
+// and marked done with its outcome in the same write as its messages.
+export interface MessageClaim {
+  id: string; // The client message id
+  bundleId: string;
+  status: 'pending' | 'done';
+  claimedAt: Timestamp;
+  response?: string;
+  sessionShouldEnd?: boolean;
+  arcShouldEnd?: boolean;
+}
+
+export type CompletedMessageClaim = Required<
+  Pick<MessageClaim, 'id' | 'response' | 'sessionShouldEnd' | 'arcShouldEnd'>
+>;
+
+export interface AttachmentUploadRequest {
+  mediaType: string;
+  data: string; // Base64
+}
+
+export interface AttachmentUploadResponse {
+  attachment: ImageAttachment;
 }
 
 export interface ArcCompletionData {
@@ -222,11 +441,141 @@ export interface HistoryQuery {
   before?: string;
 }
 
+export interface ConversationHistoryQuery {
+  limit?: number;
+  before?: number; // A previous page's nextCursor
+}
+
+// users/{userId}/searchIndex/{term} maps each bundle containing the term to
+// its creation time, so matches can be ordered and trimmed before any bundle
+// is read. Read back as a list of postings.
+export interface SearchPosting {
+  bundleId: string;
+  createdAt: Timestamp;
+}
+
+export interface SearchQuery {
+  q?: string;
+  limit?: number;
+}
+
+export type SearchField =
+  | 'music'
+  | 'image'
+  | 'text'
+  | 'framing'
+  | 'conversation'
+  | 'summary';
+
+// A stretch of one field around the matches; `highlights` are [start, end)
+// offsets of matched words within `text`.
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  bundleId: string;
+  arcId: string;
+  arcTheme: string | null;
+  dayInArc: number;
+  createdAt: Timestamp;
+  snippets: SearchSnippet[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+export type ExportFormat = 'json' | 'markdown' | 'epub';
+
+export interface ExportQuery {
+  format?: string;
+}
+
+// A stored document as it appears in a JSON export: Timestamps become ISO 8601
+// strings.
+export type Exported<T> = T extends Timestamp
+  ? string
+  : T extends Array<infer U>
+    ? Array<Exported<U>>
+    : T extends object
+      ? { [K in keyof T]: Exported<T[K]> }
+      : T;
+
+// The parts of the profile a user owns; budgets and bookkeeping stay behind.
+export type ExportedProfile = Pick<
+  UserProfile,
+  'email' | 'createdAt' | 'voicePreference' | 'memoryProfile' | 'timezone' | 'digest' | 'nextSeason' | 'cadence'
+>;
+
+export const EXPORT_VERSION = 1;
+
+// The complete JSON export. Bundles are the engaged ones, with content.
+export interface ExportArchive {
+  version: number;
+  exportedAt: string;
+  profile: Exported<ExportedProfile> | null;
+  seasons: Array<Exported<Season>>;
+  arcs: Array<Exported<Arc>>;
+  bundles: Array<Exported<DailyBundle>>;
+  exposures: Array<Exported<Exposure>>;
+  conversations: Array<Exported<Conversation>>;
+  sessionInsights: Array<Exported<SessionInsights>>;
+}
+
+// Everything a user has encountered, as stored; what an import restores.
+export interface UserHistory {
+  seasons: Season[];
+  arcs: Arc[];
+  bundles: DailyBundle[];
+  exposures: Exposure[];
+  conversations: Conversation[];
+  sessionInsights: SessionInsights[];
+}
+
+export interface ImportResponse {
+  imported: Record<keyof UserHistory, number>;
+}
+
+export interface UsageQuery {
+  days?: number;
+}
+
+export interface UpdateSettingsRequest {
+  digest?: Partial<DigestSettings>;
+  timezone?: string;
+  nextSeason?: Partial<SeasonShape>;
+  cadence?: CadenceSettings;
+}
+
 export interface SeasonResponse {
   season: Season;
   arcs: Arc[];
 }
 
+// One entry in the season archive (GET /api/seasons).
+export interface SeasonSummary {
+  season: Season;
+  arcCount: number;
+  completedArcCount: number;
+  startDate: Timestamp | null; // First arc's start; null before any began
+  endDate: Timestamp | null; // Last arc's completion; null until it ends
+}
+
+export interface SeasonsResponse {
+  seasons: SeasonSummary[];
+}
+
+// GET /api/seasons/:id
+export interface SeasonDetailResponse {
+  season: Season;
+  arcs: Arc[];
+  memoryProfile: UserMemoryProfile | null;
+}
+
 export interface SeasonSteerRequest {
   message: string;
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
@@ -237,3 +586,70 @@ export interface SeasonSteerResponse {
   season?: Season;
   arcs?: Arc[];
 }
+
+export interface LlmUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  webSearches: number;
+  latencyMs: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageDay {
+  date: string; // YYYY-MM-DD, in the user's time zone
+  totals: LlmUsageTotals;
+  byPurpose: Partial<Record<LlmUsagePurpose, LlmUsageTotals>>;
+}
+
+export interface UsageSummaryResponse {
+  days: number;
+  totals: LlmUsageTotals;
+  byPurpose: Partial<Record<LlmUsagePurpose, LlmUsageTotals>>;
+  byDay: UsageDay[]; // newest first; only days with usage
+}
+
+// 429 body for a spent daily budget. Shaped like an Anthropic API error so
+// the client's error parser handles both the same way.
+export interface BudgetExceededResponse {
+  type: 'error';
+  error: {
+    type: 'budget_exceeded';
+    message: string;
+    limit: BudgetLimit;
+    used: number;
+    max: number;
+    resetsAt: string; // ISO timestamp of the next UTC midnight
+  };
+}
+
+// GET /api/admin/users
+export interface AdminUserSummary {
+  userId: string;
+  email: string;
+  createdAt: Timestamp;
+  activeSeason: { id: string; seasonNumber: number } | null;
+  activeArc: { id: string; theme: string; orderInSeason: number; dayInArc: number } | null;
+}
+
+export interface AdminUsersResponse {
+  users: AdminUserSummary[];
+}
+
+// POST /api/admin/migrations/conversation-messages
+export interface ConversationMigrationResponse {
+  users: number;
+  conversations: number; // Moved to the messages subcollection this run
+}
+
+// POST /api/admin/migrations/search-index
+export interface SearchIndexBackfillResponse {
+  users: number;
+  bundles: number; // Engaged bundles indexed this run
+}
+
+export interface AllowedEmailsResponse {
+  allowedEmails: AllowedEmail[];
+}
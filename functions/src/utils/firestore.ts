@@ -1,5 +1,5 @@
 import * as admin from 'firebase-admin';
-import { Timestamp } from 'firebase-admin/firestore';
+import { Filter, Timestamp } from 'firebase-admin/firestore';
 import {
   Arc,
   Season,
@@ -7,11 +7,26 @@ import {
   SuggestedReading,
   Exposure,
   Conversation,
+  ConversationMessage,
+  ConversationMessagePage,
+  CompletedMessageClaim,
+  MessageClaim,
   SessionInsights,
   UserMemoryProfile,
+  UserProfile,
+  UserSettings,
+  AllowedEmail,
+  LlmUsageRecord,
+  DailyCounter,
+  ARCS_PER_SEASON,
   ARC_DURATION_DAYS,
   ArcPhase,
+  SeasonShape,
+  CadenceSettings,
   BundleGenerationStatus,
+  UserHistory,
+  ImageAttachment,
+  SearchPosting,
 } from '../types';
 
 // Initialize Firebase Admin if not already initialized
@@ -31,9 +46,27 @@ function getUserCollections(userId: string) {
     exposures: userDoc.collection('exposures'),
     conversations: userDoc.collection('conversations'),
     sessionInsights: userDoc.collection('sessionInsights'),
+    llmUsage: userDoc.collection('llmUsage'),
+    dailyUsage: userDoc.collection('dailyUsage'),
+    searchIndex: userDoc.collection('searchIndex'),
+    messageClaims: userDoc.collection('messageClaims'),
+    attachments: userDoc.collection('attachments'),
   };
 }
 
+// Firestore caps a batch at 500 writes.
+const MAX_BATCH_WRITES = 500;
+
+type BatchWrite = (batch: admin.firestore.WriteBatch) => void;
+
+async function commitInBatches(writes: BatchWrite[]): Promise<void> {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
 // Top-level collections (not user-scoped)
 export const globalCollections = {
   allowedEmails: db.collection('allowedEmails'),
@@ -49,13 +82,108 @@ export function toTimestamp(date: Date): Timestamp {
   return Timestamp.fromDate(date);
 }
 
-// Returns true if the timestamp falls on an earlier calendar day than today.
-function isFromPriorDay(ts: Timestamp): boolean {
-  const created = ts.toDate();
-  const now = new Date();
-  const createdDay = `${created.getFullYear()}-${created.getMonth()}-${created.getDate()}`;
-  const nowDay = `${now.getFullYear()}-${now.getMonth()}-${now.getDate()}`;
-  return createdDay !== nowDay;
+// Day boundaries follow each user's `timezone` setting. Users who haven't set
+// one get UTC.
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time at `date` in `timeZone`.
+function zonedTime(date: Date, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function formatDayKey(year: number, month: number, day: number): string {
+  // Date.UTC normalizes overflow (e.g. day 32 → the 1st of next month).
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+// Calendar day (YYYY-MM-DD) at `date` in `timeZone`.
+export function dayKey(date: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = zonedTime(date, timeZone);
+  return formatDayKey(year, month, day);
+}
+
+// The calendar day after the one `date` falls on in `timeZone`.
+export function nextDayKey(date: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = zonedTime(date, timeZone);
+  return formatDayKey(year, month, day + 1);
+}
+
+// Hour of day (0-23) at `date` in `timeZone`.
+export function hourOfDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  return zonedTime(date, timeZone).hour;
+}
+
+// The instant the day `date` falls on in `timeZone` began.
+export function startOfDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day } = zonedTime(date, timeZone);
+  return zonedMidnight(year, month, day, timeZone);
+}
+
+// The instant the day after the one `date` falls on in `timeZone` begins.
+export function startOfNextDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const { year, month, day } = zonedTime(date, timeZone);
+  return zonedMidnight(year, month, day + 1, timeZone);
+}
+
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  // Guess with the zone's offset at UTC midnight, then correct once in case
+  // a DST change falls between the guess and the answer.
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  let instant = utcMidnight - zoneOffsetMs(new Date(utcMidnight), timeZone);
+  instant = utcMidnight - zoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+// How far `timeZone`'s wall clock is ahead of UTC at `date`.
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const t = zonedTime(date, timeZone);
+  const wallClock = Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
 }
 
 // ---------------------------------------------------------------------------
@@ -77,6 +205,27 @@ export async function addAllowedEmail(email: string, addedBy?: string): Promise<
   });
 }
 
+export async function removeAllowedEmail(email: string): Promise<void> {
+  const normalizedEmail = email.toLowerCase().trim();
+  await globalCollections.allowedEmails.doc(normalizedEmail).delete();
+}
+
+// Sorted in memory: entries added by hand in the console may lack the
+// `email` field, and an orderBy would silently drop them.
+export async function listAllowedEmails(): Promise<AllowedEmail[]> {
+  const snapshot = await globalCollections.allowedEmails.get();
+  return snapshot.docs
+    .map(doc => {
+      const data = doc.data();
+      return {
+        email: data.email || doc.id,
+        addedAt: data.addedAt || toTimestamp(new Date(0)),
+        addedBy: data.addedBy || 'system',
+      };
+    })
+    .sort((a, b) => a.email.localeCompare(b.email));
+}
+
 // ---------------------------------------------------------------------------
 // Season operations
 // ---------------------------------------------------------------------------
@@ -124,7 +273,8 @@ export async function getLatestSeasonNumber(userId: string): Promise<number> {
 
 export async function createSeason(
   userId: string,
-  seasonNumber: number
+  seasonNumber: number,
+  shape: SeasonShape
 ): Promise<Season> {
   const collections = getUserCollections(userId);
   const id = `season-${seasonNumber}-${Date.now()}`;
@@ -133,14 +283,23 @@ export async function createSeason(
     seasonNumber,
     createdAt: toTimestamp(new Date()),
     status: 'active',
+    arcsPerSeason: shape.arcsPerSeason,
+    arcDurationDays: shape.arcDurationDays,
   };
   await collections.seasons.doc(id).set(season);
   return season;
 }
 
-export async function completeSeason(userId: string, seasonId: string): Promise<void> {
+export async function completeSeason(
+  userId: string,
+  seasonId: string,
+  memoryProfile?: UserMemoryProfile
+): Promise<void> {
   const collections = getUserCollections(userId);
-  await collections.seasons.doc(seasonId).update({ status: 'completed' });
+  await collections.seasons.doc(seasonId).update({
+    status: 'completed',
+    ...(memoryProfile && { memoryProfile }),
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -165,6 +324,14 @@ export async function getArc(userId: string, arcId: string): Promise<Arc | null>
   return { id: doc.id, ...doc.data() } as Arc;
 }
 
+/** The arcs with these ids, in a single read. */
+export async function getArcs(userId: string, arcIds: string[]): Promise<Arc[]> {
+  if (arcIds.length === 0) return [];
+  const collections = getUserCollections(userId);
+  const docs = await db.getAll(...arcIds.map(id => collections.arcs.doc(id)));
+  return docs.filter(doc => doc.exists).map(doc => ({ id: doc.id, ...doc.data() } as Arc));
+}
+
 export async function getSeasonArcs(userId: string, seasonId: string): Promise<Arc[]> {
   const collections = getUserCollections(userId);
   const snapshot = await collections.arcs
@@ -197,42 +364,77 @@ export async function deleteArc(userId: string, arcId: string): Promise<void> {
   await collections.arcs.doc(arcId).delete();
 }
 
+// ---------------------------------------------------------------------------
+// Season shape
+// ---------------------------------------------------------------------------
+
+/** Fill a partial shape (a user's settings) in with the defaults. */
+export function resolveSeasonShape(overrides?: Partial<SeasonShape> | null): SeasonShape {
+  return {
+    arcsPerSeason: overrides?.arcsPerSeason ?? ARCS_PER_SEASON,
+    arcDurationDays: overrides?.arcDurationDays ?? ARC_DURATION_DAYS,
+  };
+}
+
+/** The shape a season was planned with. */
+export function seasonShape(season: Season): SeasonShape {
+  return resolveSeasonShape(season);
+}
+
+// ---------------------------------------------------------------------------
+// Cadence
+// ---------------------------------------------------------------------------
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/** A user's cadence, or every day if they haven't set one. */
+export function resolveCadence(cadence?: CadenceSettings | null): CadenceSettings {
+  return { days: cadence?.days?.length ? [...cadence.days] : [...ALL_WEEKDAYS] };
+}
+
+// Day of the week (0 = Sunday) of a YYYY-MM-DD key.
+function weekdayOfKey(key: string): number {
+  return new Date(`${key}T00:00:00Z`).getUTCDay();
+}
+
+/** Calendar days from one YYYY-MM-DD key to another (negative if earlier). */
+export function daysBetweenKeys(from: string, to: string): number {
+  const utcMidnight = (key: string) => new Date(`${key}T00:00:00Z`).getTime();
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / (24 * 60 * 60 * 1000));
+}
+
+/** Whether the day `date` falls on in `timeZone` brings a new encounter. */
+export function isEncounterDay(
+  date: Date,
+  cadence: CadenceSettings,
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  return cadence.days.includes(weekdayOfKey(dayKey(date, timeZone)));
+}
+
 /**
- * Marks an arc completed and activates the next-order planned arc in the same
- * season. Returns the newly activated arc, or null if the season is finished.
+ * The dayKey of the first encounter day after the one `date` falls on in
+ * `timeZone` — at most a week away, since a cadence has at least one day.
  */
-export async function completeArcAndAdvance(
-  userId: string,
-  arc: Arc
-): Promise<Arc | null> {
-  await updateArc(userId, arc.id, {
-    status: 'completed',
-    completedDate: toTimestamp(new Date()),
-  });
-
-  const seasonArcs = await getSeasonArcs(userId, arc.seasonId);
-  const next = seasonArcs.find(
-    a => a.status === 'planned' && a.orderInSeason > arc.orderInSeason
-  );
-  if (!next) {
-    return null;
+export function nextEncounterDay(
+  date: Date,
+  cadence: CadenceSettings,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const today = dayKey(date, timeZone);
+  const [year, month, day] = today.split('-').map(Number);
+  for (let offset = 1; offset <= 7; offset++) {
+    const key = formatDayKey(year, month, day + offset);
+    if (cadence.days.includes(weekdayOfKey(key))) return key;
   }
-
-  await updateArc(userId, next.id, {
-    status: 'active',
-    startDate: toTimestamp(new Date()),
-  });
-  return { ...next, status: 'active' };
+  return nextDayKey(date, timeZone);
 }
 
 // ---------------------------------------------------------------------------
 // Phase helper (derived from dayInArc)
 // ---------------------------------------------------------------------------
 
-export function determinePhase(
-  dayInArc: number,
-  targetDuration: number = ARC_DURATION_DAYS
-): ArcPhase {
+export function determinePhase(dayInArc: number, targetDuration: number): ArcPhase {
   const progress = dayInArc / targetDuration;
   if (progress <= 0.33) return 'early';
   if (progress <= 0.66) return 'middle';
@@ -244,34 +446,43 @@ export function determinePhase(
 // ---------------------------------------------------------------------------
 
 /**
- * Count of engaged bundles in an arc. Drives arc progression — skipping a day
- * never consumes a slot.
+ * Count of engaged bundles in one cycle of an arc. Drives arc progression —
+ * skipping a day never consumes a slot.
  */
-export async function countEngagedBundles(userId: string, arcId: string): Promise<number> {
+export async function countEngagedBundles(
+  userId: string,
+  arcId: string,
+  cycle: number = 0
+): Promise<number> {
   const collections = getUserCollections(userId);
-  const snapshot = await collections.dailyBundles
+  let query = collections.dailyBundles
     .where('arcId', '==', arcId)
-    .where('engaged', '==', true)
-    .count()
-    .get();
+    .where('engaged', '==', true);
+  // Cycle 0 bundles carry no `cycle` field; an arc still in cycle 0 has no
+  // others, so counting the whole arc is exact.
+  if (cycle > 0) {
+    query = query.where('cycle', '==', cycle);
+  }
+  const snapshot = await query.count().get();
   return snapshot.data().count;
 }
 
 /**
- * Day in arc for the *current* encounter: count of engaged bundles + 1,
- * clamped to the arc duration.
+ * Day in arc for the *current* encounter: count of engaged bundles in the
+ * arc's current cycle + 1, clamped to the arc duration.
  */
 export async function calculateDayInArc(userId: string, arc: Arc): Promise<number> {
-  const engaged = await countEngagedBundles(userId, arc.id);
+  const engaged = await countEngagedBundles(userId, arc.id, arc.cycle ?? 0);
   return Math.min(engaged + 1, arc.targetDurationDays);
 }
 
 /**
- * Deterministic bundle id. Bundle identity is (arcId, dayInArc); the document
- * id encodes both so an atomic `.create()` can serve as a concurrency lock.
+ * Deterministic bundle id. Bundle identity is (arcId, cycle, dayInArc); the
+ * document id encodes all three so an atomic `.create()` can serve as a
+ * concurrency lock. Cycle 0 keeps the original `${arcId}-day${n}` form.
  */
-export function bundleId(arcId: string, dayInArc: number): string {
-  return `${arcId}-day${dayInArc}`;
+export function bundleId(arcId: string, dayInArc: number, cycle: number = 0): string {
+  return cycle > 0 ? `${arcId}-c${cycle}-day${dayInArc}` : `${arcId}-day${dayInArc}`;
 }
 
 export async function getBundle(userId: string, id: string): Promise<DailyBundle | null> {
@@ -298,14 +509,16 @@ export async function getBundleByArcDay(
 export async function createPendingBundle(
   userId: string,
   arcId: string,
-  dayInArc: number
+  dayInArc: number,
+  options: { availableOn?: string; cycle?: number; returningAfterDays?: number } = {}
 ): Promise<DailyBundle> {
   const collections = getUserCollections(userId);
-  const id = bundleId(arcId, dayInArc);
+  const id = bundleId(arcId, dayInArc, options.cycle);
   const bundle: DailyBundle = {
     id,
     arcId,
     dayInArc,
+    ...(options.cycle ? { cycle: options.cycle } : {}),
     engaged: false,
     createdAt: toTimestamp(new Date()),
     generationStatus: 'pending',
@@ -314,16 +527,24 @@ export async function createPendingBundle(
     image: { title: '', sourceUrl: '', imageUrl: '' },
     text: { content: '', source: '', author: '' },
     framingText: '',
+    ...(options.availableOn ? { availableOn: options.availableOn } : {}),
+    ...(options.returningAfterDays ? { returningAfterDays: options.returningAfterDays } : {}),
   };
   // .create() throws (code 6 / ALREADY_EXISTS) if the doc already exists.
   await collections.dailyBundles.doc(id).create(bundle);
   return bundle;
 }
 
+export async function deleteBundle(userId: string, id: string): Promise<void> {
+  const collections = getUserCollections(userId);
+  await collections.dailyBundles.doc(id).delete();
+}
+
 /**
  * Reset a bundle back to `pending` so the Firestore trigger regenerates it.
- * Refreshes `createdAt` to the current calendar day. Used for stale un-engaged
- * bundles and for auto-retrying failed bundles.
+ * Refreshes `createdAt` to the current calendar day (dropping any prefetch
+ * `availableOn`). Used for stale un-engaged bundles and for auto-retrying
+ * failed bundles.
  */
 export async function resetBundleToPending(
   userId: string,
@@ -333,6 +554,7 @@ export async function resetBundleToPending(
   await collections.dailyBundles.doc(id).update({
     generationStatus: 'pending',
     createdAt: toTimestamp(new Date()),
+    availableOn: admin.firestore.FieldValue.delete(),
   });
 }
 
@@ -354,11 +576,13 @@ export async function setBundleGenerationStatus(
 }
 
 /**
- * The single un-engaged bundle for the active arc, if one exists.
+ * The single un-engaged bundle for the active arc, if one exists and is
+ * available today. A bundle prefetched for tomorrow is not returned.
  */
 export async function getCurrentUnengagedBundle(
   userId: string,
-  arcId: string
+  arcId: string,
+  timeZone: string
 ): Promise<DailyBundle | null> {
   const collections = getUserCollections(userId);
   const snapshot = await collections.dailyBundles
@@ -367,13 +591,30 @@ export async function getCurrentUnengagedBundle(
     .get();
   if (snapshot.empty) return null;
   // There should be at most one; if more, pick the most recent.
-  const bundles = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle));
+  const bundles = snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle))
+    .filter(b => isBundleAvailable(b, timeZone));
+  if (bundles.length === 0) return null;
   bundles.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
   return bundles[0];
 }
 
-export function isBundleStale(bundle: DailyBundle): boolean {
-  return isFromPriorDay(bundle.createdAt);
+// The day a bundle is "today's": the prefetch target day if it has one,
+// else the day it was created in the user's time zone.
+function bundleDay(bundle: DailyBundle, timeZone: string): string {
+  return bundle.availableOn || dayKey(bundle.createdAt.toDate(), timeZone);
+}
+
+// False for a bundle prefetched for a day that hasn't arrived yet.
+export function isBundleAvailable(
+  bundle: DailyBundle,
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  return bundleDay(bundle, timeZone) <= dayKey(new Date(), timeZone);
+}
+
+export function isBundleStale(bundle: DailyBundle, timeZone: string = DEFAULT_TIMEZONE): boolean {
+  return bundleDay(bundle, timeZone) < dayKey(new Date(), timeZone);
 }
 
 // A bundle stuck mid-generation: still 'generating' well past the trigger's
@@ -385,19 +626,24 @@ export function isBundleGenerationStuck(bundle: DailyBundle): boolean {
 }
 
 /**
- * The most recently created bundle for an arc (engaged or not). Used for
- * session-end resolution after a bundle has already been engaged.
+ * The most recently created bundle for an arc (engaged or not), ignoring a
+ * bundle prefetched for tomorrow. Used for session-end resolution after a
+ * bundle has already been engaged.
  */
 export async function getLatestBundleForArc(
   userId: string,
-  arcId: string
+  arcId: string,
+  timeZone: string
 ): Promise<DailyBundle | null> {
   const collections = getUserCollections(userId);
   const snapshot = await collections.dailyBundles
     .where('arcId', '==', arcId)
     .get();
   if (snapshot.empty) return null;
-  const bundles = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle));
+  const bundles = snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle))
+    .filter(b => isBundleAvailable(b, timeZone));
+  if (bundles.length === 0) return null;
   bundles.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
   return bundles[0];
 }
@@ -434,23 +680,45 @@ export async function getArcBundles(userId: string, arcId: string): Promise<Dail
 
 export async function getBundleHistory(
   userId: string,
-  limit: number = 30
+  limit: number = 30,
+  before?: string
 ): Promise<DailyBundle[]> {
   const collections = getUserCollections(userId);
   // Engaged bundles, newest first. Legacy bundles use 'status' instead of
-  // 'engaged'; fetch broadly then filter for best-effort legacy support.
-  const snapshot = await collections.dailyBundles
-    .orderBy('createdAt', 'desc')
-    .limit(limit * 3)
-    .get();
+  // 'engaged'.
+  let query = collections.dailyBundles
+    .where(Filter.or(Filter.where('engaged', '==', true), Filter.where('status', '==', 'delivered')))
+    .orderBy('createdAt', 'desc');
+
+  if (before) {
+    const cursor = await collections.dailyBundles.doc(before).get();
+    if (!cursor.exists) return [];
+    query = query.startAfter(cursor);
+  }
 
-  const bundles = snapshot.docs
-    .map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle & { status?: string }))
-    .filter(b => b.engaged === true || b.status === 'delivered')
-    // Exclude bundles that never finished generating (no artifacts to show).
-    .filter(b => b.generationStatus === undefined || b.generationStatus === 'ready');
+  // Exclude bundles that never finished generating (no artifacts to show),
+  // reading on past them until the page is full.
+  const bundles: DailyBundle[] = [];
+  while (bundles.length < limit) {
+    const wanted = limit - bundles.length;
+    const snapshot = await query.limit(wanted).get();
+    for (const doc of snapshot.docs) {
+      const bundle = { id: doc.id, ...doc.data() } as DailyBundle;
+      if (bundle.generationStatus === undefined || bundle.generationStatus === 'ready') {
+        bundles.push(bundle);
+      }
+    }
+    if (snapshot.size < wanted) break;
+    query = query.startAfter(snapshot.docs[snapshot.size - 1]);
+  }
+  return bundles;
+}
 
-  return bundles.slice(0, limit);
+/** Every bundle, oldest first, in any state. */
+export async function getAllBundles(userId: string): Promise<DailyBundle[]> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.dailyBundles.orderBy('createdAt', 'asc').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DailyBundle));
 }
 
 export async function updateBundleSuggestedReading(
@@ -522,6 +790,12 @@ export async function getRecentExposures(
   return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Exposure));
 }
 
+export async function getAllExposures(userId: string): Promise<Exposure[]> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.exposures.orderBy('dateShown', 'asc').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Exposure));
+}
+
 export async function createExposure(
   userId: string,
   exposure: Omit<Exposure, 'id'>
@@ -534,6 +808,47 @@ export async function createExposure(
 // Conversation operations
 // ---------------------------------------------------------------------------
 
+// Each message is its own document under the conversation, keyed by its
+// zero-padded position so the console lists them in order. The conversation
+// document keeps the count, which is where the next append goes.
+interface StoredMessage extends ConversationMessage {
+  index: number;
+}
+
+// Conversations written before the move still carry their messages inline;
+// the first append (or migrateConversationMessages) moves them.
+type StoredConversation = Omit<Conversation, 'id' | 'messages'> & {
+  messageCount?: number;
+  messages?: ConversationMessage[];
+};
+
+type ConversationRef = admin.firestore.DocumentReference;
+
+function messagesOf(conversation: ConversationRef) {
+  return conversation.collection('messages');
+}
+
+function messageDocId(index: number): string {
+  return String(index).padStart(6, '0');
+}
+
+// Everything but the position, so optional fields (clientMessageId, images)
+// come back as written.
+function toMessage({ index, ...message }: StoredMessage): ConversationMessage {
+  return message;
+}
+
+// Exported for tests.
+export async function readConversation(doc: admin.firestore.DocumentSnapshot): Promise<Conversation> {
+  const { messages: inline, messageCount, ...data } = doc.data() as StoredConversation;
+  const messages =
+    inline ??
+    (await messagesOf(doc.ref).orderBy('index').get()).docs.map(m =>
+      toMessage(m.data() as StoredMessage)
+    );
+  return { id: doc.id, ...data, messages };
+}
+
 export async function getConversation(
   userId: string,
   bundleId: string
@@ -541,21 +856,141 @@ export async function getConversation(
   const collections = getUserCollections(userId);
   const doc = await collections.conversations.doc(bundleId).get();
   if (!doc.exists) return null;
-  return { id: doc.id, ...doc.data() } as Conversation;
+  return readConversation(doc);
+}
+
+export async function getAllConversations(userId: string): Promise<Conversation[]> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.conversations.get();
+  return Promise.all(snapshot.docs.map(readConversation));
+}
+
+export async function getConversationMessages(
+  userId: string,
+  bundleId: string,
+  limit: number,
+  before?: number
+): Promise<ConversationMessagePage> {
+  const collections = getUserCollections(userId);
+  const ref = collections.conversations.doc(bundleId);
+  const doc = await ref.get();
+  if (!doc.exists) return { conversation: null, messages: [], start: 0 };
+
+  const { messages: inline, messageCount = 0, ...data } = doc.data() as StoredConversation;
+  const conversation = { id: doc.id, ...data };
+  const count = inline ? inline.length : messageCount;
+  const end = Math.min(before ?? count, count);
+  const start = Math.max(0, end - limit);
+  if (inline) return { conversation, messages: inline.slice(start, end), start };
+
+  const snapshot = await messagesOf(ref)
+    .where('index', '>=', start)
+    .where('index', '<', end)
+    .orderBy('index')
+    .get();
+  const messages = snapshot.docs.map(m => toMessage(m.data() as StoredMessage));
+  return { conversation, messages, start };
 }
 
 export async function createConversation(
   userId: string,
-  conversation: Conversation
+  conversation: Omit<Conversation, 'messages'>
 ): Promise<void> {
   const collections = getUserCollections(userId);
-  await collections.conversations.doc(conversation.id).set(conversation);
+  const { id, ...data } = conversation;
+  try {
+    await collections.conversations.doc(id).create({ ...data, messageCount: 0 });
+  } catch (error) {
+    // ALREADY_EXISTS: a concurrent request created it first.
+    if ((error as { code?: number }).code !== 6) throw error;
+  }
+}
+
+/**
+ * Move a conversation's inline messages into the subcollection. They are
+ * written in batches (a long conversation can exceed the 500 writes a
+ * transaction or batch allows), and the inline array is cleared only once
+ * every batch has committed, so a failure part way leaves it to retry. Safe
+ * to run concurrently: each run writes the same documents.
+ */
+async function moveInlineMessages(ref: ConversationRef): Promise<boolean> {
+  const inline = ((await ref.get()).data() as StoredConversation | undefined)?.messages;
+  if (!inline) return false;
+
+  await commitInBatches(
+    inline.map((message, index): BatchWrite => batch => {
+      const entry: StoredMessage = { ...message, index };
+      batch.set(messagesOf(ref).doc(messageDocId(index)), entry);
+    })
+  );
+  return db.runTransaction(async tx => {
+    const stored = (await tx.get(ref)).data() as StoredConversation | undefined;
+    if (!stored?.messages) return false;
+    tx.update(ref, {
+      messageCount: stored.messages.length,
+      messages: admin.firestore.FieldValue.delete(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Write `messages` after those already stored, in one transaction with the
+ * count, moving any inline messages first.
+ */
+async function appendMessages(
+  ref: ConversationRef,
+  bundleId: string,
+  messages: ConversationMessage[],
+  lastActivity: Timestamp,
+  claim?: { ref: admin.firestore.DocumentReference; outcome: CompletedMessageClaim }
+): Promise<void> {
+  await moveInlineMessages(ref);
+  await db.runTransaction(async tx => {
+    const doc = await tx.get(ref);
+    const first = (doc.data() as StoredConversation | undefined)?.messageCount ?? 0;
+
+    messages.forEach((message, i) => {
+      const entry: StoredMessage = { ...message, index: first + i };
+      tx.set(messagesOf(ref).doc(messageDocId(entry.index)), entry);
+    });
+    tx.set(
+      ref,
+      {
+        bundleId,
+        ...(!doc.exists && { sessionEnded: false }),
+        lastActivity,
+        messageCount: first + messages.length,
+      },
+      { merge: true }
+    );
+    if (claim) {
+      const { id, ...outcome } = claim.outcome;
+      tx.set(claim.ref, { ...outcome, status: 'done' }, { merge: true });
+    }
+  });
+}
+
+export async function appendConversationMessages(
+  userId: string,
+  bundleId: string,
+  messages: ConversationMessage[],
+  claim?: CompletedMessageClaim
+): Promise<void> {
+  const collections = getUserCollections(userId);
+  await appendMessages(
+    collections.conversations.doc(bundleId),
+    bundleId,
+    messages,
+    toTimestamp(new Date()),
+    claim && { ref: collections.messageClaims.doc(claim.id), outcome: claim }
+  );
 }
 
 export async function updateConversation(
   userId: string,
   bundleId: string,
-  updates: Partial<Conversation>
+  updates: Partial<Pick<Conversation, 'lastActivity' | 'sessionEnded'>>
 ): Promise<void> {
   const collections = getUserCollections(userId);
   await collections.conversations.doc(bundleId).update(updates);
@@ -570,7 +1005,17 @@ export async function getStaleConversationsForUser(
     .where('sessionEnded', '==', false)
     .where('lastActivity', '<', toTimestamp(cutoffTime))
     .get();
-  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Conversation));
+  return Promise.all(snapshot.docs.map(readConversation));
+}
+
+export async function migrateConversationMessages(userId: string): Promise<number> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.conversations.get();
+  let moved = 0;
+  for (const doc of snapshot.docs.filter(doc => Array.isArray(doc.get('messages')))) {
+    if (await moveInlineMessages(doc.ref)) moved++;
+  }
+  return moved;
 }
 
 export async function getAllUserIds(): Promise<string[]> {
@@ -579,26 +1024,124 @@ export async function getAllUserIds(): Promise<string[]> {
 }
 
 // ---------------------------------------------------------------------------
-// User profile
+// Message claims
 // ---------------------------------------------------------------------------
 
-export interface UserProfile {
-  email: string;
-  createdAt: Timestamp;
-  hasSeenAbout: boolean;
-  voicePreference?: string | null;
-  memoryProfile?: UserMemoryProfile | null;
+export async function claimMessage(
+  userId: string,
+  clientMessageId: string,
+  bundleId: string,
+  staleBefore: Date
+): Promise<MessageClaim | null> {
+  const collections = getUserCollections(userId);
+  const ref = collections.messageClaims.doc(clientMessageId);
+  return db.runTransaction(async tx => {
+    const doc = await tx.get(ref);
+    if (doc.exists) {
+      const existing = { id: doc.id, ...doc.data() } as MessageClaim;
+      const stale =
+        existing.status === 'pending' && existing.claimedAt.toMillis() < staleBefore.getTime();
+      if (!stale) return existing;
+    }
+    const claim: Omit<MessageClaim, 'id'> = {
+      bundleId,
+      status: 'pending',
+      claimedAt: toTimestamp(new Date()),
+    };
+    tx.set(ref, claim);
+    return null;
+  });
+}
+
+export async function getMessageClaim(
+  userId: string,
+  clientMessageId: string
+): Promise<MessageClaim | null> {
+  const doc = await getUserCollections(userId).messageClaims.doc(clientMessageId).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as MessageClaim) : null;
 }
 
-export async function ensureUserExists(userId: string, email: string): Promise<void> {
+export async function releaseMessageClaim(
+  userId: string,
+  clientMessageId: string
+): Promise<void> {
+  const collections = getUserCollections(userId);
+  const ref = collections.messageClaims.doc(clientMessageId);
+  await db.runTransaction(async tx => {
+    const doc = await tx.get(ref);
+    if (doc.get('status') === 'pending') tx.delete(ref);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Image attachments
+// ---------------------------------------------------------------------------
+
+// The bytes live in the default Cloud Storage bucket (the Storage emulator
+// when FIREBASE_STORAGE_EMULATOR_HOST is set), under the same path as the
+// attachment's document.
+function attachmentFile(userId: string, id: string) {
+  return admin.storage().bucket().file(`users/${userId}/attachments/${id}`);
+}
+
+export async function saveImageAttachment(
+  userId: string,
+  attachment: ImageAttachment,
+  data: Buffer
+): Promise<void> {
+  // Bytes first: a document never points at a missing file.
+  await attachmentFile(userId, attachment.id).save(data, {
+    contentType: attachment.mediaType,
+    resumable: false,
+  });
+  const { id, ...fields } = attachment;
+  await getUserCollections(userId).attachments.doc(id).set(fields);
+}
+
+export async function getImageAttachment(
+  userId: string,
+  id: string
+): Promise<ImageAttachment | null> {
+  const doc = await getUserCollections(userId).attachments.doc(id).get();
+  return doc.exists ? ({ id: doc.id, ...doc.data() } as ImageAttachment) : null;
+}
+
+export async function getImageAttachmentData(
+  userId: string,
+  id: string
+): Promise<Buffer | null> {
+  try {
+    const [data] = await attachmentFile(userId, id).download();
+    return data;
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) return null;
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// User profile
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the user document on first sight. Returns true only for the call
+ * that created it, so first-sign-in side effects run once.
+ */
+export async function ensureUserExists(userId: string, email: string): Promise<boolean> {
   const userDoc = globalCollections.users.doc(userId);
   const doc = await userDoc.get();
-  if (!doc.exists) {
-    await userDoc.set({
+  if (doc.exists) return false;
+  try {
+    await userDoc.create({
       email,
       createdAt: toTimestamp(new Date()),
       hasSeenAbout: false,
     });
+    return true;
+  } catch (error) {
+    // ALREADY_EXISTS: a concurrent request created it first.
+    if ((error as { code?: number }).code === 6) return false;
+    throw error;
   }
 }
 
@@ -613,6 +1156,12 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
     hasSeenAbout: data?.hasSeenAbout ?? true,
     voicePreference: data?.voicePreference ?? null,
     memoryProfile: data?.memoryProfile ?? null,
+    budget: data?.budget ?? null,
+    digest: data?.digest ?? null,
+    lastDigestOn: data?.lastDigestOn ?? null,
+    timezone: data?.timezone ?? null,
+    nextSeason: data?.nextSeason ?? null,
+    cadence: data?.cadence ?? null,
   };
 }
 
@@ -620,6 +1169,22 @@ export async function markAboutAsSeen(userId: string): Promise<void> {
   await globalCollections.users.doc(userId).set({ hasSeenAbout: true }, { merge: true });
 }
 
+export async function updateUserSettings(
+  userId: string,
+  settings: Partial<UserSettings>
+): Promise<void> {
+  await globalCollections.users.doc(userId).set(settings, { merge: true });
+}
+
+export async function getTimeZone(userId: string): Promise<string> {
+  const profile = await getUserProfile(userId);
+  return profile?.timezone || DEFAULT_TIMEZONE;
+}
+
+export async function markDigestSent(userId: string, day: string): Promise<void> {
+  await globalCollections.users.doc(userId).set({ lastDigestOn: day }, { merge: true });
+}
+
 export async function getVoicePreference(userId: string): Promise<string | null> {
   const profile = await getUserProfile(userId);
   return profile?.voicePreference ?? null;
@@ -686,6 +1251,22 @@ export async function getSeasonInsights(
   return result;
 }
 
+export async function getSessionInsights(
+  userId: string,
+  id: string
+): Promise<SessionInsights | null> {
+  const collections = getUserCollections(userId);
+  const doc = await collections.sessionInsights.doc(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...doc.data() } as SessionInsights;
+}
+
+export async function getAllSessionInsights(userId: string): Promise<SessionInsights[]> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.sessionInsights.orderBy('date', 'asc').get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SessionInsights));
+}
+
 export async function createSessionInsights(
   userId: string,
   insights: SessionInsights
@@ -694,3 +1275,171 @@ export async function createSessionInsights(
   await collections.sessionInsights.doc(insights.id).set(insights);
 }
 
+// ---------------------------------------------------------------------------
+// Search index — one doc per term, listing the bundles whose text has it
+// ---------------------------------------------------------------------------
+
+// Term docs written before postings carried their bundle's creation time
+// list bundle ids alone (`bundleIds`); those read back as the oldest until
+// the search-index backfill rewrites them.
+interface StoredSearchTerm {
+  bundles?: Record<string, Timestamp>;
+  bundleIds?: string[];
+}
+
+export async function addSearchTerms(
+  userId: string,
+  posting: SearchPosting,
+  terms: string[]
+): Promise<void> {
+  const collections = getUserCollections(userId);
+  const entry: StoredSearchTerm = { bundles: { [posting.bundleId]: posting.createdAt } };
+  await commitInBatches(
+    terms.map((term): BatchWrite => batch =>
+      batch.set(collections.searchIndex.doc(term), entry, { merge: true })
+    )
+  );
+}
+
+export async function getSearchPostings(
+  userId: string,
+  terms: string[]
+): Promise<Record<string, SearchPosting[]>> {
+  const postings: Record<string, SearchPosting[]> = {};
+  if (terms.length === 0) return postings;
+  const collections = getUserCollections(userId);
+  const docs = await db.getAll(...terms.map(term => collections.searchIndex.doc(term)));
+  for (const doc of docs) {
+    const { bundles = {}, bundleIds = [] } = (doc.data() ?? {}) as StoredSearchTerm;
+    const legacy = bundleIds
+      .filter(bundleId => !(bundleId in bundles))
+      .map(bundleId => ({ bundleId, createdAt: Timestamp.fromMillis(0) }));
+    postings[doc.id] = [
+      ...Object.entries(bundles).map(([bundleId, createdAt]) => ({ bundleId, createdAt })),
+      ...legacy,
+    ];
+  }
+  return postings;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace everything the user has encountered, and the search index built
+ * from it, with `history`. Not atomic: the deletes commit first, then the new
+ * documents, each in batches.
+ */
+export async function replaceHistory(userId: string, history: UserHistory): Promise<void> {
+  const collections = getUserCollections(userId);
+  const cleared = [
+    collections.seasons,
+    collections.arcs,
+    collections.dailyBundles,
+    collections.exposures,
+    collections.conversations,
+    collections.sessionInsights,
+    collections.searchIndex,
+    collections.messageClaims,
+  ];
+  const existing = (await Promise.all(cleared.map(c => c.listDocuments()))).flat();
+  const existingMessages = (
+    await Promise.all(
+      existing
+        .filter(ref => ref.parent.id === 'conversations')
+        .map(ref => messagesOf(ref).listDocuments())
+    )
+  ).flat();
+  await commitInBatches(
+    [...existingMessages, ...existing].map(ref => batch => batch.delete(ref))
+  );
+
+  const replaced: Array<[admin.firestore.CollectionReference, Array<{ id: string }>]> = [
+    [collections.seasons, history.seasons],
+    [collections.arcs, history.arcs],
+    [collections.dailyBundles, history.bundles],
+    [collections.exposures, history.exposures],
+    [collections.sessionInsights, history.sessionInsights],
+  ];
+  await commitInBatches([
+    ...replaced.flatMap(([collection, docs]) =>
+      docs.map((doc): BatchWrite => batch => batch.set(collection.doc(doc.id), doc))
+    ),
+    ...history.conversations.flatMap(({ id, messages, ...conversation }): BatchWrite[] => {
+      const ref = collections.conversations.doc(id);
+      return [
+        batch => batch.set(ref, { ...conversation, messageCount: messages.length }),
+        ...messages.map((message, index): BatchWrite => batch => {
+          const entry: StoredMessage = { ...message, index };
+          batch.set(messagesOf(ref).doc(messageDocId(index)), entry);
+        }),
+      ];
+    }),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// LLM usage ledger
+// ---------------------------------------------------------------------------
+
+export async function recordLlmUsage(
+  userId: string,
+  record: Omit<LlmUsageRecord, 'id'>
+): Promise<void> {
+  const collections = getUserCollections(userId);
+  await collections.llmUsage.add(record);
+}
+
+export async function getLlmUsageSince(
+  userId: string,
+  since: Date
+): Promise<LlmUsageRecord[]> {
+  const collections = getUserCollections(userId);
+  const snapshot = await collections.llmUsage
+    .where('createdAt', '>=', toTimestamp(since))
+    .orderBy('createdAt', 'desc')
+    .get();
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LlmUsageRecord));
+}
+
+// ---------------------------------------------------------------------------
+// Daily budget counters
+// ---------------------------------------------------------------------------
+
+/**
+ * Increment a day's counter unless it has already reached `max`. Runs in a
+ * transaction so concurrent requests can't both take the last slot.
+ * Returns the count after the call, and whether it was incremented.
+ */
+export async function consumeDailyCounter(
+  userId: string,
+  day: string,
+  counter: DailyCounter,
+  max: number
+): Promise<{ consumed: boolean; used: number }> {
+  const ref = getUserCollections(userId).dailyUsage.doc(day);
+  return db.runTransaction(async tx => {
+    const doc = await tx.get(ref);
+    const used: number = doc.data()?.[counter] ?? 0;
+    if (used >= max) {
+      return { consumed: false, used };
+    }
+    tx.set(ref, { [counter]: used + 1 }, { merge: true });
+    return { consumed: true, used: used + 1 };
+  });
+}
+
+export async function releaseDailyCounter(
+  userId: string,
+  day: string,
+  counter: DailyCounter
+): Promise<void> {
+  const ref = getUserCollections(userId).dailyUsage.doc(day);
+  await db.runTransaction(async tx => {
+    const used: number = (await tx.get(ref)).data()?.[counter] ?? 0;
+    if (used > 0) {
+      tx.set(ref, { [counter]: used - 1 }, { merge: true });
+    }
+  });
+}
@@ -0,0 +1,24 @@
+import { ImageMediaType } from '../types';
+
+/**
+ * The format image bytes are actually in, read from their signature, or null
+ * for anything the model can't take. A client's claimed type isn't trusted:
+ * the model rejects an image whose bytes don't match its media type.
+ */
+
+const SIGNATURES: Array<[ImageMediaType, (bytes: Buffer) => boolean]> = [
+  ['image/jpeg', bytes => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))],
+  [
+    'image/png',
+    bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  ],
+  ['image/gif', bytes => /^GIF8[79]a$/.test(bytes.toString('latin1', 0, 6))],
+  [
+    'image/webp',
+    bytes => bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP',
+  ],
+];
+
+export function detectImageMediaType(bytes: Buffer): ImageMediaType | null {
+  return SIGNATURES.find(([, matches]) => matches(bytes))?.[0] ?? null;
+}
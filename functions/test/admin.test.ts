@@ -0,0 +1,150 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import {
+  handleAddAllowedEmail,
+  handleBackfillSearchIndex,
+  handleListAllowedEmails,
+  handleListUsers,
+  handleRemoveAllowedEmail,
+} from '../src/api/admin';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import {
+  AdminUsersResponse,
+  AllowedEmailsResponse,
+  SearchIndexBackfillResponse,
+} from '../src/types';
+
+const ADMIN = 'admin@example.com';
+
+let repo: MemoryRepository;
+
+const emails = (body: unknown) =>
+  (body as AllowedEmailsResponse).allowedEmails.map(e => e.email);
+
+describe('admin API', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('adds a normalized email, recording who added it', async () => {
+    const { res, captured } = mockResponse();
+    await handleAddAllowedEmail(
+      mockRequest({ body: { email: '  New.Reader@Example.com ' } }),
+      res,
+      ADMIN,
+      repo
+    );
+
+    assert.equal(captured.status, 200);
+    assert.deepEqual(emails(captured.body), ['new.reader@example.com']);
+    assert.equal(await repo.isEmailAllowed('new.reader@example.com'), true);
+    const [entry] = await repo.listAllowedEmails();
+    assert.equal(entry.addedBy, ADMIN);
+  });
+
+  it('rejects an invalid email', async () => {
+    const { res, captured } = mockResponse();
+    await handleAddAllowedEmail(mockRequest({ body: { email: 'not-an-email' } }), res, ADMIN, repo);
+
+    assert.equal(captured.status, 400);
+    assert.deepEqual(await repo.listAllowedEmails(), []);
+  });
+
+  it('lists allowed emails sorted', async () => {
+    await repo.addAllowedEmail('zed@example.com');
+    await repo.addAllowedEmail('amy@example.com');
+
+    const { res, captured } = mockResponse();
+    await handleListAllowedEmails(mockRequest(), res, repo);
+
+    assert.deepEqual(emails(captured.body), ['amy@example.com', 'zed@example.com']);
+  });
+
+  it('removes an email named in the path', async () => {
+    await repo.addAllowedEmail('amy+primer@example.com');
+    await repo.addAllowedEmail('zed@example.com');
+
+    const { res, captured } = mockResponse();
+    await handleRemoveAllowedEmail(
+      mockRequest({ path: `/api/admin/allowed-emails/${encodeURIComponent('amy+primer@example.com')}` }),
+      res,
+      ADMIN,
+      repo
+    );
+
+    assert.equal(captured.status, 200);
+    assert.deepEqual(emails(captured.body), ['zed@example.com']);
+  });
+
+  it('returns 404 when removing an email that is not listed', async () => {
+    const { res, captured } = mockResponse();
+    await handleRemoveAllowedEmail(
+      mockRequest({ path: '/api/admin/allowed-emails/nobody%40example.com' }),
+      res,
+      ADMIN,
+      repo
+    );
+
+    assert.equal(captured.status, 404);
+  });
+
+  it('lists users with their active season and arc', async () => {
+    await repo.ensureUserExists('user-1', 'reader@example.com');
+    await repo.ensureUserExists('user-2', 'newcomer@example.com');
+    const { arc } = seedSeasonWithActiveArc(repo, 'user-1');
+    repo.put('user-1', 'dailyBundles', makeBundle(arc, { dayInArc: 1, engaged: true }));
+
+    const { res, captured } = mockResponse();
+    await handleListUsers(mockRequest(), res, repo);
+
+    const { users } = captured.body as AdminUsersResponse;
+    assert.deepEqual(
+      users.map(u => u.email),
+      ['newcomer@example.com', 'reader@example.com']
+    );
+    const [newcomer, reader] = users;
+    assert.equal(newcomer.activeSeason, null);
+    assert.equal(newcomer.activeArc, null);
+    assert.deepEqual(reader.activeSeason, { id: 'season-1', seasonNumber: 1 });
+    assert.deepEqual(reader.activeArc, {
+      id: arc.id,
+      theme: 'Night Shifts',
+      orderInSeason: 1,
+      dayInArc: 2,
+    });
+  });
+
+  it("backfills the search index from every user's engaged bundles", async () => {
+    await repo.ensureUserExists('user-1', 'reader@example.com');
+    const { arc } = seedSeasonWithActiveArc(repo, 'user-1');
+    const engaged = makeBundle(arc, { dayInArc: 1, engaged: true });
+    repo.put('user-1', 'dailyBundles', engaged);
+    repo.put('user-1', 'dailyBundles', makeBundle(arc, { dayInArc: 2 }));
+    repo.put('user-1', 'conversations', {
+      id: engaged.id,
+      bundleId: engaged.id,
+      messages: [{ role: 'user', content: 'A lighthouse at dusk.', timestamp: daysAgo(1) }],
+      lastActivity: daysAgo(1),
+      sessionEnded: true,
+    });
+
+    const { res, captured } = mockResponse();
+    await handleBackfillSearchIndex(mockRequest(), res, repo);
+
+    assert.deepEqual(captured.body as SearchIndexBackfillResponse, { users: 1, bundles: 1 });
+    const postings = await repo.getSearchPostings('user-1', ['hopper', 'lighthouse']);
+    const posting = { bundleId: engaged.id, createdAt: engaged.createdAt };
+    assert.deepEqual(postings, { hopper: [posting], lighthouse: [posting] });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Anthropic from '@anthropic-ai/sdk';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { handleMessage } from '../src/services/conversationManager';
+import { clearArtworkImageCache } from '../src/services/artworkImage';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider, LlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { Arc, DailyBundle } from '../src/types';
+
+type Request = Anthropic.MessageCreateParamsNonStreaming;
+
+const USER = 'user-1';
+const PIXELS = Buffer.from('not really a jpeg');
+
+let requests: Request[];
+let fetched: string[];
+let repo: MemoryRepository;
+let arc: Arc;
+let bundle: DailyBundle;
+
+/** The fake provider posing as an online one, recording every request. */
+function onlineProvider(): LlmProvider {
+  const fake = createFakeLlmProvider();
+  const record = async (params: Request) => {
+    requests.push(JSON.parse(JSON.stringify(params)));
+    return fake.createMessage(params);
+  };
+  return { ...fake, offline: false, createMessage: record, streamMessage: params => record(params) };
+}
+
+function serveImage(status = 200, contentType = 'image/jpeg'): void {
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    fetched.push(url);
+    return new Response(status === 200 ? PIXELS : null, {
+      status,
+      headers: { 'content-type': contentType },
+    });
+  });
+}
+
+function firstUserBlocks(request: Request): Anthropic.ContentBlockParam[] {
+  const content = request.messages[0].content;
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+function encounter(request: Request): string {
+  return (request.system as Anthropic.TextBlockParam[])[1].text;
+}
+
+describe("the guide's view of today's image", () => {
+  beforeEach(() => {
+    requests = [];
+    fetched = [];
+    clearArtworkImageCache();
+    mock.method(console, 'log', () => {});
+    setLlmProvider(onlineProvider());
+    repo = createMemoryRepository();
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+    bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    setLlmProvider(null);
+    clearArtworkImageCache();
+  });
+
+  it('attaches the image to the first user turn of every request, fetched once', async () => {
+    serveImage();
+
+    await handleMessage(USER, 'What is in the window?', bundle, arc, repo);
+    await handleMessage(USER, 'And the lower left corner?', bundle, arc, repo);
+
+    assert.deepEqual(fetched, [bundle.image.imageUrl]);
+    for (const request of requests) {
+      const [image, text] = firstUserBlocks(request);
+      assert.deepEqual(image, {
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/jpeg', data: PIXELS.toString('base64') },
+      });
+      assert.equal((text as Anthropic.TextBlockParam).text, 'What is in the window?');
+      assert.match(encounter(request), /Nighthawks by Edward Hopper \(attached/);
+    }
+    // The stored conversation keeps plain text.
+    const stored = await repo.getConversation(USER, bundle.id);
+    assert.equal(stored?.messages[0].content, 'What is in the window?');
+  });
+
+  it('falls back to the title alone when the image cannot be fetched, without refetching', async () => {
+    serveImage(404);
+
+    await handleMessage(USER, 'Hello', bundle, arc, repo);
+    await handleMessage(USER, 'Tell me more', bundle, arc, repo);
+
+    assert.equal(fetched.length, 1);
+    for (const request of requests) {
+      assert.ok(firstUserBlocks(request).every(b => b.type === 'text'));
+      assert.doesNotMatch(encounter(request), /attached/);
+    }
+  });
+
+  it('skips images the model cannot read', async () => {
+    serveImage(200, 'image/tiff');
+
+    await handleMessage(USER, 'Hello', bundle, arc, repo);
+
+    assert.equal(fetched.length, 1);
+    assert.ok(firstUserBlocks(requests[0]).every(b => b.type === 'text'));
+  });
+
+  it('never fetches when the provider is offline', async () => {
+    serveImage();
+    setLlmProvider(createFakeLlmProvider());
+
+    await handleMessage(USER, 'Hello', bundle, arc, repo);
+
+    assert.deepEqual(fetched, []);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Anthropic from '@anthropic-ai/sdk';
+import { makeBundle, seedSeasonWithActiveArc, storedConversationSnapshot } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetAttachment, handleUploadAttachment } from '../src/api/attachments';
+import { handlePostMessage } from '../src/api/message';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { readConversation } from '../src/utils/firestore';
+import { setLlmProvider, LlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import {
+  AttachmentUploadResponse,
+  DailyBundle,
+  ImageAttachment,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGES_PER_MESSAGE,
+  MessageResponse,
+} from '../src/types';
+
+type Request = Anthropic.MessageCreateParamsNonStreaming;
+
+const USER = 'user-1';
+// A JPEG signature, then anything.
+const PHOTO = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('a photo from the museum')]);
+
+let repo: MemoryRepository;
+let bundle: DailyBundle;
+let requests: Request[];
+
+/** The fake provider, recording every request it receives. */
+function recordingProvider(): LlmProvider {
+  const fake = createFakeLlmProvider();
+  const record = async (params: Request) => {
+    requests.push(JSON.parse(JSON.stringify(params)));
+    return fake.createMessage(params);
+  };
+  return { ...fake, createMessage: record, streamMessage: params => record(params) };
+}
+
+async function upload(body: unknown) {
+  const { res, captured } = mockResponse();
+  await handleUploadAttachment(mockRequest({ body }), res, USER, repo);
+  return captured;
+}
+
+async function uploadPhoto(): Promise<ImageAttachment> {
+  const captured = await upload({ mediaType: 'image/jpeg', data: PHOTO.toString('base64') });
+  return (captured.body as AttachmentUploadResponse).attachment;
+}
+
+async function download(id: string) {
+  const { res, captured } = mockResponse();
+  await handleGetAttachment(mockRequest({ path: `/api/attachments/${id}` }), res, USER, repo);
+  return captured;
+}
+
+async function send(body: Record<string, unknown>) {
+  const { res, captured } = mockResponse();
+  await handlePostMessage(mockRequest({ body: { bundleId: bundle.id, ...body } }), res, USER, repo);
+  return captured;
+}
+
+describe('image attachments', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    requests = [];
+    repo = createMemoryRepository();
+    setLlmProvider(recordingProvider());
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('stores an uploaded image and serves it back', async () => {
+    const attachment = await uploadPhoto();
+
+    assert.equal(attachment.mediaType, 'image/jpeg');
+    assert.equal(attachment.size, PHOTO.length);
+
+    const captured = await download(attachment.id);
+    assert.equal(captured.status, 200);
+    assert.equal(captured.headers['Content-Type'], 'image/jpeg');
+    assert.deepEqual(captured.body, PHOTO);
+  });
+
+  it('rejects unsupported and oversized images', async () => {
+    const tiff = await upload({ mediaType: 'image/tiff', data: PHOTO.toString('base64') });
+    assert.equal(tiff.status, 400);
+
+    const huge = await upload({
+      mediaType: 'image/png',
+      data: Buffer.alloc(MAX_IMAGE_BYTES + 1).toString('base64'),
+    });
+    assert.equal(huge.status, 413);
+
+    assert.equal(repo.list(USER, 'attachments').length, 0);
+  });
+
+  it('rejects bytes that are not the image type claimed', async () => {
+    const mislabeled = await upload({ mediaType: 'image/png', data: PHOTO.toString('base64') });
+    assert.equal(mislabeled.status, 400);
+
+    const corrupt = await upload({
+      mediaType: 'image/jpeg',
+      data: Buffer.from('not an image at all').toString('base64'),
+    });
+    assert.equal(corrupt.status, 400);
+
+    assert.equal(repo.list(USER, 'attachments').length, 0);
+  });
+
+  it("answers 404 for another user's or an unknown image", async () => {
+    const attachment = await uploadPhoto();
+    const { res, captured } = mockResponse();
+    await handleGetAttachment(
+      mockRequest({ path: `/api/attachments/${attachment.id}` }),
+      res,
+      'user-2',
+      repo
+    );
+
+    assert.equal(captured.status, 404);
+    assert.equal((await download('not-an-attachment')).status, 404);
+  });
+
+  it('sends attached images to the guide and keeps them on the message', async () => {
+    const attachment = await uploadPhoto();
+
+    const first = await send({ message: '', imageIds: [attachment.id] });
+    assert.equal(first.status, 200);
+    await send({ message: 'What do you make of it?' });
+
+    const stored = (first.body as MessageResponse).conversation.messages[0];
+    assert.equal(stored.content, '');
+    assert.deepEqual(stored.images?.map(i => i.id), [attachment.id]);
+
+    // The photo stays in the conversation the guide sees on later turns.
+    for (const request of requests) {
+      const [image] = request.messages[0].content as Anthropic.ImageBlockParam[];
+      assert.equal(image.type, 'image');
+      assert.deepEqual(image.source, {
+        type: 'base64',
+        media_type: 'image/jpeg',
+        data: PHOTO.toString('base64'),
+      });
+    }
+  });
+
+  it('leaves out a stored image that cannot be sent, rather than failing the turn', async () => {
+    const attachment = await uploadPhoto();
+    const corrupt = { ...attachment, id: 'b7e1d2c4-corrupt', mediaType: 'image/png' as const };
+    await repo.saveImageAttachment(USER, corrupt, PHOTO);
+
+    const captured = await send({ message: 'Two photos', imageIds: [corrupt.id, attachment.id] });
+
+    assert.equal(captured.status, 200);
+    const blocks = requests[0].messages[0].content as Anthropic.ContentBlockParam[];
+    assert.deepEqual(
+      blocks.map(b => b.type),
+      ['image', 'text']
+    );
+  });
+
+  it('describes the oldest images instead once they would not fit in one request', async () => {
+    const full = Buffer.concat([PHOTO, Buffer.alloc(MAX_IMAGE_BYTES - PHOTO.length)]);
+    const { attachment } = (await upload({ mediaType: 'image/jpeg', data: full.toString('base64') }))
+      .body as AttachmentUploadResponse;
+
+    for (let turn = 0; turn <= MAX_IMAGES_PER_MESSAGE; turn++) {
+      assert.equal((await send({ message: `Photo ${turn}`, imageIds: [attachment.id] })).status, 200);
+    }
+
+    const last = requests[requests.length - 1];
+    const blocks = last.messages
+      .filter(m => m.role === 'user')
+      .flatMap(m => m.content as Anthropic.ContentBlockParam[]);
+    assert.equal(blocks.filter(b => b.type === 'image').length, MAX_IMAGES_PER_MESSAGE);
+    assert.deepEqual(last.messages[0].content, [
+      { type: 'text', text: '(an earlier image, no longer shown)' },
+      { type: 'text', text: 'Photo 0' },
+    ]);
+  });
+
+  it('keeps images on messages read back from Firestore', async () => {
+    const attachment = await uploadPhoto();
+    await send({ message: 'At the museum today', imageIds: [attachment.id] });
+    const written = (await repo.getConversation(USER, bundle.id))!.messages;
+
+    const read = await readConversation(storedConversationSnapshot(bundle.id, written));
+
+    assert.deepEqual(read.messages, written);
+    assert.deepEqual(read.messages[0].images, [attachment]);
+  });
+
+  it('rejects unknown image ids before the turn runs', async () => {
+    const captured = await send({ message: 'Look', imageIds: ['0f3c2b9e-unknown'] });
+
+    assert.equal(captured.status, 400);
+    assert.equal(requests.length, 0);
+    assert.equal(await repo.getConversation(USER, bundle.id), null);
+  });
+});
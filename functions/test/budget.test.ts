@@ -0,0 +1,222 @@
+import { describe, it, before, beforeEach, afterEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { enforceBudget } from '../src/middleware/budget';
+import { handlePostMessage } from '../src/api/message';
+import { handleSteerSeasonMessage } from '../src/api/season';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { budgetResetsAt, resolveBudget } from '../src/services/budget';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { BudgetExceededResponse, LlmUsageRecord } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+
+async function attempt(method: string, path: string) {
+  const { res, captured } = mockResponse();
+  const allowed = await enforceBudget(mockRequest({ method, path }), res, USER, repo);
+  return { allowed, captured };
+}
+
+const sendMessage = () => attempt('POST', '/api/today/message');
+const steer = () => attempt('POST', '/api/season/steer/message');
+
+type Handler = typeof handlePostMessage;
+
+/** A request through the budget check and on to its handler, as the router runs it. */
+async function route(path: string, body: Record<string, unknown>, handler: Handler) {
+  const req = mockRequest({ method: 'POST', path, body });
+  const { res, captured } = mockResponse();
+  if (await enforceBudget(req, res, USER, repo)) {
+    await handler(req, res, USER, repo);
+  }
+  return captured;
+}
+
+function counted(): Record<string, unknown> | undefined {
+  return repo.list<Record<string, unknown>>(USER, 'dailyUsage')[0];
+}
+
+function spendTokens(inputTokens: number, createdAt: Timestamp = Timestamp.now()): void {
+  const record: LlmUsageRecord = {
+    id: `usage-${inputTokens}-${createdAt.toMillis()}`,
+    purpose: 'bundle_generation',
+    model: 'claude-opus-4-7',
+    inputTokens,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    webSearches: 0,
+    latencyMs: 0,
+    createdAt,
+  };
+  repo.put(USER, 'llmUsage', record);
+}
+
+describe('daily budgets', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    await repo.ensureUserExists(USER, 'reader@example.com');
+  });
+
+  afterEach(() => {
+    delete process.env.BUDGET_MESSAGES_PER_DAY;
+    setLlmProvider(null);
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('lets unbudgeted routes through without counting them', async () => {
+    const { allowed } = await attempt('GET', '/api/today');
+    assert.equal(allowed, true);
+    assert.deepEqual(repo.list(USER, 'dailyUsage'), []);
+  });
+
+  it('refuses the message after the daily limit with a structured 429', async () => {
+    process.env.BUDGET_MESSAGES_PER_DAY = '2';
+
+    assert.equal((await sendMessage()).allowed, true);
+    assert.equal((await attempt('POST', '/api/today/message/stream')).allowed, true);
+    const { allowed, captured } = await sendMessage();
+
+    assert.equal(allowed, false);
+    assert.equal(captured.status, 429);
+    const body = captured.body as BudgetExceededResponse;
+    assert.equal(body.type, 'error');
+    assert.equal(body.error.type, 'budget_exceeded');
+    assert.equal(body.error.limit, 'messagesPerDay');
+    assert.equal(body.error.used, 2);
+    assert.equal(body.error.max, 2);
+    assert.equal(body.error.resetsAt, budgetResetsAt().toISOString());
+    assert.ok(Number(captured.headers['Retry-After']) > 0);
+  });
+
+  it('does not count a retry of a message already answered', async () => {
+    process.env.BUDGET_MESSAGES_PER_DAY = '1';
+    await repo.claimMessage(USER, 'msg-00000001', 'bundle-1', new Date(0));
+    await repo.appendConversationMessages(USER, 'bundle-1', [], {
+      id: 'msg-00000001',
+      response: 'Because of the light.',
+      sessionShouldEnd: false,
+      arcShouldEnd: false,
+    });
+    const retry = () =>
+      enforceBudget(
+        mockRequest({
+          method: 'POST',
+          path: '/api/today/message',
+          body: { message: 'Why?', clientMessageId: 'msg-00000001' },
+        }),
+        mockResponse().res,
+        USER,
+        repo
+      );
+
+    assert.equal(await retry(), true);
+    assert.equal(await retry(), true);
+    assert.equal((await sendMessage()).allowed, true);
+    assert.equal((await sendMessage()).allowed, false);
+  });
+
+  it('does not count a retry of a message still being answered', async () => {
+    process.env.BUDGET_MESSAGES_PER_DAY = '1';
+    await repo.claimMessage(USER, 'msg-00000002', 'bundle-1', new Date(0));
+
+    const { res } = mockResponse();
+    const retry = mockRequest({
+      method: 'POST',
+      path: '/api/today/message',
+      body: { message: 'Why?', clientMessageId: 'msg-00000002' },
+    });
+    assert.equal(await enforceBudget(retry, res, USER, repo), true);
+    assert.equal((await sendMessage()).allowed, true);
+    assert.equal((await sendMessage()).allowed, false);
+  });
+
+  it('gives the slot back when the handler turns the request away', async () => {
+    const message = await route('/api/today/message', { message: '  ' }, handlePostMessage);
+    const steering = await route('/api/season/steer/message', {}, handleSteerSeasonMessage);
+
+    assert.equal(message.status, 400);
+    assert.equal(steering.status, 400);
+    assert.equal(counted()?.messages, 0);
+    assert.equal(counted()?.steeringTurns, 0);
+  });
+
+  it('gives the slot back when the turn fails', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+    setLlmProvider({
+      name: 'broken',
+      offline: true,
+      createMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+      streamMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+    });
+
+    const failed = await route(
+      '/api/today/message',
+      { message: 'Hello?', bundleId: bundle.id },
+      handlePostMessage
+    );
+
+    assert.equal(failed.status, 500);
+    assert.equal(counted()?.messages, 0);
+  });
+
+  it('counts steering turns separately from messages', async () => {
+    repo.put(USER, 'dailyUsage', { id: new Date().toISOString().slice(0, 10), messages: 60 });
+
+    assert.equal((await sendMessage()).allowed, false);
+    assert.equal((await steer()).allowed, true);
+  });
+
+  it('honours per-user overrides on the profile', async () => {
+    repo.putProfile(USER, { budget: { steeringTurnsPerDay: 1 } });
+
+    assert.equal((await steer()).allowed, true);
+    const { captured } = await steer();
+    assert.equal((captured.body as BudgetExceededResponse).error.limit, 'steeringTurnsPerDay');
+  });
+
+  it("stops all budgeted calls once today's tokens are spent", async () => {
+    spendTokens(1_000_000, Timestamp.fromMillis(Date.now() - 2 * 24 * 60 * 60 * 1000));
+    spendTokens(900_000);
+    assert.equal((await sendMessage()).allowed, true);
+
+    spendTokens(600_000);
+    const { captured } = await steer();
+    const body = captured.body as BudgetExceededResponse;
+    assert.equal(body.error.limit, 'tokensPerDay');
+    assert.equal(body.error.used, 1_500_000);
+    // A refused request is not counted.
+    assert.equal(
+      repo.list<{ steeringTurns?: number }>(USER, 'dailyUsage')[0].steeringTurns,
+      undefined
+    );
+  });
+
+  it('resolves profile over environment over defaults', () => {
+    process.env.BUDGET_MESSAGES_PER_DAY = '10';
+    assert.deepEqual(resolveBudget({ tokensPerDay: 5000 }), {
+      messagesPerDay: 10,
+      tokensPerDay: 5000,
+      steeringTurnsPerDay: 20,
+    });
+    assert.equal(resolveBudget({ messagesPerDay: 3 }).messagesPerDay, 3);
+  });
+});
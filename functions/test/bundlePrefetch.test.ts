@@ -0,0 +1,132 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { prefetchTomorrowsBundles } from '../src/scheduled/bundlePrefetch';
+import { handleGetToday } from '../src/api/today';
+import { bundleId, dayKey, nextDayKey } from '../src/utils/firestore';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, DailyBundle, TodayResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+// 21:30 UTC today: evening for users on the default (UTC) time zone.
+function evening(): Date {
+  const date = new Date();
+  date.setUTCHours(21, 30, 0, 0);
+  return date;
+}
+
+const storedBundles = () => repo.list<DailyBundle>(USER, 'dailyBundles');
+const storedBundle = (id: string) => storedBundles().find(b => b.id === id) ?? null;
+const putBundle = (b: DailyBundle) => repo.put(USER, 'dailyBundles', b);
+
+async function getToday(): Promise<TodayResponse> {
+  const { res, captured } = mockResponse();
+  await handleGetToday(mockRequest(), res, USER, repo);
+  return captured.body as TodayResponse;
+}
+
+describe('nightly bundle prefetch', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    await repo.ensureUserExists(USER, 'reader@example.com');
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("creates tomorrow's pending bundle once today's is engaged", async () => {
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true }));
+
+    await prefetchTomorrowsBundles(repo, evening());
+
+    const next = storedBundle(bundleId(arc.id, 2));
+    assert.ok(next);
+    assert.equal(next.generationStatus, 'pending');
+    assert.equal(next.engaged, false);
+    assert.equal(next.availableOn, nextDayKey(evening()));
+  });
+
+  it("waits for the user's evening in their own time zone", async () => {
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true }));
+    const morning = new Date(evening());
+    morning.setUTCHours(9);
+
+    await prefetchTomorrowsBundles(repo, morning);
+    assert.equal(storedBundle(bundleId(arc.id, 2)), null);
+
+    // 09:30 UTC is 21:30 or 22:30 in Auckland, depending on daylight saving.
+    await repo.updateUserSettings(USER, { timezone: 'Pacific/Auckland' });
+    await prefetchTomorrowsBundles(repo, morning);
+    assert.equal(
+      storedBundle(bundleId(arc.id, 2))?.availableOn,
+      nextDayKey(morning, 'Pacific/Auckland')
+    );
+  });
+
+  it('skips users with an encounter still waiting, and runs idempotently', async () => {
+    await repo.ensureUserExists('user-2', 'other@example.com');
+    putBundle(makeBundle(arc, { dayInArc: 1 }));
+
+    await prefetchTomorrowsBundles(repo, evening());
+    await prefetchTomorrowsBundles(repo, evening());
+
+    assert.deepEqual(
+      storedBundles().map(b => b.id),
+      [bundleId(arc.id, 1)]
+    );
+    // user-2 has no season yet; nothing to prefetch.
+    assert.deepEqual(repo.list('user-2', 'dailyBundles'), []);
+  });
+
+  it("keeps showing today's engaged bundle until the prefetched one's day", async () => {
+    const today = makeBundle(arc, { dayInArc: 1, engaged: true });
+    putBundle(today);
+    await prefetchTomorrowsBundles(repo, evening());
+
+    const response = await getToday();
+
+    assert.equal(response.status, 'ready');
+    if (response.status === 'ready') {
+      assert.equal(response.bundle.id, today.id);
+      assert.equal(response.dayInArc, 1);
+    }
+    assert.equal(storedBundles().length, 2);
+  });
+
+  it('serves the prefetched bundle on its day without regenerating it', async () => {
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(1) }));
+    putBundle(makeBundle(arc, { dayInArc: 2, createdAt: daysAgo(1), availableOn: dayKey() }));
+
+    const response = await getToday();
+
+    assert.equal(response.status, 'ready');
+    if (response.status === 'ready') {
+      assert.equal(response.bundle.id, bundleId(arc.id, 2));
+    }
+    assert.equal(storedBundle(bundleId(arc.id, 2))?.generationStatus, 'ready');
+  });
+
+  it('regenerates a prefetched bundle left unopened past its day', async () => {
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(3) }));
+    const yesterday = dayKey(daysAgo(1).toDate());
+    putBundle(makeBundle(arc, { dayInArc: 2, createdAt: daysAgo(2), availableOn: yesterday }));
+
+    assert.deepEqual(await getToday(), { status: 'generating' });
+
+    const reset = storedBundle(bundleId(arc.id, 2));
+    assert.equal(reset?.generationStatus, 'pending');
+    assert.equal(reset?.availableOn, undefined);
+  });
+});
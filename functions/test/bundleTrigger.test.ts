@@ -0,0 +1,142 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { handleBundleWrite } from '../src/triggers/bundleTrigger';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { BundleGenerationStatus, DailyBundle } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+
+const storedBundle = (id: string) =>
+  repo.list<DailyBundle>(USER, 'dailyBundles').find(b => b.id === id) ?? null;
+const putBundle = (b: DailyBundle) => repo.put(USER, 'dailyBundles', b);
+
+function snapshot(data: Partial<DailyBundle> | null) {
+  return { exists: data !== null, data: () => data ?? undefined };
+}
+
+/** Fire the trigger for a write from `before` to `after` (null = no doc). */
+function fire(
+  bundleId: string,
+  before: BundleGenerationStatus | null,
+  after: BundleGenerationStatus | null
+) {
+  const event = {
+    params: { userId: USER, bundleId },
+    data: {
+      before: snapshot(before ? { generationStatus: before } : null),
+      after: snapshot(after ? { generationStatus: after } : null),
+    },
+  };
+  return handleBundleWrite(event as unknown as Parameters<typeof handleBundleWrite>[0], repo);
+}
+
+describe('bundleGenerator trigger', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    setLlmProvider(createFakeLlmProvider());
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('generates a freshly created pending bundle through to ready', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const pending = makeBundle(arc, {
+      generationStatus: 'pending',
+      music: { title: '', artist: '', youtubeUrl: '' },
+      framingText: '',
+    });
+    putBundle(pending);
+
+    await fire(pending.id, null, 'pending');
+
+    const after = storedBundle(pending.id);
+    assert.equal(after?.generationStatus, 'ready');
+    assert.ok(after?.music.title);
+    assert.ok(after?.image.imageUrl);
+    assert.ok(after?.framingText);
+    assert.equal(after?.generationAttempts, 0);
+  });
+
+  it('regenerates a bundle reset to pending from ready or failed', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    for (const previous of ['ready', 'failed'] as const) {
+      const bundle = makeBundle(arc, { generationStatus: 'pending', framingText: '' });
+      putBundle(bundle);
+
+      await fire(bundle.id, previous, 'pending');
+
+      assert.equal(storedBundle(bundle.id)?.generationStatus, 'ready');
+    }
+  });
+
+  it('ignores writes that do not transition into pending', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const cases: Array<[BundleGenerationStatus | null, BundleGenerationStatus | null]> = [
+      ['pending', 'pending'],
+      ['pending', 'generating'],
+      ['generating', 'ready'],
+      ['generating', 'failed'],
+      [null, 'ready'],
+      ['ready', null],
+    ];
+    for (const [before, after] of cases) {
+      const bundle = makeBundle(arc, { generationStatus: after ?? 'ready' });
+      putBundle(bundle);
+
+      await fire(bundle.id, before, after);
+
+      assert.deepEqual(
+        storedBundle(bundle.id),
+        bundle,
+        `write ${before} -> ${after} should be ignored`
+      );
+    }
+  });
+
+  it('marks the bundle failed when its arc is missing', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const orphan = makeBundle(arc, { arcId: 'arc-gone', generationStatus: 'pending' });
+    putBundle(orphan);
+
+    await fire(orphan.id, null, 'pending');
+
+    const after = storedBundle(orphan.id);
+    assert.equal(after?.generationStatus, 'failed');
+    assert.equal(after?.generationAttempts, 1);
+  });
+
+  it('records a failed attempt without rethrowing when generation errors', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const bundle = makeBundle(arc, { generationStatus: 'pending', generationAttempts: 1 });
+    putBundle(bundle);
+    setLlmProvider({
+      name: 'broken',
+      offline: true,
+      createMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+      streamMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+    });
+
+    await assert.doesNotReject(fire(bundle.id, null, 'pending'));
+
+    const after = storedBundle(bundle.id);
+    assert.equal(after?.generationStatus, 'failed');
+    assert.equal(after?.generationAttempts, 2);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetToday } from '../src/api/today';
+import { handleUpdateSettings } from '../src/api/settings';
+import { prefetchTomorrowsBundles } from '../src/scheduled/bundlePrefetch';
+import { sendDailyDigests } from '../src/scheduled/dailyDigest';
+import { setMailer } from '../src/services/mailer';
+import {
+  ALL_WEEKDAYS,
+  isEncounterDay,
+  nextDayKey,
+  nextEncounterDay,
+} from '../src/utils/firestore';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, DailyBundle, TodayResponse, UserSettings } from '../src/types';
+
+const USER = 'user-1';
+const WEEKDAYS = { days: [1, 2, 3, 4, 5] };
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+// Every day but the one `date` falls on (UTC), so it is an off day.
+function offOn(date: Date): number[] {
+  return ALL_WEEKDAYS.filter(day => day !== date.getUTCDay());
+}
+
+const storedBundles = () => repo.list<DailyBundle>(USER, 'dailyBundles');
+
+async function getToday(): Promise<TodayResponse> {
+  const { res, captured } = mockResponse();
+  await handleGetToday(mockRequest(), res, USER, repo);
+  return captured.body as TodayResponse;
+}
+
+describe('encounter cadence', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    await repo.ensureUserExists(USER, 'reader@example.com');
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    setMailer(null);
+    mock.restoreAll();
+  });
+
+  it("finds encounter days in the user's own time zone", () => {
+    const saturdayNoon = new Date('2026-10-17T12:00:00Z');
+    assert.equal(isEncounterDay(saturdayNoon, WEEKDAYS), false);
+    assert.equal(nextEncounterDay(saturdayNoon, WEEKDAYS), '2026-10-19');
+
+    // Friday 23:30 UTC is already Saturday in Auckland.
+    const fridayNight = new Date('2026-10-16T23:30:00Z');
+    assert.equal(isEncounterDay(fridayNight, WEEKDAYS), true);
+    assert.equal(isEncounterDay(fridayNight, WEEKDAYS, 'Pacific/Auckland'), false);
+    assert.equal(nextEncounterDay(fridayNight, { days: [5] }), '2026-10-23');
+  });
+
+  it('rests on an off day instead of creating a bundle', async () => {
+    repo.putProfile(USER, { cadence: { days: offOn(new Date()) } });
+
+    assert.deepEqual(await getToday(), { status: 'rest', nextEncounter: nextDayKey() });
+    assert.deepEqual(storedBundles(), []);
+  });
+
+  it('leaves a stale bundle for the next encounter day', async () => {
+    repo.putProfile(USER, { cadence: { days: offOn(new Date()) } });
+    repo.put(USER, 'dailyBundles', makeBundle(arc, { createdAt: daysAgo(1) }));
+
+    assert.equal((await getToday()).status, 'rest');
+    assert.equal(storedBundles()[0].generationStatus, 'ready');
+  });
+
+  it('still serves a bundle already made for today', async () => {
+    repo.put(USER, 'dailyBundles', makeBundle(arc));
+    repo.putProfile(USER, { cadence: { days: offOn(new Date()) } });
+
+    assert.equal((await getToday()).status, 'ready');
+  });
+
+  it('prefetches only when tomorrow is an encounter day', async () => {
+    repo.put(USER, 'dailyBundles', makeBundle(arc, { engaged: true }));
+    const evening = new Date();
+    evening.setUTCHours(21, 30, 0, 0);
+    const tomorrow = new Date(evening.getTime() + 24 * 60 * 60 * 1000);
+
+    repo.putProfile(USER, { cadence: { days: offOn(tomorrow) } });
+    await prefetchTomorrowsBundles(repo, evening);
+    assert.equal(storedBundles().length, 1);
+
+    repo.putProfile(USER, { cadence: { days: [tomorrow.getUTCDay()] } });
+    await prefetchTomorrowsBundles(repo, evening);
+    assert.equal(storedBundles().length, 2);
+  });
+
+  it('sends no digest on an off day', async () => {
+    let sent = 0;
+    setMailer({ name: 'counting', send: async () => void sent++ });
+    repo.put(USER, 'dailyBundles', makeBundle(arc));
+    const now = new Date();
+    repo.putProfile(USER, {
+      digest: { enabled: true, sendHour: 0 },
+      cadence: { days: offOn(now) },
+    });
+
+    await sendDailyDigests(repo, now);
+
+    assert.equal(sent, 0);
+  });
+
+  it('PUT /api/user/settings validates and normalizes the cadence', async () => {
+    for (const days of [[], [7], [1.5], 'weekdays']) {
+      const { res, captured } = mockResponse();
+      await handleUpdateSettings(mockRequest({ body: { cadence: { days } } }), res, USER, repo);
+      assert.equal(captured.status, 400);
+    }
+
+    const { res, captured } = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { cadence: { days: [5, 1, 3, 1] } } }),
+      res,
+      USER,
+      repo
+    );
+
+    assert.deepEqual((captured.body as UserSettings).cadence, { days: [1, 3, 5] });
+  });
+});
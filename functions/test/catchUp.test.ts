@@ -0,0 +1,166 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Anthropic from '@anthropic-ai/sdk';
+import { Timestamp } from 'firebase-admin/firestore';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetToday } from '../src/api/today';
+import { handleCatchUp } from '../src/api/catchUp';
+import { generateDailyBundle } from '../src/services/bundleGenerator';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { bundleId } from '../src/utils/firestore';
+import { daysSinceLastEncounter } from '../src/services/catchUp';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, CatchUpResponse, DailyBundle, TodayResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+const storedBundles = () => repo.list<DailyBundle>(USER, 'dailyBundles');
+const storedBundle = (id: string) => storedBundles().find(b => b.id === id) ?? null;
+const storedArc = (id: string) => repo.list<Arc>(USER, 'arcs').find(a => a.id === id) ?? null;
+
+async function getToday(): Promise<TodayResponse> {
+  const { res, captured } = mockResponse();
+  await handleGetToday(mockRequest(), res, USER, repo);
+  return captured.body as TodayResponse;
+}
+
+async function catchUp(choice: unknown) {
+  const { res, captured } = mockResponse();
+  await handleCatchUp(mockRequest({ body: { choice } }), res, USER, repo);
+  return captured;
+}
+
+// Day 3 of the arc, last seen ten days ago, with the day-3 bundle gone stale.
+function seedAbsence(): void {
+  repo.put(USER, 'dailyBundles', makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(11) }));
+  repo.put(USER, 'dailyBundles', makeBundle(arc, { dayInArc: 2, engaged: true, createdAt: daysAgo(10) }));
+  repo.put(USER, 'dailyBundles', makeBundle(arc, { dayInArc: 3, createdAt: daysAgo(9) }));
+}
+
+describe('catch-up after a long absence', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    await repo.ensureUserExists(USER, 'reader@example.com');
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+    repo.put(USER, 'arcs', {
+      ...arc,
+      id: 'arc-season-1-2',
+      orderInSeason: 2,
+      status: 'planned',
+      theme: 'Tidal Clocks',
+      shortDescription: 'Time kept by the sea.',
+    });
+  });
+
+  after(() => {
+    setLlmProvider(null);
+    mock.restoreAll();
+  });
+
+  it("counts the user's calendar days away, whatever the time of day", async () => {
+    await repo.updateUserSettings(USER, { timezone: 'America/Los_Angeles' });
+    // Late on 1 January in Los Angeles (already the 2nd in UTC)...
+    const lastSeen = Timestamp.fromDate(new Date('2026-01-02T06:00:00Z'));
+    repo.put(USER, 'dailyBundles', makeBundle(arc, { engaged: true, createdAt: lastSeen }));
+    // ...to the morning of the 8th: seven days, though under seven days' time.
+    const now = new Date('2026-01-08T17:00:00Z');
+
+    assert.equal(await daysSinceLastEncounter(USER, repo, now), 7);
+  });
+
+  it('offers a choice instead of silently regenerating the stale bundle', async () => {
+    seedAbsence();
+
+    const response = await getToday();
+
+    assert.equal(response.status, 'catch_up');
+    if (response.status === 'catch_up') {
+      assert.equal(response.daysAway, 10);
+      assert.equal(response.dayInArc, 3);
+      assert.deepEqual(response.nextArc, {
+        theme: 'Tidal Clocks',
+        shortDescription: 'Time kept by the sea.',
+      });
+    }
+    assert.equal(storedBundle(bundleId(arc.id, 3))?.generationStatus, 'ready');
+  });
+
+  it('carries on as usual after a short break', async () => {
+    repo.put(USER, 'dailyBundles', makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(3) }));
+
+    assert.deepEqual(await getToday(), { status: 'generating' });
+    assert.equal((await catchUp('resume')).status, 409);
+  });
+
+  it('resume: regenerates the same day with a welcome-back framing', async () => {
+    seedAbsence();
+
+    const captured = await catchUp('resume');
+
+    assert.equal(captured.status, 200);
+    assert.equal((captured.body as CatchUpResponse).arc.id, arc.id);
+    const bundle = storedBundle(bundleId(arc.id, 3));
+    assert.equal(bundle?.generationStatus, 'pending');
+    assert.equal(bundle?.returningAfterDays, 10);
+    assert.deepEqual(await getToday(), { status: 'generating' });
+
+    const prompts: string[] = [];
+    const fake = createFakeLlmProvider();
+    setLlmProvider({
+      ...fake,
+      createMessage: async (params: Anthropic.MessageCreateParamsNonStreaming) => {
+        prompts.push(JSON.stringify(params.messages));
+        return fake.createMessage(params);
+      },
+    });
+    await generateDailyBundle(USER, bundle!, arc, repo);
+    assert.match(prompts[0], /RETURNING after 10 days away/);
+  });
+
+  it('restart: begins a new cycle of the arc from day 1', async () => {
+    seedAbsence();
+
+    assert.equal((await catchUp('restart')).status, 200);
+
+    assert.equal(storedArc(arc.id)?.cycle, 1);
+    assert.equal(storedBundle(bundleId(arc.id, 3)), null);
+    const restarted = storedBundle(bundleId(arc.id, 1, 1));
+    assert.equal(restarted?.id, `${arc.id}-c1-day1`);
+    assert.equal(restarted?.generationStatus, 'pending');
+
+    // Earlier cycles' engaged bundles no longer count toward the day.
+    repo.put(USER, 'dailyBundles', { ...restarted!, generationStatus: 'ready', engaged: true });
+    assert.equal(await repo.calculateDayInArc(USER, storedArc(arc.id)!), 2);
+  });
+
+  it('skip: completes the arc and starts the next planned one', async () => {
+    seedAbsence();
+
+    const captured = await catchUp('skip');
+
+    assert.equal(captured.status, 200);
+    assert.equal((captured.body as CatchUpResponse).arc.theme, 'Tidal Clocks');
+    assert.equal(storedArc(arc.id)?.status, 'completed');
+    assert.equal(storedArc('arc-season-1-2')?.status, 'active');
+    assert.equal(storedBundle(bundleId('arc-season-1-2', 1))?.generationStatus, 'pending');
+  });
+
+  it('rejects an unknown choice, and skipping past the last arc', async () => {
+    seedAbsence();
+    repo.put(USER, 'arcs', { ...storedArc('arc-season-1-2')!, status: 'completed' });
+
+    assert.equal((await catchUp('later')).status, 400);
+    assert.equal((await catchUp('skip')).status, 409);
+    assert.equal(storedArc(arc.id)?.status, 'active');
+  });
+});
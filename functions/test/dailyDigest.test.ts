@@ -0,0 +1,151 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { sendDailyDigests } from '../src/scheduled/dailyDigest';
+import { handleGetSettings, handleUpdateSettings } from '../src/api/settings';
+import { digestEmail } from '../src/services/emails';
+import { MailMessage, setMailer } from '../src/services/mailer';
+import { dayKey } from '../src/utils/firestore';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, DailyBundle, UserSettings } from '../src/types';
+
+const USER = 'user-1';
+const EMAIL = 'reader@example.com';
+
+let repo: MemoryRepository;
+let arc: Arc;
+let sent: MailMessage[];
+
+// Half past `hour` UTC today.
+function atUtcHour(hour: number): Date {
+  const date = new Date();
+  date.setUTCHours(hour, 30, 0, 0);
+  return date;
+}
+
+const optIn = (sendHour = 8) => repo.putProfile(USER, { digest: { enabled: true, sendHour } });
+const putBundle = (b: DailyBundle) => repo.put(USER, 'dailyBundles', b);
+
+describe('daily digest', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    sent = [];
+    setMailer({
+      name: 'recording',
+      send: async message => {
+        sent.push(message);
+      },
+    });
+    await repo.ensureUserExists(USER, EMAIL);
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    setMailer(null);
+    mock.restoreAll();
+  });
+
+  it("sends the ready bundle once its send hour has come, once a day", async () => {
+    optIn(8);
+    putBundle(makeBundle(arc));
+
+    await sendDailyDigests(repo, atUtcHour(7));
+    assert.equal(sent.length, 0);
+
+    await sendDailyDigests(repo, atUtcHour(9));
+    await sendDailyDigests(repo, atUtcHour(10));
+
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].to, EMAIL);
+    assert.equal((await repo.getUserProfile(USER))?.lastDigestOn, dayKey(atUtcHour(9)));
+  });
+
+  it('sends nothing to users who have not opted in', async () => {
+    putBundle(makeBundle(arc));
+    repo.putProfile(USER, { digest: { enabled: false, sendHour: 0 } });
+
+    await sendDailyDigests(repo, atUtcHour(12));
+
+    assert.equal(sent.length, 0);
+  });
+
+  it('waits for a bundle that is still generating', async () => {
+    optIn(0);
+    putBundle(makeBundle(arc, { generationStatus: 'generating' }));
+
+    await sendDailyDigests(repo, atUtcHour(9));
+
+    assert.equal(sent.length, 0);
+    assert.equal((await repo.getUserProfile(USER))?.lastDigestOn, null);
+  });
+
+  it('resets a stale unopened bundle for regeneration instead of sending it', async () => {
+    optIn(0);
+    putBundle(makeBundle(arc, { createdAt: daysAgo(2) }));
+
+    await sendDailyDigests(repo, atUtcHour(9));
+
+    assert.equal(sent.length, 0);
+    assert.equal((await repo.getBundle(USER, makeBundle(arc).id))?.generationStatus, 'pending');
+  });
+
+  it('leaves a user away past the catch-up threshold alone', async () => {
+    optIn(0);
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(10) }));
+    putBundle(makeBundle(arc, { dayInArc: 2, createdAt: daysAgo(9) }));
+
+    await sendDailyDigests(repo, atUtcHour(9));
+
+    assert.equal(sent.length, 0);
+    assert.equal((await repo.getBundle(USER, makeBundle(arc, { dayInArc: 2 }).id))?.generationStatus, 'ready');
+  });
+
+  it('renders the framing, image, music and quote with a link back to Today', () => {
+    process.env.APP_URL = 'https://primer.example.com';
+    const bundle = makeBundle(arc, { framingText: 'First **bold** thought.\n\nSecond thought.' });
+
+    const email = digestEmail(bundle, arc);
+    delete process.env.APP_URL;
+
+    assert.match(email.subject, /Night Shifts/);
+    assert.ok(email.html.includes('src="https://example.org/i.jpg"'));
+    assert.ok(email.html.includes('First bold thought.'));
+    assert.ok(email.html.includes('https://www.youtube.com/watch?v=ylXk1LBvIqU'));
+    assert.ok(email.text.includes('I celebrate myself.'));
+    assert.ok(email.text.includes('https://primer.example.com/'));
+  });
+
+  it('saves digest settings from PUT /api/user/settings', async () => {
+    const put = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { digest: { enabled: true, sendHour: 6 } } }),
+      put.res,
+      USER,
+      repo
+    );
+    assert.equal(put.captured.status, 200);
+
+    const { res, captured } = mockResponse();
+    await handleGetSettings(mockRequest(), res, USER, repo);
+    assert.deepEqual((captured.body as UserSettings).digest, { enabled: true, sendHour: 6 });
+  });
+
+  it('rejects a send hour outside 0-23', async () => {
+    const { res, captured } = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { digest: { sendHour: 24 } } }),
+      res,
+      USER,
+      repo
+    );
+
+    assert.equal(captured.status, 400);
+    assert.equal((await repo.getUserProfile(USER))?.digest, null);
+  });
+});
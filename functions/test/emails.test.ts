@@ -0,0 +1,96 @@
+import { describe, it, before, afterEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  passwordResetEmail,
+  sendVerificationEmail,
+  sendWelcomeEmail,
+  verificationEmail,
+} from '../src/services/emails';
+import { createFileMailer, MailMessage, setMailer } from '../src/services/mailer';
+import { createMemoryRepository } from '../src/repository';
+
+const LINK = 'https://example.firebaseapp.com/__/auth/action?mode=verifyEmail&oobCode=abc&lang=en';
+
+function recordingMailer(): { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  setMailer({
+    name: 'recording',
+    send: async message => {
+      sent.push(message);
+    },
+  });
+  return { sent };
+}
+
+describe('transactional email', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    setMailer(null);
+    delete process.env.APP_URL;
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('puts the action link in both the text and HTML bodies', () => {
+    for (const email of [verificationEmail(LINK), passwordResetEmail(LINK)]) {
+      assert.ok(email.text.includes(LINK));
+      // Query-string ampersands are escaped inside the href.
+      assert.ok(email.html.includes(`href="${LINK.replace(/&/g, '&amp;')}"`));
+    }
+    assert.match(verificationEmail(LINK).subject, /verify/i);
+    assert.match(passwordResetEmail(LINK).subject, /reset/i);
+  });
+
+  it('sends through the active mailer', async () => {
+    const { sent } = recordingMailer();
+
+    await sendVerificationEmail('reader@example.com', LINK);
+
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].to, 'reader@example.com');
+    assert.ok(sent[0].text.includes(LINK));
+  });
+
+  it('links the welcome email to APP_URL', async () => {
+    process.env.APP_URL = 'https://primer.example.com/';
+    const { sent } = recordingMailer();
+
+    await sendWelcomeEmail('reader@example.com');
+
+    assert.ok(sent[0].text.includes('https://primer.example.com/'));
+    assert.ok(!sent[0].text.includes('https://primer.example.com//'));
+  });
+
+  it('writes an .eml file per message with the file mailer', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'primer-outbox-'));
+    try {
+      const mailer = createFileMailer(dir);
+      await mailer.send({ to: 'reader@example.com', ...passwordResetEmail(LINK) });
+
+      const files = await fs.readdir(dir);
+      assert.equal(files.length, 1);
+      assert.match(files[0], /reset-your-primer-password\.eml$/);
+      const raw = await fs.readFile(path.join(dir, files[0]), 'utf8');
+      assert.match(raw, /^To: reader@example\.com$/m);
+      assert.match(raw, /^Subject: Reset your Primer password$/m);
+      assert.match(raw, /multipart\/alternative/);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports a new user only on first sight, for the welcome email', async () => {
+    const repo = createMemoryRepository();
+
+    assert.equal(await repo.ensureUserExists('user-1', 'reader@example.com'), true);
+    assert.equal(await repo.ensureUserExists('user-1', 'reader@example.com'), false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleExport } from '../src/api/export';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, DailyBundle, ExportArchive } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+let day1: DailyBundle;
+
+async function exportAs(format?: string) {
+  const { res, captured } = mockResponse();
+  await handleExport(
+    mockRequest({ query: format === undefined ? {} : { format } }),
+    res,
+    USER,
+    repo
+  );
+  return captured;
+}
+
+describe('export', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    repo.putProfile(USER, { email: 'reader@example.org', createdAt: daysAgo(30), timezone: 'UTC' });
+    ({ arc } = seedSeasonWithActiveArc(repo, USER, {
+      retrospective: 'Every shift ended at the diner counter.',
+    }));
+
+    day1 = makeBundle(arc, {
+      dayInArc: 1,
+      engaged: true,
+      createdAt: daysAgo(2),
+      suggestedReading: { title: 'Night Work', url: 'https://example.org/r', rationale: 'More of the same hours.' },
+    });
+    const day2 = makeBundle(arc, { dayInArc: 2, engaged: true, createdAt: daysAgo(1) });
+    // Today's bundle, not yet opened.
+    const day3 = makeBundle(arc, { dayInArc: 3, createdAt: daysAgo(0) });
+    for (const bundle of [day1, day2, day3]) {
+      repo.put(USER, 'dailyBundles', bundle);
+    }
+    repo.put(USER, 'conversations', {
+      id: day1.id,
+      bundleId: day1.id,
+      messages: [
+        { role: 'user', content: 'The diner looks like an aquarium.', timestamp: daysAgo(2) },
+        { role: 'assistant', content: 'Hopper lit it that way on purpose.', timestamp: daysAgo(2) },
+      ],
+      lastActivity: daysAgo(2),
+      sessionEnded: true,
+    });
+    repo.put(USER, 'sessionInsights', {
+      id: day1.id,
+      date: daysAgo(2),
+      arcId: arc.id,
+      personalContext: [],
+      rawSummary: 'Talked about the diner.',
+    });
+  });
+
+  after(() => mock.restoreAll());
+
+  it('exports every encountered bundle and its surroundings as JSON', async () => {
+    const captured = await exportAs();
+    const archive = JSON.parse(captured.body as string) as ExportArchive;
+
+    assert.equal(captured.status, 200);
+    assert.equal(captured.headers['Content-Type'], 'application/json; charset=utf-8');
+    assert.match(captured.headers['Content-Disposition'], /attachment; filename="personal-primer-\d{4}-\d{2}-\d{2}\.json"/);
+    assert.equal(archive.profile?.email, 'reader@example.org');
+    assert.deepEqual(archive.seasons.map(s => s.id), ['season-1']);
+    assert.deepEqual(archive.arcs.map(a => a.theme), ['Night Shifts']);
+    assert.deepEqual(archive.bundles.map(b => b.dayInArc), [1, 2]);
+    assert.equal(archive.conversations[0].messages.length, 2);
+    assert.equal(archive.sessionInsights[0].rawSummary, 'Talked about the diner.');
+    assert.equal(archive.bundles[0].createdAt, day1.createdAt.toDate().toISOString());
+  });
+
+  it('renders a Markdown book by season, arc and day', async () => {
+    const captured = await exportAs('markdown');
+    const markdown = captured.body as string;
+
+    assert.equal(captured.headers['Content-Type'], 'text/markdown; charset=utf-8');
+    assert.ok(markdown.startsWith('# Personal Primer\n'));
+    assert.ok(markdown.includes('## Season 1\n'));
+    assert.ok(markdown.includes('### 1. Night Shifts\n'));
+    assert.ok(markdown.includes('**Looking back**\n\nEvery shift ended at the diner counter.'));
+    assert.ok(markdown.indexOf('#### Day 1') < markdown.indexOf('#### Day 2'));
+    assert.ok(!markdown.includes('#### Day 3'));
+    assert.ok(markdown.includes('[Nighthawks](https://example.org/s) — Edward Hopper'));
+    assert.ok(markdown.includes('> I celebrate myself.'));
+    assert.ok(markdown.includes('**Further reading:** [Night Work](https://example.org/r)'));
+    assert.ok(markdown.includes('**You:** The diner looks like an aquarium.'));
+    assert.ok(markdown.includes('**Guide:** Hopper lit it that way on purpose.'));
+  });
+
+  it('packages an EPUB with the mimetype stored first', async () => {
+    const captured = await exportAs('epub');
+    const epub = captured.body as Buffer;
+
+    assert.equal(captured.headers['Content-Type'], 'application/epub+zip');
+    assert.equal(epub.readUInt32LE(0), 0x04034b50);
+    assert.equal(epub.readUInt16LE(8), 0); // stored
+    assert.equal(epub.toString('latin1', 30, 38 + 20), 'mimetypeapplication/epub+zip');
+    for (const name of ['META-INF/container.xml', 'OEBPS/content.opf', 'OEBPS/nav.xhtml', 'OEBPS/chapter-1.xhtml']) {
+      assert.ok(epub.includes(name), name);
+    }
+  });
+
+  it('rejects unknown formats', async () => {
+    const captured = await exportAs('pdf');
+    assert.equal(captured.status, 400);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetHistory } from '../src/api/history';
+import { handleGetConversation } from '../src/api/conversationHistory';
+import { createMemoryRepository, MemoryRepository, PrimerRepository } from '../src/repository';
+import { Arc, Conversation, DailyBundle } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+interface HistoryBody {
+  arcGroups: Array<{ arc: { id: string; theme: string }; bundles: DailyBundle[] }>;
+  bundles: DailyBundle[];
+  nextCursor: string | null;
+}
+
+async function getHistory(query: Record<string, string>, using: PrimerRepository = repo) {
+  const { res, captured } = mockResponse();
+  await handleGetHistory(mockRequest({ query }), res, USER, using);
+  return captured;
+}
+
+describe('GET /api/history', () => {
+  before(() => {
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+    // Seven engaged days, one a legacy 'delivered' bundle, plus a bundle that
+    // never finished generating and today's unopened one.
+    for (let day = 1; day <= 7; day++) {
+      const bundle = makeBundle(arc, { dayInArc: day, engaged: true, createdAt: daysAgo(8 - day) });
+      repo.put(USER, 'dailyBundles', day === 3 ? { ...bundle, engaged: undefined, status: 'delivered' } : bundle);
+    }
+    repo.put(USER, 'dailyBundles', { ...makeBundle(arc, { dayInArc: 8, engaged: true }), generationStatus: 'failed' });
+    repo.put(USER, 'dailyBundles', { ...makeBundle(arc, { dayInArc: 9 }), id: 'unopened' });
+  });
+
+  after(() => mock.restoreAll());
+
+  it('walks the whole history a page at a time', async () => {
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const captured = await getHistory(cursor ? { limit: '3', before: cursor } : { limit: '3' });
+      const body = captured.body as HistoryBody;
+      seen.push(...body.bundles.map(b => b.dayInArc));
+      cursor = body.nextCursor;
+      pages++;
+    } while (cursor);
+
+    assert.equal(pages, 3);
+    assert.deepEqual(seen, [7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it('looks up every arc on the page in one read', async () => {
+    const getArc = mock.fn(repo.getArc);
+    const getArcs = mock.fn(repo.getArcs);
+
+    const { body } = await getHistory({}, { ...repo, getArc, getArcs });
+
+    assert.equal(getArc.mock.callCount(), 0);
+    assert.equal(getArcs.mock.callCount(), 1);
+    const { arcGroups, nextCursor } = body as HistoryBody;
+    assert.equal(arcGroups[0].arc.theme, 'Night Shifts');
+    assert.equal(arcGroups[0].bundles.length, 7);
+    assert.equal(nextCursor, null);
+  });
+
+  it('rejects a cursor that is not one of the bundles', async () => {
+    assert.equal((await getHistory({ before: 'nope' })).status, 400);
+  });
+});
+
+describe('GET /api/history/:bundleId/conversation', () => {
+  let bundle: DailyBundle;
+
+  async function getConversation(query: Record<string, string> = {}) {
+    const { res, captured } = mockResponse();
+    await handleGetConversation(
+      mockRequest({ path: `/api/history/${bundle.id}/conversation`, query }),
+      res,
+      USER,
+      repo
+    );
+    return captured;
+  }
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+    bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    for (let turn = 0; turn < 5; turn++) {
+      await repo.appendConversationMessages(USER, bundle.id, [
+        { role: 'user', content: `question ${turn}`, timestamp: daysAgo(0) },
+        { role: 'assistant', content: `answer ${turn}`, timestamp: daysAgo(0) },
+      ]);
+    }
+  });
+
+  it('returns the latest messages and a cursor to the earlier ones', async () => {
+    const latest = (await getConversation({ limit: '4' })).body as {
+      conversation: Conversation;
+      nextCursor: number | null;
+    };
+    assert.deepEqual(
+      latest.conversation.messages.map(m => m.content),
+      ['question 3', 'answer 3', 'question 4', 'answer 4']
+    );
+    assert.equal(latest.nextCursor, 6);
+
+    const earliest = (await getConversation({ limit: '10', before: '6' })).body as typeof latest;
+    assert.equal(earliest.conversation.messages.length, 6);
+    assert.equal(earliest.conversation.messages[0].content, 'question 0');
+    assert.equal(earliest.nextCursor, null);
+  });
+
+  it('rejects a cursor that is not a position', async () => {
+    assert.equal((await getConversation({ before: 'last' })).status, 400);
+  });
+});
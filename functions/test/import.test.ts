@@ -0,0 +1,141 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleExport } from '../src/api/export';
+import { handleImport } from '../src/api/import';
+import { handleSearch } from '../src/api/search';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, Conversation, DailyBundle, ExportArchive, ImportResponse, SearchResponse } from '../src/types';
+
+const SOURCE = 'user-old';
+const TARGET = 'user-new';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+async function exportArchive(): Promise<ExportArchive> {
+  const { res, captured } = mockResponse();
+  await handleExport(mockRequest({ query: { format: 'json' } }), res, SOURCE, repo);
+  return JSON.parse(captured.body as string) as ExportArchive;
+}
+
+async function importArchive(body: unknown, userId = TARGET) {
+  const { res, captured } = mockResponse();
+  await handleImport(mockRequest({ body }), res, userId, repo);
+  return captured;
+}
+
+describe('import', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    repo.putProfile(SOURCE, {
+      email: 'reader@example.org',
+      createdAt: daysAgo(30),
+      timezone: 'Europe/Berlin',
+      cadence: { days: [1, 2, 3, 4, 5] },
+    });
+    ({ arc } = seedSeasonWithActiveArc(repo, SOURCE));
+    const bundle = makeBundle(arc, { engaged: true, createdAt: daysAgo(1) });
+    repo.put(SOURCE, 'dailyBundles', bundle);
+    repo.put(SOURCE, 'conversations', {
+      id: bundle.id,
+      bundleId: bundle.id,
+      messages: [{ role: 'user', content: 'A lighthouse at the edge.', timestamp: daysAgo(1) }],
+      lastActivity: daysAgo(1),
+      sessionEnded: true,
+    });
+    repo.put(SOURCE, 'exposures', {
+      id: 'exposure-1',
+      artifactType: 'image',
+      artifactIdentifier: 'Nighthawks - Edward Hopper',
+      creator: 'Edward Hopper',
+      dateShown: daysAgo(1),
+      arcId: arc.id,
+    });
+
+    // The new account already has the season planned at sign-up and a
+    // pending first bundle.
+    repo.putProfile(TARGET, { email: 'reader@example.org', createdAt: daysAgo(0) });
+    repo.put(TARGET, 'seasons', { id: 'season-fresh', seasonNumber: 1, createdAt: daysAgo(0), status: 'active' });
+    repo.put(TARGET, 'dailyBundles', { ...makeBundle({ ...arc, id: 'arc-fresh' }), generationStatus: 'pending' });
+  });
+
+  after(() => mock.restoreAll());
+
+  it('restores an export into a fresh account, replacing what sign-up created', async () => {
+    const captured = await importArchive(await exportArchive());
+
+    assert.equal(captured.status, 200);
+    assert.deepEqual((captured.body as ImportResponse).imported, {
+      seasons: 1,
+      arcs: 1,
+      bundles: 1,
+      exposures: 1,
+      conversations: 1,
+      sessionInsights: 0,
+    });
+    assert.deepEqual((await repo.getAllSeasons(TARGET)).map(s => s.id), ['season-1']);
+    const [bundle] = await repo.getAllBundles(TARGET);
+    assert.equal(bundle.id, `${arc.id}-day1`);
+    const [original] = await repo.getAllBundles(SOURCE);
+    assert.equal(bundle.createdAt.toMillis(), original.createdAt.toMillis());
+    assert.equal((await repo.getConversation(TARGET, bundle.id))?.messages.length, 1);
+    assert.equal((await repo.getActiveArc(TARGET))?.theme, 'Night Shifts');
+
+    const profile = await repo.getUserProfile(TARGET);
+    assert.equal(profile?.timezone, 'Europe/Berlin');
+    assert.deepEqual(profile?.cadence, { days: [1, 2, 3, 4, 5] });
+
+    const { res, captured: found } = mockResponse();
+    await handleSearch(mockRequest({ query: { q: 'lighthouse' } }), res, TARGET, repo);
+    assert.deepEqual((found.body as SearchResponse).results.map(r => r.bundleId), [bundle.id]);
+  });
+
+  it('gives documents with ids Firestore rejects new ones, and references follow', async () => {
+    const archive = await exportArchive();
+    const badId = 'arc/with/slashes';
+    archive.arcs[0].id = badId;
+    archive.bundles[0].arcId = badId;
+    archive.exposures[0].arcId = badId;
+
+    assert.equal((await importArchive(archive)).status, 200);
+
+    const [restoredArc] = await repo.getAllArcs(TARGET);
+    const [bundle] = repo.list<DailyBundle>(TARGET, 'dailyBundles');
+    const [conversation] = repo.list<Conversation>(TARGET, 'conversations');
+    assert.notEqual(restoredArc.id, badId);
+    assert.ok(!restoredArc.id.includes('/'));
+    assert.equal(bundle.arcId, restoredArc.id);
+    assert.equal(bundle.id, `${restoredArc.id}-day1`);
+    assert.equal(conversation.bundleId, bundle.id);
+    assert.equal((await repo.getAllExposures(TARGET))[0].arcId, restoredArc.id);
+  });
+
+  it('rejects an archive that does not match the types, naming each field', async () => {
+    const archive = await exportArchive() as unknown as Record<string, any>;
+    archive.bundles[0].engaged = 'yes';
+    delete archive.arcs[0].theme;
+    archive.conversations[0].messages[0].timestamp = 'last Tuesday';
+
+    const captured = await importArchive(archive);
+    const { error } = captured.body as { error: string };
+
+    assert.equal(captured.status, 400);
+    assert.match(error, /archive\.bundles\[0\]\.engaged: expected true or false/);
+    assert.match(error, /archive\.arcs\[0\]\.theme: expected a string/);
+    assert.match(error, /archive\.conversations\[0\]\.messages\[0\]\.timestamp: expected an ISO 8601 date/);
+    assert.equal((await repo.getAllSeasons(TARGET))[0].id, 'season-fresh');
+  });
+
+  it('refuses an account that has already encountered something', async () => {
+    const captured = await importArchive(await exportArchive(), SOURCE);
+    assert.equal(captured.status, 409);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { extractAndEndSession } from '../src/services/insightExtractor';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { Arc, Conversation, DailyBundle, Season, SessionInsights } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+
+function putConversation(bundle: DailyBundle, messageCount: number): Conversation {
+  const conversation: Conversation = {
+    id: bundle.id,
+    bundleId: bundle.id,
+    messages: Array.from({ length: messageCount }, (_, i) => ({
+      role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+      content: i % 2 === 0 ? 'Why this painting?' : 'Because of the light.',
+      timestamp: Timestamp.now(),
+    })),
+    lastActivity: Timestamp.now(),
+    sessionEnded: false,
+  };
+  repo.put(USER, 'conversations', conversation);
+  return conversation;
+}
+
+function plannedArc(active: Arc, order: number): Arc {
+  return {
+    id: `arc-season-1-${order}`,
+    seasonId: active.seasonId,
+    orderInSeason: order,
+    status: 'planned',
+    theme: `Planned ${order}`,
+    description: active.description,
+    shortDescription: active.shortDescription,
+    targetDurationDays: active.targetDurationDays,
+  };
+}
+
+const arcs = () => repo.list<Arc>(USER, 'arcs');
+const arcById = (id: string) => arcs().find(a => a.id === id);
+
+describe('extractAndEndSession', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    setLlmProvider(createFakeLlmProvider());
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('extracts insights, attaches suggested reading, and ends the session', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    putConversation(bundle, 4);
+
+    const result = await extractAndEndSession(USER, bundle.id, bundle, false, repo);
+
+    assert.equal(result.suggestedReading?.title, 'Ways of Seeing');
+    assert.equal(result.arcCompletion, null);
+
+    const insights = repo.list<SessionInsights>(USER, 'sessionInsights');
+    assert.equal(insights.length, 1);
+    assert.equal(insights[0].arcId, arc.id);
+    assert.deepEqual(insights[0].personalContext, ['Enjoys connecting music to visual art']);
+
+    const stored = repo.list<DailyBundle>(USER, 'dailyBundles')[0];
+    assert.equal(stored.suggestedReading?.title, 'Ways of Seeing');
+    assert.equal((await repo.getConversation(USER, bundle.id))?.sessionEnded, true);
+  });
+
+  it('ends an empty conversation without calling the model', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    putConversation(bundle, 0);
+    setLlmProvider({
+      name: 'unreachable',
+      offline: true,
+      createMessage: async () => {
+        throw new Error('model should not be called');
+      },
+      streamMessage: async () => {
+        throw new Error('model should not be called');
+      },
+    });
+
+    const result = await extractAndEndSession(USER, bundle.id, bundle, false, repo);
+
+    assert.equal(result.suggestedReading, null);
+    assert.equal(repo.list(USER, 'sessionInsights').length, 0);
+    assert.equal((await repo.getConversation(USER, bundle.id))?.sessionEnded, true);
+  });
+
+  it('completes the arc on its final engaged day and activates the next', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER, { targetDurationDays: 2 });
+    repo.put(USER, 'arcs', plannedArc(arc, 2));
+    repo.put(USER, 'dailyBundles', makeBundle(arc, { dayInArc: 1, engaged: true }));
+    const last = makeBundle(arc, { dayInArc: 2, engaged: true });
+    repo.put(USER, 'dailyBundles', last);
+    putConversation(last, 2);
+
+    const result = await extractAndEndSession(USER, last.id, last, false, repo);
+
+    assert.ok(result.arcCompletion?.summary);
+    assert.equal(result.arcCompletion?.nextArc?.theme, 'Planned 2');
+    assert.equal(arcById(arc.id)?.status, 'completed');
+    assert.equal(arcById(arc.id)?.retrospective, result.arcCompletion?.summary);
+    assert.ok(arcById(arc.id)?.completedDate);
+    assert.equal(arcById('arc-season-1-2')?.status, 'active');
+    assert.ok(arcById('arc-season-1-2')?.startDate);
+  });
+
+  it('leaves the arc running before its final day', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    repo.put(USER, 'arcs', plannedArc(arc, 2));
+    const bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    putConversation(bundle, 2);
+
+    const result = await extractAndEndSession(USER, bundle.id, bundle, false, repo);
+
+    assert.equal(result.arcCompletion, null);
+    assert.equal(arcById(arc.id)?.status, 'active');
+    assert.equal(arcById('arc-season-1-2')?.status, 'planned');
+  });
+
+  it('closes the season and plans the next when the last arc is ended early', async () => {
+    const { season, arc } = seedSeasonWithActiveArc(repo, USER);
+    const bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    putConversation(bundle, 2);
+
+    const result = await extractAndEndSession(USER, bundle.id, bundle, true, repo);
+
+    const seasons = repo.list<Season>(USER, 'seasons');
+    assert.equal(seasons.find(s => s.id === season.id)?.status, 'completed');
+    const next = seasons.find(s => s.status === 'active');
+    assert.equal(next?.seasonNumber, 2);
+
+    const profile = await repo.getMemoryProfile(USER);
+    assert.equal(profile?.fromSeasonNumber, 1);
+    assert.deepEqual(profile?.intellectualLeanings, ['cross-domain connections', 'visual art']);
+    assert.deepEqual(seasons.find(s => s.id === season.id)?.memoryProfile, profile);
+
+    const active = arcs().filter(a => a.status === 'active');
+    assert.equal(active.length, 1);
+    assert.equal(active[0].seasonId, next?.id);
+    assert.equal(result.arcCompletion?.nextArc?.theme, active[0].theme);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeBundle, seedSeasonWithActiveArc, storedConversationSnapshot } from './support/fixtures';
+import { mockRequest, mockResponse, CapturedResponse } from './support/http';
+import { handlePostMessage, handlePostMessageStream } from '../src/api/message';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { readConversation } from '../src/utils/firestore';
+import { DailyBundle, MessageResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let bundle: DailyBundle;
+
+interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+function parseEvents(captured: CapturedResponse): StreamEvent[] {
+  return captured.written
+    .join('')
+    .split('\n\n')
+    .filter(Boolean)
+    .map(frame => {
+      const [eventLine, dataLine] = frame.split('\n');
+      return {
+        event: eventLine.replace(/^event: /, ''),
+        data: JSON.parse(dataLine.replace(/^data: /, '')),
+      };
+    });
+}
+
+async function stream(message: unknown) {
+  const { res, captured } = mockResponse();
+  await handlePostMessageStream(
+    mockRequest({ body: { message, bundleId: bundle.id } }),
+    res,
+    USER,
+    repo
+  );
+  return { captured, events: parseEvents(captured) };
+}
+
+describe('POST /api/today/message/stream', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    setLlmProvider(createFakeLlmProvider());
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('streams the reply as deltas, then closes with the persisted conversation', async () => {
+    const { captured, events } = await stream('The light in this painting is strange.');
+
+    assert.equal(captured.status, 200);
+    assert.equal(captured.headers['Content-Type'], 'text/event-stream');
+    assert.ok(captured.ended);
+
+    const deltas = events.filter(e => e.event === 'delta');
+    assert.ok(deltas.length > 1, 'reply should arrive in several deltas');
+    const streamedText = deltas.map(e => (e.data as { text: string }).text).join('');
+
+    const last = events[events.length - 1];
+    assert.equal(last.event, 'done');
+    const done = last.data as MessageResponse;
+    assert.equal(done.response, streamedText);
+    assert.equal(done.sessionShouldEnd, false);
+    assert.equal(done.conversation.messages.length, 2);
+    assert.equal(done.conversation.messages[1].content, streamedText);
+
+    const stored = await repo.getConversation(USER, bundle.id);
+    assert.equal(stored?.messages[1].content, streamedText);
+    assert.equal((await repo.getBundle(USER, bundle.id))?.engaged, true);
+  });
+
+  it('runs the guide tools while streaming and reports their flags', async () => {
+    const direct = await stream('Could you be more direct?');
+    assert.equal(await repo.getVoicePreference(USER), 'Direct and concise');
+    assert.equal((direct.events.at(-1)?.data as MessageResponse).sessionShouldEnd, false);
+
+    const goodbye = await stream('Thanks, goodbye!');
+    const done = goodbye.events.at(-1)?.data as MessageResponse;
+    assert.equal(done.sessionShouldEnd, true);
+    assert.equal(done.arcShouldEnd, false);
+    assert.equal(done.response, 'Good talking with you. Until tomorrow.');
+  });
+
+  it('matches the non-streaming endpoint for the same turn', async () => {
+    const { events } = await stream('What caught your eye?');
+    const streamed = events.at(-1)?.data as MessageResponse;
+
+    const { res, captured } = mockResponse();
+    await handlePostMessage(
+      mockRequest({ body: { message: 'What caught your eye?', bundleId: bundle.id } }),
+      res,
+      USER,
+      repo
+    );
+
+    assert.equal((captured.body as MessageResponse).response, streamed.response);
+  });
+
+  it('keeps both turns when two tabs send at once', async () => {
+    await stream('First, to settle in.');
+    await Promise.all([stream('From one tab.'), stream('From the other.')]);
+
+    const stored = await repo.getConversation(USER, bundle.id);
+    assert.equal(stored?.messages.length, 6);
+    const sent = stored?.messages.filter(m => m.role === 'user').map(m => m.content);
+    assert.deepEqual(sent?.slice(1).sort(), ['From one tab.', 'From the other.']);
+  });
+
+  it('rejects a missing message as JSON before opening the stream', async () => {
+    const { captured } = await stream(undefined);
+
+    assert.equal(captured.status, 400);
+    assert.deepEqual(captured.body, { error: 'Message is required' });
+    assert.equal(captured.written.length, 0);
+  });
+
+  it('reports a model failure as an error event', async () => {
+    setLlmProvider({
+      name: 'broken',
+      offline: true,
+      createMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+      streamMessage: async (_params, onText) => {
+        onText('Half a ');
+        throw new Error('529 overloaded_error');
+      },
+    });
+
+    const { captured, events } = await stream('Hello?');
+
+    assert.ok(captured.ended);
+    assert.deepEqual(
+      events.map(e => e.event),
+      ['delta', 'error']
+    );
+    assert.deepEqual(events[1].data, { error: '529 overloaded_error' });
+  });
+});
+
+describe('POST /api/today/message with a client message id', () => {
+  let modelCalls: number;
+
+  async function post(message: string, clientMessageId: string) {
+    const { res, captured } = mockResponse();
+    await handlePostMessage(
+      mockRequest({ body: { message, bundleId: bundle.id, clientMessageId } }),
+      res,
+      USER,
+      repo
+    );
+    return captured;
+  }
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    modelCalls = 0;
+    const fake = createFakeLlmProvider();
+    setLlmProvider({
+      ...fake,
+      createMessage: async params => {
+        modelCalls++;
+        return fake.createMessage(params);
+      },
+    });
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('answers a retry with the stored reply instead of running the turn again', async () => {
+    const first = await post('What caught your eye?', 'msg-00000001');
+    const calls = modelCalls;
+    const retry = await post('What caught your eye?', 'msg-00000001');
+
+    assert.equal(retry.status, 200);
+    const replayed = retry.body as MessageResponse;
+    assert.equal(replayed.replayed, true);
+    assert.equal(replayed.response, (first.body as MessageResponse).response);
+    assert.equal(modelCalls, calls);
+
+    const stored = await repo.getConversation(USER, bundle.id);
+    assert.equal(stored?.messages.length, 2);
+    assert.equal(stored?.messages[0].clientMessageId, 'msg-00000001');
+  });
+
+  it('turns away a retry while the first attempt is still running', async () => {
+    await repo.claimMessage(USER, 'msg-00000002', bundle.id, new Date(0));
+
+    const retry = await post('Hello?', 'msg-00000002');
+
+    assert.equal(retry.status, 409);
+    assert.equal(modelCalls, 0);
+  });
+
+  it('lets a failed turn be retried', async () => {
+    const working = createFakeLlmProvider();
+    setLlmProvider({
+      ...working,
+      createMessage: async () => {
+        throw new Error('529 overloaded_error');
+      },
+    });
+    assert.equal((await post('Hello?', 'msg-00000003')).status, 500);
+
+    setLlmProvider(working);
+    const retry = await post('Hello?', 'msg-00000003');
+
+    assert.equal(retry.status, 200);
+    assert.equal((retry.body as MessageResponse).replayed, undefined);
+    assert.equal((await repo.getConversation(USER, bundle.id))?.messages.length, 2);
+  });
+
+  it('rejects an id that could not be a document id', async () => {
+    assert.equal((await post('Hello?', 'a/b')).status, 400);
+  });
+
+  it('keeps the id on messages read back from Firestore', async () => {
+    await post('What caught your eye?', 'msg-00000004');
+    const written = (await repo.getConversation(USER, bundle.id))!.messages;
+
+    const read = await readConversation(storedConversationSnapshot(bundle.id, written));
+
+    assert.deepEqual(read.messages, written);
+    assert.equal(read.messages[0].clientMessageId, 'msg-00000004');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Anthropic from '@anthropic-ai/sdk';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { generateStructured, runToolUseLoop } from '../src/services/anthropic';
+import { handleMessage } from '../src/services/conversationManager';
+import { createMemoryRepository } from '../src/repository';
+import { setLlmProvider, LlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+
+type Request = Anthropic.MessageCreateParamsNonStreaming;
+
+let requests: Request[];
+let logged: string[];
+
+/** The fake provider, recording a deep copy of every request it receives. */
+function recordingProvider(usage: Partial<Anthropic.Usage> = {}): LlmProvider {
+  const fake = createFakeLlmProvider();
+  const record = async (params: Request) => {
+    requests.push(JSON.parse(JSON.stringify(params)));
+    const message = await fake.createMessage(params);
+    return { ...message, usage: { ...message.usage, ...usage } };
+  };
+  return { ...fake, createMessage: record, streamMessage: params => record(params) };
+}
+
+function systemBlocks(request: Request): Anthropic.TextBlockParam[] {
+  assert.ok(Array.isArray(request.system), 'system should be sent as blocks');
+  return request.system as Anthropic.TextBlockParam[];
+}
+
+function breakpoints(request: Request): number {
+  const blocks = [
+    ...systemBlocks(request),
+    ...request.messages.flatMap(m => (typeof m.content === 'string' ? [] : m.content)),
+  ];
+  return blocks.filter(b => 'cache_control' in b && b.cache_control).length;
+}
+
+describe('prompt caching', () => {
+  beforeEach(() => {
+    requests = [];
+    logged = [];
+    mock.method(console, 'log', (line: unknown) => logged.push(String(line)));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    setLlmProvider(null);
+  });
+
+  it('marks each system prompt segment as a cache breakpoint', async () => {
+    setLlmProvider(recordingProvider());
+
+    await generateStructured(['fixed instructions', 'per-user context'], 'plan', {
+      name: 'plan_season',
+      description: 'Submit the plan.',
+      input_schema: { type: 'object', properties: {} },
+    });
+
+    assert.deepEqual(systemBlocks(requests[0]), [
+      { type: 'text', text: 'fixed instructions', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'per-user context', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('moves the conversation breakpoint forward each turn of a tool loop', async () => {
+    setLlmProvider(recordingProvider());
+
+    await runToolUseLoop(
+      'guide',
+      [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi.' },
+        { role: 'user', content: 'goodbye' },
+      ],
+      [{ name: 'conclude_session', description: 'End.', input_schema: { type: 'object', properties: {} } }],
+      { conclude_session: () => 'ok' }
+    );
+
+    assert.equal(requests.length, 2);
+    const [first, second] = requests;
+
+    // Only the newest block carries a breakpoint; earlier turns stay plain.
+    assert.equal(first.messages[0].content, 'Hello');
+    assert.deepEqual(first.messages[2].content, [
+      { type: 'text', text: 'goodbye', cache_control: { type: 'ephemeral' } },
+    ]);
+    assert.equal(second.messages[2].content, 'goodbye');
+    const toolResult = second.messages[4].content as Anthropic.ToolResultBlockParam[];
+    assert.equal(toolResult[0].type, 'tool_result');
+    assert.deepEqual(toolResult[0].cache_control, { type: 'ephemeral' });
+    assert.equal(breakpoints(second), 2);
+  });
+
+  it('keeps the guide instructions as a shared prefix across users and days', async () => {
+    setLlmProvider(recordingProvider());
+    const repo = createMemoryRepository();
+    const { arc } = seedSeasonWithActiveArc(repo, 'user-1');
+    const dayOne = makeBundle(arc, { dayInArc: 1 });
+    const dayTwo = makeBundle(arc, { dayInArc: 2, framingText: 'A different day.' });
+    await repo.setVoicePreference('user-2', 'Terse');
+
+    await handleMessage('user-1', 'Tell me more', dayOne, arc, repo);
+    await handleMessage('user-2', 'Tell me more', dayTwo, arc, repo);
+
+    const [one, two] = requests.map(systemBlocks);
+    assert.equal(one.length, 3);
+    assert.equal(one[0].text, two[0].text);
+    assert.doesNotMatch(one[0].text, /Miles Davis|Night Shifts/);
+    assert.match(one[1].text, /Miles Davis/);
+    assert.notEqual(one[1].text, two[1].text);
+    assert.match(two[2].text, /Terse/);
+    assert.ok(breakpoints(requests[0]) <= 4);
+  });
+
+  it('logs cache reads and writes for every call', async () => {
+    setLlmProvider(
+      recordingProvider({ cache_read_input_tokens: 1800, cache_creation_input_tokens: 240 })
+    );
+
+    await runToolUseLoop('guide', [{ role: 'user', content: 'Hello' }], [], {});
+
+    assert.ok(
+      logged.some(line => /cache_read=1800 cache_write=240/.test(line)),
+      `expected a usage line, got: ${logged.join(' | ')}`
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handlePostMessage } from '../src/api/message';
+import { handleSearch } from '../src/api/search';
+import { extractAndEndSession } from '../src/services/insightExtractor';
+import { buildSnippet, indexBundle, tokenize } from '../src/services/searchIndex';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, SearchResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+async function search(q?: string) {
+  const { res, captured } = mockResponse();
+  await handleSearch(mockRequest({ query: q === undefined ? {} : { q } }), res, USER, repo);
+  return captured;
+}
+
+async function resultIds(q: string): Promise<string[]> {
+  return ((await search(q)).body as SearchResponse).results.map(r => r.bundleId);
+}
+
+// The highlighted words of a snippet.
+function marked(snippet: { text: string; highlights: Array<[number, number]> }): string[] {
+  return snippet.highlights.map(([from, to]) => snippet.text.slice(from, to));
+}
+
+describe('search', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    setLlmProvider(createFakeLlmProvider());
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    setLlmProvider(null);
+    mock.restoreAll();
+  });
+
+  it('tokenizes to lowercase, unaccented terms without stop words', () => {
+    assert.deepEqual(tokenize('The Björk song — and ÉCRIT, écrit.'), ['bjork', 'song', 'ecrit']);
+  });
+
+  it('cuts a snippet around the first match and offsets its highlights', () => {
+    const text = `${'Before the painting there was a long wait. '.repeat(4)}Then Hopper painted Nighthawks at night.`;
+    const snippet = buildSnippet('framing', text, new Set(['hopper', 'nighthawks']));
+
+    assert.ok(snippet);
+    assert.ok(snippet.text.startsWith('…'));
+    assert.deepEqual(marked(snippet), ['Hopper', 'Nighthawks']);
+    assert.equal(buildSnippet('framing', text, new Set(['vermeer'])), null);
+  });
+
+  it('indexes a bundle when its first message engages it', async () => {
+    const bundle = makeBundle(arc);
+    repo.put(USER, 'dailyBundles', bundle);
+    assert.deepEqual(await resultIds('hopper'), []);
+
+    const { res } = mockResponse();
+    await handlePostMessage(
+      mockRequest({ body: { message: 'Hello', bundleId: bundle.id } }),
+      res,
+      USER,
+      repo
+    );
+
+    const captured = await search('Hopper');
+    const [result] = (captured.body as SearchResponse).results;
+    assert.equal(captured.status, 200);
+    assert.equal(result.bundleId, bundle.id);
+    assert.equal(result.arcTheme, 'Night Shifts');
+    assert.equal(result.snippets[0].field, 'image');
+    assert.deepEqual(marked(result.snippets[0]), ['Hopper']);
+  });
+
+  it('indexes the conversation and session summary when the session ends', async () => {
+    const bundle = makeBundle(arc, { engaged: true });
+    repo.put(USER, 'dailyBundles', bundle);
+    repo.put(USER, 'conversations', {
+      id: bundle.id,
+      bundleId: bundle.id,
+      messages: [
+        { role: 'user', content: 'It reminds me of a lighthouse keeper.', timestamp: daysAgo(0) },
+        { role: 'assistant', content: 'Keepers worked the night too.', timestamp: daysAgo(0) },
+      ],
+      lastActivity: daysAgo(0),
+      sessionEnded: false,
+    });
+    assert.deepEqual(await resultIds('lighthouse'), []);
+
+    await extractAndEndSession(USER, bundle.id, bundle, false, repo);
+
+    const [result] = ((await search('lighthouse landed')).body as SearchResponse).results;
+    assert.equal(result.bundleId, bundle.id);
+    assert.deepEqual(
+      result.snippets.map(s => s.field),
+      ['conversation', 'summary']
+    );
+  });
+
+  it('matches every word, newest first', async () => {
+    const older = makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(2) });
+    const newer = makeBundle(arc, {
+      dayInArc: 2,
+      engaged: true,
+      createdAt: daysAgo(1),
+      image: { title: 'Automat', artist: 'Edward Hopper', sourceUrl: '', imageUrl: '' },
+    });
+    for (const bundle of [older, newer]) {
+      repo.put(USER, 'dailyBundles', bundle);
+      await indexBundle(USER, bundle, repo);
+    }
+
+    assert.deepEqual(await resultIds('edward hopper'), [newer.id, older.id]);
+    assert.deepEqual(await resultIds('hopper nighthawks'), [older.id]);
+    assert.deepEqual(await resultIds('hopper vermeer'), []);
+  });
+
+  it('reads only the bundles on the page of results', async () => {
+    const bundles = [1, 2, 3, 4, 5].map(day =>
+      makeBundle(arc, { dayInArc: day, engaged: true, createdAt: daysAgo(10 - day) })
+    );
+    for (const bundle of bundles) {
+      repo.put(USER, 'dailyBundles', bundle);
+      await indexBundle(USER, bundle, repo);
+    }
+    const getBundle = mock.method(repo, 'getBundle');
+
+    const { res, captured } = mockResponse();
+    await handleSearch(mockRequest({ query: { q: 'hopper', limit: '2' } }), res, USER, repo);
+
+    const results = (captured.body as SearchResponse).results;
+    assert.deepEqual(
+      results.map(r => r.bundleId),
+      [bundles[4].id, bundles[3].id]
+    );
+    assert.equal(results[0].arcTheme, 'Night Shifts');
+    assert.equal(getBundle.mock.callCount(), 2);
+  });
+
+  it('requires a query', async () => {
+    assert.equal((await search()).status, 400);
+    assert.equal((await search('   ')).status, 400);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleUpdateSettings } from '../src/api/settings';
+import { planNextSeason } from '../src/services/seasonPlanner';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider, LlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { ARC_DURATION_DAYS, ARCS_PER_SEASON } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let prompts: string[];
+
+/** The fake provider, recording the user prompt of every request. */
+function recordingProvider(): LlmProvider {
+  const fake = createFakeLlmProvider();
+  return {
+    ...fake,
+    createMessage: async params => {
+      const first = params.messages[0];
+      prompts.push(typeof first.content === 'string' ? first.content : JSON.stringify(first.content));
+      return fake.createMessage(params);
+    },
+  };
+}
+
+describe('planNextSeason', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    prompts = [];
+    setLlmProvider(recordingProvider());
+  });
+
+  after(() => {
+    setLlmProvider(null);
+  });
+
+  it('plans a broad first season with only the first arc active', async () => {
+    const { season, arcs } = await planNextSeason(USER, repo);
+
+    assert.equal(season.seasonNumber, 1);
+    assert.equal(season.status, 'active');
+    assert.equal(arcs.length, ARCS_PER_SEASON);
+    assert.deepEqual(
+      arcs.map(a => a.orderInSeason),
+      Array.from({ length: ARCS_PER_SEASON }, (_, i) => i + 1)
+    );
+    assert.deepEqual(
+      arcs.map(a => a.status),
+      ['active', ...Array(ARCS_PER_SEASON - 1).fill('planned')]
+    );
+    assert.ok(arcs[0].startDate);
+    assert.ok(arcs.every(a => a.targetDurationDays === ARC_DURATION_DAYS));
+    assert.match(prompts[0], /FIRST season/);
+  });
+
+  it('feeds prior topics and the memory profile into later seasons', async () => {
+    seedSeasonWithActiveArc(repo, USER, { theme: 'Night Shifts', status: 'completed' });
+    await repo.setMemoryProfile(USER, {
+      intellectualLeanings: ['ritual and repetition'],
+      notes: 'Likes slow pieces.',
+      derivedAt: Timestamp.now(),
+      fromSeasonNumber: 1,
+    });
+
+    const { season } = await planNextSeason(USER, repo);
+
+    assert.equal(season.seasonNumber, 2);
+    assert.match(prompts[0], /- Night Shifts/);
+    assert.match(prompts[0], /ritual and repetition/);
+    assert.match(prompts[0], /Likes slow pieces\./);
+  });
+
+  it("plans the next season with the user's chosen arc count and length", async () => {
+    const { res, captured } = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { nextSeason: { arcsPerSeason: 6, arcDurationDays: 5 } } }),
+      res,
+      USER,
+      repo
+    );
+    assert.equal(captured.status, 200);
+
+    const { season, arcs } = await planNextSeason(USER, repo);
+
+    assert.equal(season.arcsPerSeason, 6);
+    assert.equal(season.arcDurationDays, 5);
+    assert.equal(arcs.length, 6);
+    assert.ok(arcs.every(a => a.targetDurationDays === 5));
+    assert.match(prompts[0], /Plan SEASON 1: 6 arcs/);
+  });
+
+  it('rejects a season shape outside the allowed range', async () => {
+    const { res, captured } = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { nextSeason: { arcDurationDays: 30 } } }),
+      res,
+      USER,
+      repo
+    );
+
+    assert.equal(captured.status, 400);
+    assert.equal((await repo.getUserProfile(USER))?.nextSeason ?? null, null);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { daysAgo, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetSeasonById, handleGetSeasons } from '../src/api/season';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { SeasonDetailResponse, SeasonsResponse, UserMemoryProfile } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+
+function profileFrom(seasonNumber: number, leaning: string): UserMemoryProfile {
+  return { intellectualLeanings: [leaning], notes: '', derivedAt: daysAgo(1), fromSeasonNumber: seasonNumber };
+}
+
+/** A completed season 1 with two completed arcs, and an active season 2. */
+function seedTwoSeasons(firstProfile?: UserMemoryProfile): void {
+  const { arc } = seedSeasonWithActiveArc(repo, USER, {
+    status: 'completed',
+    startDate: daysAgo(14),
+    completedDate: daysAgo(7),
+    retrospective: 'A fortnight of **late light**.',
+  });
+  repo.put(USER, 'arcs', {
+    ...arc,
+    id: 'arc-season-1-2',
+    orderInSeason: 2,
+    theme: 'Thresholds',
+    startDate: daysAgo(7),
+    completedDate: daysAgo(1),
+  });
+  repo.put(USER, 'seasons', {
+    id: 'season-1',
+    seasonNumber: 1,
+    createdAt: daysAgo(14),
+    status: 'completed',
+    ...(firstProfile && { memoryProfile: firstProfile }),
+  });
+  repo.put(USER, 'seasons', { id: 'season-2', seasonNumber: 2, createdAt: daysAgo(1), status: 'active' });
+  repo.put(USER, 'arcs', {
+    id: 'arc-season-2-1',
+    seasonId: 'season-2',
+    orderInSeason: 1,
+    status: 'active',
+    theme: 'Salt',
+    description: 'What preserves.',
+    shortDescription: 'What preserves.',
+    targetDurationDays: 7,
+    startDate: daysAgo(0),
+  });
+}
+
+async function getSeason(seasonId: string) {
+  const { res, captured } = mockResponse();
+  await handleGetSeasonById(mockRequest({ path: `/api/seasons/${seasonId}` }), res, USER, repo);
+  return captured;
+}
+
+describe('season archive', () => {
+  before(() => {
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+  });
+
+  after(() => mock.restoreAll());
+
+  it('lists every season with its arc counts and dates', async () => {
+    seedTwoSeasons();
+    const { res, captured } = mockResponse();
+    await handleGetSeasons(mockRequest(), res, USER, repo);
+
+    const { seasons } = captured.body as SeasonsResponse;
+    assert.deepEqual(seasons.map(s => s.season.id), ['season-1', 'season-2']);
+    assert.equal(seasons[0].arcCount, 2);
+    assert.equal(seasons[0].completedArcCount, 2);
+    const [first, second] = await repo.getSeasonArcs(USER, 'season-1');
+    assert.equal(seasons[0].startDate?.toMillis(), first.startDate?.toMillis());
+    assert.equal(seasons[0].endDate?.toMillis(), second.completedDate?.toMillis());
+    assert.equal(seasons[1].completedArcCount, 0);
+    assert.equal(seasons[1].endDate, null);
+  });
+
+  it('returns a past season with its arcs and the profile derived when it ended', async () => {
+    seedTwoSeasons(profileFrom(1, 'thresholds'));
+    await repo.setMemoryProfile(USER, profileFrom(2, 'something later'));
+
+    const captured = await getSeason('season-1');
+    const { season, arcs, memoryProfile } = captured.body as SeasonDetailResponse;
+
+    assert.equal(captured.status, 200);
+    assert.equal(season.seasonNumber, 1);
+    assert.deepEqual(arcs.map(a => a.theme), ['Night Shifts', 'Thresholds']);
+    assert.equal(arcs[0].retrospective, 'A fortnight of **late light**.');
+    assert.deepEqual(memoryProfile?.intellectualLeanings, ['thresholds']);
+  });
+
+  it('falls back to the current profile for the latest season completed before snapshots', async () => {
+    seedTwoSeasons();
+    await repo.setMemoryProfile(USER, profileFrom(1, 'ritual'));
+
+    const { memoryProfile } = (await getSeason('season-1')).body as SeasonDetailResponse;
+    assert.deepEqual(memoryProfile?.intellectualLeanings, ['ritual']);
+
+    const active = (await getSeason('season-2')).body as SeasonDetailResponse;
+    assert.equal(active.memoryProfile, null);
+  });
+
+  it('404s on an unknown season', async () => {
+    seedTwoSeasons();
+    assert.equal((await getSeason('season-9')).status, 404);
+  });
+});
@@ -0,0 +1,86 @@
+import { DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { Arc, ConversationMessage, DailyBundle, Season } from '../../src/types';
+import { bundleId } from '../../src/utils/firestore';
+import { MemoryRepository } from '../../src/repository';
+
+export function minutesAgo(minutes: number): Timestamp {
+  return Timestamp.fromMillis(Date.now() - minutes * 60 * 1000);
+}
+
+export function daysAgo(days: number): Timestamp {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return Timestamp.fromDate(date);
+}
+
+/** A fully generated, un-engaged bundle created just now. */
+export function makeBundle(arc: Arc, overrides: Partial<DailyBundle> = {}): DailyBundle {
+  const dayInArc = overrides.dayInArc ?? 1;
+  return {
+    id: bundleId(arc.id, dayInArc),
+    arcId: arc.id,
+    dayInArc,
+    engaged: false,
+    createdAt: Timestamp.now(),
+    generationStatus: 'ready',
+    generationAttempts: 0,
+    music: { title: 'So What', artist: 'Miles Davis', youtubeUrl: 'https://www.youtube.com/watch?v=ylXk1LBvIqU' },
+    image: { title: 'Nighthawks', artist: 'Edward Hopper', sourceUrl: 'https://example.org/s', imageUrl: 'https://example.org/i.jpg' },
+    text: { content: 'I celebrate myself.', source: 'Song of Myself', author: 'Walt Whitman' },
+    framingText: 'Who is awake with you tonight?',
+    ...overrides,
+  };
+}
+
+/** An active season 1 whose first arc is active. */
+export function seedSeasonWithActiveArc(
+  repo: MemoryRepository,
+  userId: string,
+  arcOverrides: Partial<Arc> = {}
+): { season: Season; arc: Arc } {
+  const season: Season = {
+    id: 'season-1',
+    seasonNumber: 1,
+    createdAt: Timestamp.now(),
+    status: 'active',
+  };
+  const arc: Arc = {
+    id: 'arc-season-1-1',
+    seasonId: season.id,
+    orderInSeason: 1,
+    status: 'active',
+    theme: 'Night Shifts',
+    description: 'Work done while everyone else sleeps.',
+    shortDescription: 'Work done while everyone else sleeps.',
+    targetDurationDays: 7,
+    startDate: Timestamp.now(),
+    ...arcOverrides,
+  };
+  repo.put(userId, 'seasons', season);
+  repo.put(userId, 'arcs', arc);
+  return { season, arc };
+}
+
+/**
+ * A Firestore snapshot of a conversation stored the current way: metadata on
+ * the document, each message (with its `index`) in the subcollection. Only
+ * what the conversation readers touch.
+ */
+export function storedConversationSnapshot(
+  id: string,
+  messages: ConversationMessage[]
+): DocumentSnapshot {
+  const docs = messages.map((message, index) => ({ data: () => ({ ...message, index }) }));
+  const query = { orderBy: () => query, where: () => query, get: async () => ({ docs }) };
+  return {
+    id,
+    exists: true,
+    data: () => ({
+      bundleId: id,
+      lastActivity: Timestamp.now(),
+      sessionEnded: false,
+      messageCount: messages.length,
+    }),
+    ref: { collection: () => query },
+  } as unknown as DocumentSnapshot;
+}
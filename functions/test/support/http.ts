@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+
+export interface CapturedResponse {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+  // Raw chunks passed to write() — streamed responses only.
+  written: string[];
+  ended: boolean;
+}
+
+/** A minimal Express request carrying only what the handlers read. */
+export function mockRequest(overrides: Partial<Request> = {}): Request {
+  return { body: {}, query: {}, path: '/', headers: {}, ...overrides } as Request;
+}
+
+/**
+ * A minimal Express response that records the status code, body (from json()
+ * or send()), headers and any streamed writes. `captured.status` stays 200
+ * unless the handler sets it.
+ */
+export function mockResponse(): { res: Response; captured: CapturedResponse } {
+  const captured: CapturedResponse = {
+    status: 200,
+    body: undefined,
+    headers: {},
+    written: [],
+    ended: false,
+  };
+  const res = {
+    locals: {},
+    status(code: number) {
+      captured.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+    set(fields: Record<string, string>) {
+      Object.assign(captured.headers, fields);
+      return res;
+    },
+    flushHeaders() {},
+    write(chunk: string) {
+      captured.written.push(chunk);
+      return true;
+    },
+    end() {
+      captured.ended = true;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, captured };
+}
@@ -0,0 +1,119 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetToday } from '../src/api/today';
+import { handleUpdateSettings } from '../src/api/settings';
+import { enforceBudget } from '../src/middleware/budget';
+import {
+  dayKey,
+  hourOfDay,
+  isBundleStale,
+  nextDayKey,
+  startOfDay,
+  startOfNextDay,
+} from '../src/utils/firestore';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { Arc, BudgetExceededResponse, UserSettings } from '../src/types';
+
+const USER = 'user-1';
+const BERLIN = 'Europe/Berlin';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+describe('per-user time zones', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(async () => {
+    repo = createMemoryRepository();
+    await repo.ensureUserExists(USER, 'reader@example.com');
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('computes calendar days and midnights in a zone, across DST', () => {
+    // US daylight saving starts at 02:00 on 2026-03-08.
+    const instant = new Date('2026-03-08T09:30:00Z');
+    const la = 'America/Los_Angeles';
+
+    assert.equal(dayKey(instant, la), '2026-03-08');
+    assert.equal(nextDayKey(instant, la), '2026-03-09');
+    assert.equal(hourOfDay(instant, la), 1);
+    assert.equal(startOfDay(instant, la).toISOString(), '2026-03-08T08:00:00.000Z');
+    assert.equal(startOfNextDay(instant, la).toISOString(), '2026-03-09T07:00:00.000Z');
+
+    const newYearsEve = new Date('2026-12-31T23:30:00Z');
+    assert.equal(dayKey(newYearsEve), '2026-12-31');
+    assert.equal(dayKey(newYearsEve, BERLIN), '2027-01-01');
+    assert.equal(nextDayKey(newYearsEve, BERLIN), '2027-01-02');
+  });
+
+  it("treats a bundle from before the user's midnight as stale", () => {
+    const midnight = startOfDay(new Date(), BERLIN);
+    const lastNight = makeBundle(arc, {
+      createdAt: Timestamp.fromMillis(midnight.getTime() - 60 * 1000),
+    });
+    const thisMorning = makeBundle(arc, { createdAt: Timestamp.fromDate(midnight) });
+
+    assert.equal(isBundleStale(lastNight, BERLIN), true);
+    assert.equal(isBundleStale(thisMorning, BERLIN), false);
+  });
+
+  it("GET /api/today regenerates yesterday's bundle on the user's own day boundary", async () => {
+    await repo.updateUserSettings(USER, { timezone: BERLIN });
+    const midnight = startOfDay(new Date(), BERLIN);
+    repo.put(
+      USER,
+      'dailyBundles',
+      makeBundle(arc, { createdAt: Timestamp.fromMillis(midnight.getTime() - 60 * 1000) })
+    );
+
+    const { res, captured } = mockResponse();
+    await handleGetToday(mockRequest(), res, USER, repo);
+
+    assert.deepEqual(captured.body, { status: 'generating' });
+    assert.equal((await repo.getBundle(USER, makeBundle(arc).id))?.generationStatus, 'pending');
+  });
+
+  it('saves a valid time zone and rejects an unknown one', async () => {
+    const saved = mockResponse();
+    await handleUpdateSettings(mockRequest({ body: { timezone: BERLIN } }), saved.res, USER, repo);
+    assert.equal((saved.captured.body as UserSettings).timezone, BERLIN);
+    assert.equal(await repo.getTimeZone(USER), BERLIN);
+
+    const rejected = mockResponse();
+    await handleUpdateSettings(
+      mockRequest({ body: { timezone: 'Mars/Olympus_Mons' } }),
+      rejected.res,
+      USER,
+      repo
+    );
+    assert.equal(rejected.captured.status, 400);
+    assert.equal(await repo.getTimeZone(USER), BERLIN);
+  });
+
+  it("resets budgets at the user's midnight", async () => {
+    const tokyo = 'Asia/Tokyo';
+    repo.putProfile(USER, { timezone: tokyo, budget: { messagesPerDay: 0 } });
+
+    const { res, captured } = mockResponse();
+    const allowed = await enforceBudget(
+      mockRequest({ method: 'POST', path: '/api/today/message' }),
+      res,
+      USER,
+      repo
+    );
+
+    assert.equal(allowed, false);
+    const body = captured.body as BudgetExceededResponse;
+    assert.equal(body.error.resetsAt, startOfNextDay(new Date(), tokyo).toISOString());
+  });
+});
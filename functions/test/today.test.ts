@@ -0,0 +1,252 @@
+import { describe, it, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeBundle, minutesAgo, daysAgo, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { bundleId, isBundleStale } from '../src/utils/firestore';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { handleGetToday } from '../src/api/today';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { Arc, DailyBundle, TodayResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+
+async function getToday() {
+  const { res, captured } = mockResponse();
+  await handleGetToday(mockRequest(), res, USER, repo);
+  return captured;
+}
+
+const storedBundles = () => repo.list<DailyBundle>(USER, 'dailyBundles');
+const storedBundle = (id: string) => storedBundles().find(b => b.id === id) ?? null;
+const putBundle = (b: DailyBundle) => repo.put(USER, 'dailyBundles', b);
+
+describe('GET /api/today bundle lifecycle', () => {
+  before(() => {
+    setLlmProvider(createFakeLlmProvider());
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+  });
+
+  it('plans season 1 on first load and creates a pending day-1 bundle', async () => {
+    const { status, body } = await getToday();
+
+    assert.equal(status, 200);
+    assert.deepEqual(body, { status: 'generating' });
+
+    const arcs = repo.list<Arc>(USER, 'arcs');
+    assert.equal(arcs.length, 12);
+    const active = arcs.filter(a => a.status === 'active');
+    assert.equal(active.length, 1);
+
+    const bundles = storedBundles();
+    assert.equal(bundles.length, 1);
+    assert.equal(bundles[0].arcId, active[0].id);
+    assert.equal(bundles[0].dayInArc, 1);
+    assert.equal(bundles[0].generationStatus, 'pending');
+    assert.equal(bundles[0].generationAttempts, 0);
+  });
+
+  it('returns 500 when the season has no active arc', async () => {
+    seedSeasonWithActiveArc(repo, USER, { status: 'completed' });
+
+    const { status } = await getToday();
+
+    assert.equal(status, 500);
+    assert.equal(storedBundles().length, 0);
+  });
+
+  it('creates the next day from the count of engaged bundles', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true }));
+    putBundle(makeBundle(arc, { dayInArc: 2, engaged: true }));
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    const created = storedBundle(bundleId(arc.id, 3));
+    assert.ok(created);
+    assert.equal(created.generationStatus, 'pending');
+  });
+
+  it('clamps the new day to the arc duration', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER, { targetDurationDays: 2 });
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true }));
+    putBundle(makeBundle(arc, { dayInArc: 2, engaged: true }));
+
+    const { status, body } = await getToday();
+
+    // Day 2 already exists (engaged), so the create loses to it and the
+    // handler reports 'generating' rather than minting a day 3.
+    assert.equal(status, 200);
+    assert.deepEqual(body, { status: 'generating' });
+    assert.equal(storedBundles().length, 2);
+  });
+
+  it('reports generating for a pending bundle without touching it', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const pending = makeBundle(arc, { generationStatus: 'pending', createdAt: minutesAgo(1) });
+    putBundle(pending);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    assert.deepEqual(storedBundle(pending.id), pending);
+  });
+
+  it('reports generating for an in-flight bundle within the watchdog window', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const generating = makeBundle(arc, { generationStatus: 'generating', createdAt: minutesAgo(5) });
+    putBundle(generating);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    assert.equal(storedBundle(generating.id)?.generationStatus, 'generating');
+    assert.equal(storedBundle(generating.id)?.generationAttempts, 0);
+  });
+
+  it('marks a stuck generating bundle failed and counts the attempt', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const stuck = makeBundle(arc, { generationStatus: 'generating', createdAt: minutesAgo(13) });
+    putBundle(stuck);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    const after = storedBundle(stuck.id);
+    assert.equal(after?.generationStatus, 'failed');
+    assert.equal(after?.generationAttempts, 1);
+  });
+
+  it('does not apply the watchdog to a long-pending bundle', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const pending = makeBundle(arc, { generationStatus: 'pending', createdAt: minutesAgo(30) });
+    putBundle(pending);
+
+    await getToday();
+
+    assert.equal(storedBundle(pending.id)?.generationStatus, 'pending');
+  });
+
+  it('retries a failed bundle below the attempt cap', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const failed = makeBundle(arc, {
+      generationStatus: 'failed',
+      generationAttempts: 2,
+      createdAt: minutesAgo(20),
+    });
+    putBundle(failed);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    const after = storedBundle(failed.id);
+    assert.equal(after?.generationStatus, 'pending');
+    assert.equal(after?.generationAttempts, 2);
+    assert.ok(after!.createdAt.toMillis() > failed.createdAt.toMillis());
+  });
+
+  it('gives up on a failed bundle at the attempt cap', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const failed = makeBundle(arc, { generationStatus: 'failed', generationAttempts: 3 });
+    putBundle(failed);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'failed' });
+    assert.equal(storedBundle(failed.id)?.generationStatus, 'failed');
+  });
+
+  it('treats a failed bundle with no recorded attempts as retryable', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const failed = makeBundle(arc, { generationStatus: 'failed' });
+    delete (failed as Partial<typeof failed>).generationAttempts;
+    putBundle(failed);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    assert.equal(storedBundle(failed.id)?.generationStatus, 'pending');
+  });
+
+  it("returns a ready bundle created today with its conversation", async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    const ready = makeBundle(arc, { dayInArc: 1 });
+    putBundle(ready);
+    const conversation = {
+      id: ready.id,
+      bundleId: ready.id,
+      messages: [],
+      lastActivity: ready.createdAt,
+      sessionEnded: false,
+    };
+    repo.put(USER, 'conversations', conversation);
+
+    const { body } = await getToday();
+
+    const response = body as Extract<TodayResponse, { status: 'ready' }>;
+    assert.equal(response.status, 'ready');
+    assert.deepEqual(response.bundle, ready);
+    assert.deepEqual(response.conversation, conversation);
+    assert.equal(response.arc.id, arc.id);
+    assert.equal(response.dayInArc, 1);
+  });
+
+  it('returns a null conversation for a ready bundle nobody has talked about', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    putBundle(makeBundle(arc));
+
+    const { body } = await getToday();
+
+    assert.equal((body as { status: string }).status, 'ready');
+    assert.equal((body as { conversation: unknown }).conversation, null);
+  });
+
+  it('resets a stale un-engaged bundle in place for regeneration', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+    putBundle(makeBundle(arc, { dayInArc: 1, engaged: true, createdAt: daysAgo(2) }));
+    const stale = makeBundle(arc, { dayInArc: 2, createdAt: daysAgo(1) });
+    putBundle(stale);
+
+    const { body } = await getToday();
+
+    assert.deepEqual(body, { status: 'generating' });
+    const after = storedBundle(stale.id);
+    assert.equal(after?.generationStatus, 'pending');
+    assert.equal(after?.dayInArc, 2);
+    assert.ok(!isBundleStale(after!));
+    assert.equal(storedBundles().length, 2);
+  });
+
+  it('lets exactly one of two concurrent first loads create the bundle', async () => {
+    const { arc } = seedSeasonWithActiveArc(repo, USER);
+
+    const [first, second] = await Promise.all([getToday(), getToday()]);
+
+    assert.deepEqual(first.body, { status: 'generating' });
+    assert.deepEqual(second.body, { status: 'generating' });
+    const bundles = storedBundles();
+    assert.equal(bundles.length, 1);
+    assert.equal(bundles[0].id, bundleId(arc.id, 1));
+  });
+
+  it('surfaces create errors other than ALREADY_EXISTS', async () => {
+    seedSeasonWithActiveArc(repo, USER);
+    repo.createPendingBundle = async () => {
+      throw Object.assign(new Error('14 UNAVAILABLE: connection reset'), { code: 14 });
+    };
+
+    const { status, body } = await getToday();
+
+    assert.equal(status, 500);
+    assert.deepEqual(body, { error: '14 UNAVAILABLE: connection reset' });
+  });
+});
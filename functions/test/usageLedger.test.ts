@@ -0,0 +1,163 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { daysAgo, makeBundle, seedSeasonWithActiveArc } from './support/fixtures';
+import { mockRequest, mockResponse } from './support/http';
+import { handleGetUsage } from '../src/api/usage';
+import { handleMessage } from '../src/services/conversationManager';
+import { generateBundleContent } from '../src/services/bundleGenerator';
+import { estimateCostUsd, summarizeUsage } from '../src/services/usageLedger';
+import { createMemoryRepository, MemoryRepository } from '../src/repository';
+import { setLlmProvider } from '../src/services/llmProvider';
+import { createFakeLlmProvider } from '../src/services/fakeLlmProvider';
+import { Arc, LlmUsageRecord, UsageSummaryResponse } from '../src/types';
+
+const USER = 'user-1';
+
+let repo: MemoryRepository;
+let arc: Arc;
+
+function usageRecord(overrides: Partial<LlmUsageRecord> = {}): LlmUsageRecord {
+  return {
+    id: `usage-${Math.random().toString(36).slice(2)}`,
+    purpose: 'conversation',
+    model: 'claude-opus-4-7',
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    webSearches: 0,
+    latencyMs: 500,
+    createdAt: Timestamp.now(),
+    ...overrides,
+  };
+}
+
+const ledger = () => repo.list<LlmUsageRecord>(USER, 'llmUsage');
+
+describe('LLM usage ledger', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  beforeEach(() => {
+    repo = createMemoryRepository();
+    setLlmProvider(createFakeLlmProvider());
+    ({ arc } = seedSeasonWithActiveArc(repo, USER));
+  });
+
+  after(() => {
+    setLlmProvider(null);
+    mock.restoreAll();
+  });
+
+  it('records every turn of a conversation tool loop', async () => {
+    // "goodbye" makes the guide call conclude_session, then reply: two calls.
+    await handleMessage(USER, 'Thanks, goodbye!', makeBundle(arc), arc, repo);
+
+    const records = ledger();
+    assert.equal(records.length, 2);
+    for (const record of records) {
+      assert.equal(record.purpose, 'conversation');
+      assert.equal(record.model, 'claude-opus-4-7');
+      assert.ok(record.inputTokens > 0);
+      assert.ok(record.outputTokens > 0);
+      assert.equal(record.cacheReadTokens, 0);
+      assert.equal(record.webSearches, 0);
+      assert.ok(record.latencyMs >= 0);
+    }
+  });
+
+  it('tags bundle generation with its purpose', async () => {
+    await generateBundleContent(USER, arc, 1, repo);
+
+    assert.deepEqual(
+      ledger().map(r => r.purpose),
+      ['bundle_generation']
+    );
+  });
+
+  it('never fails the call when the ledger write fails', async () => {
+    repo.recordLlmUsage = async () => {
+      throw new Error('quota exceeded');
+    };
+
+    const result = await handleMessage(USER, 'Hello', makeBundle(arc), arc, repo);
+
+    assert.ok(result.response.length > 0);
+  });
+
+  it('summarizes by day and purpose, newest day first', () => {
+    const today = Timestamp.now();
+    const yesterday = daysAgo(1);
+    const summary = summarizeUsage(
+      [
+        usageRecord({ createdAt: today, purpose: 'conversation' }),
+        usageRecord({ createdAt: today, purpose: 'bundle_generation', webSearches: 3 }),
+        usageRecord({ createdAt: yesterday, purpose: 'conversation', cacheReadTokens: 4000 }),
+      ],
+      7
+    );
+
+    assert.equal(summary.days, 7);
+    assert.equal(summary.totals.calls, 3);
+    assert.equal(summary.byPurpose.conversation?.calls, 2);
+    assert.equal(summary.byPurpose.bundle_generation?.webSearches, 3);
+    assert.deepEqual(
+      summary.byDay.map(d => d.totals.calls),
+      [2, 1]
+    );
+    assert.ok(summary.byDay[0].date > summary.byDay[1].date);
+    assert.equal(summary.byDay[1].byPurpose.conversation?.cacheReadTokens, 4000);
+  });
+
+  it("groups by the user's calendar day, not the UTC one", () => {
+    // Evening of the 1st in Los Angeles, already the 2nd in UTC.
+    const evening = Timestamp.fromDate(new Date('2026-01-02T03:00:00Z'));
+    const summary = summarizeUsage([usageRecord({ createdAt: evening })], 7, 'America/Los_Angeles');
+
+    assert.deepEqual(
+      summary.byDay.map(d => d.date),
+      ['2026-01-01']
+    );
+  });
+
+  it('prices tokens, cache traffic and web searches', () => {
+    // 1M input ($5) + 1M output ($25) + 1M cache reads ($0.50) + 2 searches ($0.02).
+    const cost = estimateCostUsd({
+      model: 'claude-opus-4-7',
+      inputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+      cacheReadTokens: 1_000_000,
+      cacheWriteTokens: 0,
+      webSearches: 2,
+    });
+    assert.equal(cost, 30.52);
+  });
+
+  it('GET /api/user/usage returns the window the client asked for', async () => {
+    repo.put(USER, 'llmUsage', usageRecord({ createdAt: daysAgo(2) }));
+    repo.put(USER, 'llmUsage', usageRecord({ createdAt: daysAgo(20) }));
+
+    const { res, captured } = mockResponse();
+    await handleGetUsage(mockRequest({ query: { days: '7' } }), res, USER, repo);
+
+    const summary = captured.body as UsageSummaryResponse;
+    assert.equal(captured.status, 200);
+    assert.equal(summary.days, 7);
+    assert.equal(summary.totals.calls, 1);
+    assert.equal(summary.totals.estimatedCostUsd, 0.01);
+  });
+
+  it('GET /api/user/usage clamps the window', async () => {
+    const { res, captured } = mockResponse();
+    await handleGetUsage(mockRequest({ query: { days: '1000' } }), res, USER, repo);
+    assert.equal((captured.body as UsageSummaryResponse).days, 90);
+
+    const fallback = mockResponse();
+    await handleGetUsage(mockRequest(), fallback.res, USER, repo);
+    assert.equal((fallback.captured.body as UsageSummaryResponse).days, 30);
+  });
+});
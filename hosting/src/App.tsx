@@ -6,8 +6,17 @@ import TodayView from './views/TodayView';
 import HistoryView from './views/HistoryView';
 import CourseView from './views/CourseView';
 import ConversationHistoryView from './views/ConversationHistoryView';
+import SearchView from './views/SearchView';
 import AboutView from './views/AboutView';
-import { register, forgotPassword, getUserProfile, markAboutAsSeen as markAboutAsSeenAPI } from './api/client';
+import AdminView from './views/AdminView';
+import SettingsView from './views/SettingsView';
+import {
+  register,
+  forgotPassword,
+  getUserProfile,
+  markAboutAsSeen as markAboutAsSeenAPI,
+  updateSettings,
+} from './api/client';
 
 // Firebase config - replace with your project's config
 const firebaseConfig = {
@@ -224,6 +233,7 @@ function App() {
   const [loading, setLoading] = useState(true);
   const [showAboutFirst, setShowAboutFirst] = useState(false);
   const [profileChecked, setProfileChecked] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
@@ -232,6 +242,7 @@ function App() {
       if (!user) {
         setShowAboutFirst(false);
         setProfileChecked(false);
+        setIsAdmin(false);
       }
     });
     return () => unsubscribe();
@@ -244,6 +255,14 @@ function App() {
 
       try {
         const profile = await getUserProfile();
+        setIsAdmin(profile.isAdmin);
+        // Days start at midnight in the user's zone; default it to this device's.
+        if (!profile.timezone) {
+          const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+          updateSettings({ timezone }).catch((err) =>
+            console.error('[App] Failed to set time zone:', err)
+          );
+        }
         if (!profile.hasSeenAbout) {
           setShowAboutFirst(true);
           await markAboutAsSeenAPI();
@@ -302,8 +321,11 @@ function App() {
           <a href="/">Today</a>
           <a href="/course">Course</a>
           <a href="/history">History</a>
+          <a href="/search">Search</a>
         </div>
         <div className="nav-right">
+          {isAdmin && <a href="/admin">Admin</a>}
+          <a href="/settings">Settings</a>
           <a href="/about">About</a>
           <button className="logout-link" onClick={handleLogout}>
             Logout
@@ -317,7 +339,10 @@ function App() {
           <Route path="/course" element={<CourseView />} />
           <Route path="/history" element={<HistoryView />} />
           <Route path="/history/:bundleId/conversation" element={<ConversationHistoryView />} />
+          <Route path="/search" element={<SearchView />} />
           <Route path="/about" element={<AboutView />} />
+          <Route path="/settings" element={<SettingsView />} />
+          {isAdmin && <Route path="/admin" element={<AdminView />} />}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </main>
@@ -50,17 +50,23 @@ export interface Season {
   id: string;
   seasonNumber: number;
   status: 'active' | 'completed';
+  arcsPerSeason?: number;
+  arcDurationDays?: number;
+  memoryProfile?: UserMemoryProfile; // Derived when the season ended
 }
 
 export interface Arc {
   id: string;
   seasonId: string;
-  orderInSeason: number; // 1-12
+  orderInSeason: number; // 1-arcsPerSeason
   status: 'planned' | 'active' | 'completed';
   theme: string;
   description: string;
   shortDescription: string; // One-sentence summary for UI display
   targetDurationDays: number;
+  startDate?: SerializedTimestamp;
+  completedDate?: SerializedTimestamp;
+  retrospective?: string; // Markdown, written when the arc completes
 }
 
 export interface SuggestedReading {
@@ -115,8 +121,22 @@ export interface DailyBundle {
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
+  clientMessageId?: string;
+  images?: ImageAttachment[]; // On user turns; content may then be empty
 }
 
+// An image the user uploaded to send with a message (uploadAttachment).
+export interface ImageAttachment {
+  id: string;
+  mediaType: string;
+  size: number;
+  createdAt: SerializedTimestamp;
+}
+
+// Formats the guide can read, and its size limit per image.
+export const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
 export interface Conversation {
   id: string;
   bundleId: string;
@@ -133,15 +153,27 @@ export type TodayResponse =
       arc: Arc;
       dayInArc: number;
     }
-  | { status: 'failed' };
+  | { status: 'failed' }
+  | { status: 'rest'; nextEncounter: string } // YYYY-MM-DD, user's time zone
+  | {
+      status: 'catch_up'; // back after a long absence; answer with catchUp()
+      arc: Arc;
+      dayInArc: number;
+      daysAway: number;
+      nextArc: { theme: string; shortDescription: string } | null;
+    };
 
 export type TodayReadyResponse = Extract<TodayResponse, { status: 'ready' }>;
+export type TodayCatchUpResponse = Extract<TodayResponse, { status: 'catch_up' }>;
+
+export type CatchUpChoice = 'resume' | 'restart' | 'skip';
 
 export interface MessageResponse {
   response: string;
   conversation: Conversation;
   sessionShouldEnd?: boolean;
   arcShouldEnd?: boolean;
+  replayed?: boolean; // A retry of a message that had already been answered
 }
 
 export interface EndSessionResponse {
@@ -155,6 +187,31 @@ export interface SeasonResponse {
   arcs: Arc[];
 }
 
+export interface UserMemoryProfile {
+  intellectualLeanings: string[];
+  notes: string;
+  derivedAt: SerializedTimestamp;
+  fromSeasonNumber: number;
+}
+
+export interface SeasonSummary {
+  season: Season;
+  arcCount: number;
+  completedArcCount: number;
+  startDate: SerializedTimestamp | null;
+  endDate: SerializedTimestamp | null;
+}
+
+export interface SeasonsResponse {
+  seasons: SeasonSummary[];
+}
+
+export interface SeasonDetailResponse {
+  season: Season;
+  arcs: Arc[];
+  memoryProfile: UserMemoryProfile | null;
+}
+
 export interface SeasonSteerMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -172,16 +229,159 @@ export async function getToday(): Promise<TodayResponse> {
   return fetchAPI<TodayResponse>('/today');
 }
 
+/**
+ * A fresh id for a message about to be sent. Resend it with the same message
+ * on retry: the server answers a repeat with the reply it already gave.
+ */
+export function newClientMessageId(): string {
+  return crypto.randomUUID();
+}
+
 export async function sendMessage(
   message: string,
-  bundleId?: string
+  bundleId?: string,
+  clientMessageId?: string,
+  imageIds?: string[]
 ): Promise<MessageResponse> {
   return fetchAPI<MessageResponse>('/today/message', {
     method: 'POST',
-    body: JSON.stringify({ message, bundleId }),
+    body: JSON.stringify({ message, bundleId, clientMessageId, imageIds }),
   });
 }
 
+/**
+ * Streaming variant of sendMessage. The guide's reply arrives as Server-Sent
+ * Events: `onDelta` is called with each text fragment, and the promise
+ * resolves with the closing `done` payload (the persisted conversation). A
+ * replayed reply arrives whole, without deltas.
+ */
+export async function sendMessageStream(
+  message: string,
+  bundleId: string | undefined,
+  onDelta: (text: string) => void,
+  clientMessageId?: string,
+  imageIds?: string[]
+): Promise<MessageResponse> {
+  console.log('[API] POST /today/message/stream', { message, bundleId, clientMessageId, imageIds });
+
+  const token = await getAuthToken();
+
+  const response = await fetch(`${API_BASE}/today/message/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ message, bundleId, clientMessageId, imageIds }),
+  });
+
+  // Errors before the stream opens come back as plain JSON.
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => ({ error: 'Request failed' }));
+    console.error('[API] POST /today/message/stream failed:', response.status, errorBody);
+    const errorMessage = typeof errorBody.error === 'string'
+      ? errorBody.error
+      : JSON.stringify(errorBody);
+    throw new Error(`${response.status} ${errorMessage}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: MessageResponse | null = null;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event buffered.
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'delta') {
+        onDelta(payload.text);
+      } else if (event === 'done') {
+        result = payload as MessageResponse;
+      } else if (event === 'error') {
+        throw new Error(`500 ${payload.error}`);
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error('Message stream ended unexpectedly');
+  }
+  console.log('[API] POST /today/message/stream response:', result);
+  return result;
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // A data URL: strip the "data:<type>;base64," prefix.
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Uploads an image to send with a message (its id goes in imageIds).
+export async function uploadAttachment(file: File): Promise<ImageAttachment> {
+  const data = await readAsBase64(file);
+  const token = await getAuthToken();
+  console.log('[API] POST /attachments', { mediaType: file.type, size: file.size });
+
+  // Not fetchAPI, which logs the request body.
+  const response = await fetch(`${API_BASE}/attachments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ mediaType: file.type, data }),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ error: 'Request failed' }));
+    console.error('[API] POST /attachments failed:', response.status, errorBody);
+    throw new Error(`${response.status} ${errorBody.error || 'Request failed'}`);
+  }
+
+  const { attachment } = (await response.json()) as { attachment: ImageAttachment };
+  return attachment;
+}
+
+// Not fetchAPI: the image is bytes, fetched with the auth header (which an
+// <img src> can't send). Returns an object URL; revoke it when done.
+export async function getAttachmentUrl(attachmentId: string): Promise<string> {
+  const path = `/attachments/${encodeURIComponent(attachmentId)}`;
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ error: 'Request failed' }));
+    console.error(`[API] GET ${path} failed:`, response.status, errorBody);
+    throw new Error(`${response.status} ${errorBody.error || 'Request failed'}`);
+  }
+
+  return URL.createObjectURL(await response.blob());
+}
+
 export async function endSession(bundleId?: string): Promise<EndSessionResponse> {
   return fetchAPI<EndSessionResponse>('/today/end-session', {
     method: 'POST',
@@ -196,12 +396,27 @@ export async function endArcEarly(bundleId?: string): Promise<EndSessionResponse
   });
 }
 
+export async function catchUp(choice: CatchUpChoice): Promise<{ arc: Arc }> {
+  return fetchAPI<{ arc: Arc }>('/arc/catch-up', {
+    method: 'POST',
+    body: JSON.stringify({ choice }),
+  });
+}
+
 // Season
 
 export async function getSeason(): Promise<SeasonResponse> {
   return fetchAPI<SeasonResponse>('/season');
 }
 
+export async function getSeasons(): Promise<SeasonsResponse> {
+  return fetchAPI<SeasonsResponse>('/seasons');
+}
+
+export async function getSeasonById(seasonId: string): Promise<SeasonDetailResponse> {
+  return fetchAPI<SeasonDetailResponse>(`/seasons/${encodeURIComponent(seasonId)}`);
+}
+
 export async function sendSeasonSteerMessage(
   message: string,
   conversationHistory: SeasonSteerMessage[]
@@ -219,6 +434,8 @@ export interface ArcSummary {
   theme: string;
   description: string;
   shortDescription?: string;
+  status?: Arc['status'] | null; // null for legacy bundles with no arc
+  retrospective?: string | null;
 }
 
 export interface ArcWithBundles {
@@ -229,6 +446,7 @@ export interface ArcWithBundles {
 export interface HistoryResponse {
   arcGroups: ArcWithBundles[];
   bundles: DailyBundle[];
+  nextCursor: string | null; // `before` for the next, older page
 }
 
 export async function getHistory(
@@ -253,12 +471,94 @@ export interface ConversationHistoryResponse {
     targetDurationDays: number;
   } | null;
   dayInArc: number;
+  // Pass as `before` for the messages preceding these; null from the first.
+  nextCursor: number | null;
 }
 
 export async function getConversationHistory(
-  bundleId: string
+  bundleId: string,
+  before?: number
 ): Promise<ConversationHistoryResponse> {
-  return fetchAPI<ConversationHistoryResponse>(`/history/${bundleId}/conversation`);
+  const query = before !== undefined ? `?before=${before}` : '';
+  return fetchAPI<ConversationHistoryResponse>(`/history/${bundleId}/conversation${query}`);
+}
+
+// Export
+
+export type ExportFormat = 'json' | 'markdown' | 'epub';
+
+// Not fetchAPI: the export is a file, not JSON. Fetched with the auth header
+// (which a plain link can't send) and handed to the browser as a download.
+export async function downloadExport(format: ExportFormat): Promise<void> {
+  const path = `/export?format=${format}`;
+  console.log(`[API] GET ${path}`);
+
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ error: 'Request failed' }));
+    console.error(`[API] GET ${path} failed:`, response.status, errorBody);
+    throw new Error(`${response.status} ${errorBody.error || 'Request failed'}`);
+  }
+
+  const blob = await response.blob();
+  const filename =
+    response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+    `personal-primer.${format}`;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export interface ImportResponse {
+  imported: Record<
+    'seasons' | 'arcs' | 'bundles' | 'exposures' | 'conversations' | 'sessionInsights',
+    number
+  >;
+}
+
+// Restores a JSON export into an account with no encounters yet.
+export async function importArchive(archive: unknown): Promise<ImportResponse> {
+  return fetchAPI<ImportResponse>('/import', {
+    method: 'POST',
+    body: JSON.stringify(archive),
+  });
+}
+
+// Search
+
+export type SearchField = 'music' | 'image' | 'text' | 'framing' | 'conversation' | 'summary';
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) offsets of matched words
+}
+
+export interface SearchResult {
+  bundleId: string;
+  arcId: string;
+  arcTheme: string | null;
+  dayInArc: number;
+  createdAt: SerializedTimestamp;
+  snippets: SearchSnippet[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+export async function search(q: string, limit?: number): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q });
+  if (limit) params.set('limit', String(limit));
+  return fetchAPI<SearchResponse>(`/search?${params.toString()}`);
 }
 
 // Auth API functions (no auth token required for these)
@@ -310,6 +610,8 @@ export async function resendVerification(): Promise<{ success: boolean; message:
 export interface UserProfileResponse {
   hasSeenAbout: boolean;
   voicePreference: string | null;
+  timezone: string | null; // null until set; see App's profile check
+  isAdmin: boolean;
 }
 
 export async function getUserProfile(): Promise<UserProfileResponse> {
@@ -321,3 +623,97 @@ export async function markAboutAsSeen(): Promise<{ success: boolean }> {
     method: 'POST',
   });
 }
+
+// Settings API functions
+
+export interface DigestSettings {
+  enabled: boolean;
+  sendHour: number; // 0-23, in the user's time zone
+}
+
+// Arc count and length for the next course planned.
+export interface SeasonShape {
+  arcsPerSeason: number;
+  arcDurationDays: number;
+}
+
+// Days of the week (0 = Sunday … 6 = Saturday) that bring a new encounter.
+export interface CadenceSettings {
+  days: number[];
+}
+
+export interface UserSettings {
+  digest: DigestSettings;
+  timezone: string; // IANA, e.g. "Europe/Berlin"
+  nextSeason: SeasonShape;
+  cadence: CadenceSettings;
+}
+
+export async function getSettings(): Promise<UserSettings> {
+  return fetchAPI<UserSettings>('/user/settings');
+}
+
+export async function updateSettings(
+  settings: {
+    digest?: Partial<DigestSettings>;
+    timezone?: string;
+    nextSeason?: Partial<SeasonShape>;
+    cadence?: CadenceSettings;
+  }
+): Promise<UserSettings> {
+  return fetchAPI<UserSettings>('/user/settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings),
+  });
+}
+
+// Admin API functions (require the `admin` custom claim)
+
+// Firestore Timestamps arrive as their JSON serialization.
+export interface SerializedTimestamp {
+  _seconds: number;
+  _nanoseconds: number;
+}
+
+export interface AllowedEmail {
+  email: string;
+  addedAt: SerializedTimestamp;
+  addedBy: string;
+}
+
+export interface AllowedEmailsResponse {
+  allowedEmails: AllowedEmail[];
+}
+
+export interface AdminUserSummary {
+  userId: string;
+  email: string;
+  createdAt: SerializedTimestamp;
+  activeSeason: { id: string; seasonNumber: number } | null;
+  activeArc: { id: string; theme: string; orderInSeason: number; dayInArc: number } | null;
+}
+
+export interface AdminUsersResponse {
+  users: AdminUserSummary[];
+}
+
+export async function getAllowedEmails(): Promise<AllowedEmailsResponse> {
+  return fetchAPI<AllowedEmailsResponse>('/admin/allowed-emails');
+}
+
+export async function addAllowedEmail(email: string): Promise<AllowedEmailsResponse> {
+  return fetchAPI<AllowedEmailsResponse>('/admin/allowed-emails', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+export async function removeAllowedEmail(email: string): Promise<AllowedEmailsResponse> {
+  return fetchAPI<AllowedEmailsResponse>(`/admin/allowed-emails/${encodeURIComponent(email)}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getAdminUsers(): Promise<AdminUsersResponse> {
+  return fetchAPI<AdminUsersResponse>('/admin/users');
+}
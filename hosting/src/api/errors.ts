@@ -23,6 +23,18 @@ interface AnthropicError {
   request_id?: string;
 }
 
+// The backend's 429 for a spent daily budget, shaped like an Anthropic error.
+interface BudgetExceededError extends AnthropicError {
+  error: {
+    type: 'budget_exceeded';
+    message: string;
+    limit: string;
+    used: number;
+    max: number;
+    resetsAt: string;
+  };
+}
+
 /**
  * Parse an error message or object into a user-friendly format.
  */
@@ -35,6 +47,9 @@ export function parseError(error: unknown): ParsedError {
     const [, statusCode, jsonPart] = jsonMatch;
     try {
       const parsed = JSON.parse(jsonPart) as AnthropicError;
+      if (parsed.type === 'error' && parsed.error?.type === 'budget_exceeded') {
+        return parseBudgetError(parsed as BudgetExceededError, statusCode);
+      }
       if (parsed.type === 'error' && parsed.error) {
         return parseAnthropicError(parsed, statusCode);
       }
@@ -44,6 +59,15 @@ export function parseError(error: unknown): ParsedError {
   }
 
   // Check for specific error patterns
+  if (errorString.includes('still being answered')) {
+    return {
+      userMessage: "This message is still being answered. Retry in a moment to see the reply.",
+      developerInfo: `Server 409: ${errorString.slice(0, 150)}`,
+      isRetryable: true,
+      code: '409',
+    };
+  }
+
   if (errorString.includes('overloaded') || errorString.includes('529')) {
     return {
       userMessage: "Claude API is temporarily overloaded. Please try again in a moment.",
@@ -174,3 +198,18 @@ function parseAnthropicError(error: AnthropicError, statusCode: string): ParsedE
       };
   }
 }
+
+function parseBudgetError(error: BudgetExceededError, statusCode: string): ParsedError {
+  const { message, limit, used, max, resetsAt } = error.error;
+  const resetTime = new Date(resetsAt).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return {
+    userMessage: `${message} It resets at ${resetTime}.`,
+    developerInfo: `Budget ${statusCode}: ${limit} ${used}/${max}, resets ${resetsAt}`,
+    isRetryable: false,
+    code: statusCode,
+  };
+}
@@ -1,6 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
 import Markdown from 'react-markdown';
-import { sendMessage, endSession, endArcEarly, Conversation, ConversationMessage, SuggestedReading, ArcCompletionData } from '../api/client';
+import {
+  sendMessageStream,
+  newClientMessageId,
+  uploadAttachment,
+  endSession,
+  endArcEarly,
+  Conversation,
+  ConversationMessage,
+  ImageAttachment,
+  IMAGE_MEDIA_TYPES,
+  MAX_IMAGE_BYTES,
+  SuggestedReading,
+  ArcCompletionData,
+} from '../api/client';
+import { parseError } from '../api/errors';
+import MessageImages from './MessageImages';
+
+const MAX_IMAGES_PER_MESSAGE = 3;
 
 interface ChatInterfaceProps {
   initialConversation: Conversation | null;
@@ -11,18 +28,49 @@ interface ChatInterfaceProps {
   forceSessionEnded?: boolean;
 }
 
+// A message as shown here: messages sent from this page carry their delivery
+// state until the server's conversation confirms them.
+interface ChatMessage extends ConversationMessage {
+  delivery?: 'pending' | 'sent' | 'failed';
+  error?: string;
+}
+
+/**
+ * Take the server's conversation as the truth, keeping the delivery state of
+ * messages sent from this page and any failed ones the server never saw.
+ */
+function reconcile(local: ChatMessage[], server: ConversationMessage[]): ChatMessage[] {
+  const localById = new Map(
+    local.filter(m => m.clientMessageId).map(m => [m.clientMessageId, m])
+  );
+  const merged: ChatMessage[] = server.map(m => {
+    const mine = m.clientMessageId ? localById.get(m.clientMessageId) : undefined;
+    return mine ? { ...m, delivery: 'sent' } : m;
+  });
+  const onServer = new Set(server.map(m => m.clientMessageId).filter(Boolean));
+  const unsent = local.filter(m => m.delivery === 'failed' && !onServer.has(m.clientMessageId));
+  return [...merged, ...unsent];
+}
+
 function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded, bundleId, initialSuggestedReading, initialArcCompletion, forceSessionEnded }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<ConversationMessage[]>(
+  const [messages, setMessages] = useState<ChatMessage[]>(
     initialConversation?.messages || []
   );
   const [input, setInput] = useState('');
+  // Images uploaded for the message being written.
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
+  // The guide's reply as it streams in; null until the first token arrives.
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const [sessionEnded, setSessionEnded] = useState(initialSessionEnded);
   const [ending, setEnding] = useState(false);
   const [suggestedReading, setSuggestedReading] = useState<SuggestedReading | undefined>(initialSuggestedReading);
   const [arcCompletion, setArcCompletion] = useState<ArcCompletionData | undefined>(initialArcCompletion);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const suggestedReadingRef = useRef<HTMLDivElement>(null);
   const arcCompletionRef = useRef<HTMLDivElement>(null);
 
@@ -50,7 +98,7 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
     if (messagesEndRef.current && messages.length > 0) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth', block: 'end' });
     }
-  }, [messages, sending]);
+  }, [messages, sending, streamingReply]);
 
   // Auto-scroll to arc completion when it appears
   useEffect(() => {
@@ -70,29 +118,108 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
     }
   }, [suggestedReading, arcCompletion]);
 
+  const setDelivery = (clientMessageId: string, delivery: ChatMessage['delivery'], error?: string) => {
+    setMessages((prev) => prev.map((m) =>
+      m.clientMessageId === clientMessageId ? { ...m, delivery, error } : m
+    ));
+  };
+
+  const handleAttach = async (files: FileList | null) => {
+    const chosen = Array.from(files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (chosen.length === 0) return;
+
+    setUploadError(null);
+    if (attachments.length + chosen.length > MAX_IMAGES_PER_MESSAGE) {
+      setUploadError(`Up to ${MAX_IMAGES_PER_MESSAGE} images per message.`);
+      return;
+    }
+    const unsupported = chosen.find((f) => !IMAGE_MEDIA_TYPES.includes(f.type));
+    if (unsupported) {
+      setUploadError(`${unsupported.name} isn't a JPEG, PNG, GIF or WebP image.`);
+      return;
+    }
+    const tooLarge = chosen.find((f) => f.size > MAX_IMAGE_BYTES);
+    if (tooLarge) {
+      setUploadError(`${tooLarge.name} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of chosen) {
+        const attachment = await uploadAttachment(file);
+        setAttachments((prev) => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('[ChatInterface] Image upload failed:', error);
+      setUploadError(parseError(error).userMessage);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const canSend = (!!input.trim() || attachments.length > 0) && !sending && !uploading;
+
   const handleSend = async () => {
-    if (!input.trim() || sending || sessionEnded) {
-      console.log('[ChatInterface] handleSend blocked:', { empty: !input.trim(), sending, sessionEnded });
+    if (!canSend || sessionEnded) {
+      console.log('[ChatInterface] handleSend blocked:', { empty: !input.trim(), sending, uploading, sessionEnded });
       return;
     }
 
     const userMessage = input.trim();
-    console.log('[ChatInterface] Sending message:', userMessage.substring(0, 50) + (userMessage.length > 50 ? '...' : ''));
+    const images = attachments;
+    const clientMessageId = newClientMessageId();
     setInput('');
-    setSending(true);
+    setAttachments([]);
+    setUploadError(null);
 
     // Optimistically add user message
-    setMessages((prev) => [...prev, { role: 'user', content: userMessage }]);
+    setMessages((prev) => [
+      ...prev,
+      {
+        role: 'user',
+        content: userMessage,
+        clientMessageId,
+        ...(images.length > 0 && { images }),
+        delivery: 'pending',
+      },
+    ]);
+    await deliver(clientMessageId, userMessage, images);
+  };
+
+  // Retrying reuses the message's id, so a reply the server already produced
+  // is returned rather than generated (and stored) a second time.
+  const handleRetry = async (msg: ChatMessage) => {
+    if (!msg.clientMessageId || sending || sessionEnded) return;
+    // Move the message to the end, where its reply will appear
+    setMessages((prev) => [
+      ...prev.filter((m) => m.clientMessageId !== msg.clientMessageId),
+      { ...msg, delivery: 'pending', error: undefined },
+    ]);
+    await deliver(msg.clientMessageId, msg.content, msg.images || []);
+  };
+
+  const handleDiscard = (clientMessageId: string) => {
+    setMessages((prev) => prev.filter((m) => m.clientMessageId !== clientMessageId));
+  };
+
+  const deliver = async (clientMessageId: string, userMessage: string, images: ImageAttachment[]) => {
+    console.log('[ChatInterface] Sending message:', userMessage.substring(0, 50) + (userMessage.length > 50 ? '...' : ''));
+    setSending(true);
 
     try {
-      const response = await sendMessage(userMessage, bundleId);
+      const response = await sendMessageStream(userMessage, bundleId, (text) => {
+        setStreamingReply((prev) => (prev ?? '') + text);
+      }, clientMessageId, images.map((image) => image.id));
       console.log('[ChatInterface] Message response:', {
         messageCount: response.conversation.messages.length,
         sessionShouldEnd: response.sessionShouldEnd,
         arcShouldEnd: response.arcShouldEnd,
+        replayed: !!response.replayed,
       });
 
-      setMessages(response.conversation.messages);
+      setMessages((prev) => reconcile(prev, response.conversation.messages));
 
       // Auto-end session (or arc) if the guide signalled a natural close
       if (response.sessionShouldEnd) {
@@ -122,9 +249,10 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
       }
     } catch (error) {
       console.error('[ChatInterface] Send message failed:', error);
-      // Remove optimistic message on error
-      setMessages((prev) => prev.slice(0, -1));
+      // Keep the message, marked failed, so it can be retried as-is
+      setDelivery(clientMessageId, 'failed', parseError(error).userMessage);
     } finally {
+      setStreamingReply(null);
       setSending(false);
     }
   };
@@ -169,17 +297,43 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
 
       <div className="messages">
         {messages.map((msg, index) => (
-          <div key={index} className={`message ${msg.role}`}>
+          <div
+            key={msg.clientMessageId ?? index}
+            className={`message ${msg.role}${msg.delivery === 'failed' ? ' failed' : ''}`}
+          >
+            <MessageImages images={msg.images} />
+            {msg.content && (
+              <div className="message-content">
+                {msg.role === 'assistant' ? (
+                  <Markdown>{msg.content}</Markdown>
+                ) : (
+                  msg.content
+                )}
+              </div>
+            )}
+            {msg.delivery === 'pending' && <p className="message-status">Sending</p>}
+            {msg.delivery === 'sent' && <p className="message-status">Sent</p>}
+            {msg.delivery === 'failed' && (
+              <p className="message-status failed">
+                {msg.error}
+                {!sessionEnded && (
+                  <>
+                    <button onClick={() => handleRetry(msg)} disabled={sending}>Retry</button>
+                    <button onClick={() => handleDiscard(msg.clientMessageId!)}>Discard</button>
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+        ))}
+        {sending && streamingReply !== null && (
+          <div className="message assistant">
             <div className="message-content">
-              {msg.role === 'assistant' ? (
-                <Markdown>{msg.content}</Markdown>
-              ) : (
-                msg.content
-              )}
+              <Markdown>{streamingReply}</Markdown>
             </div>
           </div>
-        ))}
-        {sending && (
+        )}
+        {sending && streamingReply === null && (
           <div className="message assistant">
             <div className="message-content typing">Thinking</div>
           </div>
@@ -223,13 +377,26 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
         </div>
       ) : (
         <div className="chat-input-area">
+          {uploadError && <p className="chat-error">{uploadError}</p>}
+          {attachments.length > 0 && (
+            <div className="pending-attachments">
+              <MessageImages images={attachments} />
+              <button
+                className="clear-attachments"
+                onClick={() => setAttachments([])}
+                disabled={sending}
+              >
+                Remove {attachments.length === 1 ? 'image' : 'images'}
+              </button>
+            </div>
+          )}
           <textarea
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => {
               if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
                 e.preventDefault();
-                if (input.trim() && !sending) {
+                if (canSend) {
                   handleSend();
                 }
               }
@@ -239,9 +406,24 @@ function ChatInterface({ initialConversation, sessionEnded: initialSessionEnded,
             rows={2}
           />
           <div className="chat-actions">
-            <button onClick={handleSend} disabled={!input.trim() || sending}>
+            <button onClick={handleSend} disabled={!canSend}>
               Send
             </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={IMAGE_MEDIA_TYPES.join(',')}
+              multiple
+              hidden
+              onChange={(e) => handleAttach(e.target.files)}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending || uploading || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+              className="attach-image"
+            >
+              {uploading ? 'Uploading' : 'Add image'}
+            </button>
             <button
               onClick={handleEndSession}
               disabled={messages.length === 0}
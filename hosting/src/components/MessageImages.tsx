@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { getAttachmentUrl, ImageAttachment } from '../api/client';
+
+function AttachmentImage({ attachment }: { attachment: ImageAttachment }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    getAttachmentUrl(attachment.id)
+      .then((loaded) => {
+        objectUrl = loaded;
+        if (cancelled) {
+          URL.revokeObjectURL(loaded);
+        } else {
+          setUrl(loaded);
+        }
+      })
+      .catch((err) => {
+        console.error(`[MessageImages] Failed to load image ${attachment.id}:`, err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id]);
+
+  if (failed) {
+    return <span className="message-image unavailable">Image unavailable</span>;
+  }
+  if (!url) {
+    return <span className="message-image loading" />;
+  }
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img src={url} alt="Shared image" className="message-image" />
+    </a>
+  );
+}
+
+// The images a user sent with a message, loaded through the API.
+function MessageImages({ images }: { images?: ImageAttachment[] }) {
+  if (!images || images.length === 0) return null;
+  return (
+    <div className="message-images">
+      {images.map((image) => (
+        <AttachmentImage key={image.id} attachment={image} />
+      ))}
+    </div>
+  );
+}
+
+export default MessageImages;
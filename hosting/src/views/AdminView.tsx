@@ -0,0 +1,175 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  getAllowedEmails,
+  addAllowedEmail,
+  removeAllowedEmail,
+  getAdminUsers,
+  AllowedEmail,
+  AdminUserSummary,
+  SerializedTimestamp,
+} from '../api/client';
+import { parseError } from '../api/errors';
+import ErrorDisplay from '../components/ErrorDisplay';
+
+function formatDate(ts: SerializedTimestamp): string {
+  return new Date(ts._seconds * 1000).toLocaleDateString();
+}
+
+function AdminView() {
+  const [allowedEmails, setAllowedEmails] = useState<AllowedEmail[]>([]);
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadAdmin = useCallback(async () => {
+    console.log('[AdminView] Loading allowed emails and users...');
+    setLoading(true);
+    setError(null);
+    try {
+      const [emailsResponse, usersResponse] = await Promise.all([
+        getAllowedEmails(),
+        getAdminUsers(),
+      ]);
+      setAllowedEmails(emailsResponse.allowedEmails);
+      setUsers(usersResponse.users);
+    } catch (err) {
+      console.error('[AdminView] Load failed:', err);
+      setError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAdmin();
+  }, [loadAdmin]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim() || saving) return;
+
+    setSaving(true);
+    setActionError(null);
+    try {
+      const response = await addAllowedEmail(newEmail.trim());
+      setAllowedEmails(response.allowedEmails);
+      setNewEmail('');
+    } catch (err) {
+      console.error('[AdminView] Add allowed email failed:', err);
+      setActionError(parseError(err).userMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (email: string) => {
+    if (saving || !window.confirm(`Remove ${email} from the allowed list?`)) return;
+
+    setSaving(true);
+    setActionError(null);
+    try {
+      const response = await removeAllowedEmail(email);
+      setAllowedEmails(response.allowedEmails);
+    } catch (err) {
+      console.error('[AdminView] Remove allowed email failed:', err);
+      setActionError(parseError(err).userMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading admin</div>;
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} onRetry={loadAdmin} />;
+  }
+
+  return (
+    <div className="admin-view">
+      <h1>Admin</h1>
+
+      <section className="admin-section">
+        <h2>Allowed emails</h2>
+        <p className="admin-intro">
+          Only these addresses can create an account. Removing one stops new
+          sign-ups; it doesn't affect an existing account.
+        </p>
+
+        <form onSubmit={handleAdd} className="admin-add-form">
+          <input
+            type="email"
+            placeholder="name@example.com"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            disabled={saving}
+            required
+          />
+          <button type="submit" disabled={!newEmail.trim() || saving}>
+            Add
+          </button>
+        </form>
+        {actionError && <p className="admin-error">{actionError}</p>}
+
+        {allowedEmails.length === 0 ? (
+          <p className="empty-state">No allowed emails yet.</p>
+        ) : (
+          <ul className="admin-list">
+            {allowedEmails.map((entry) => (
+              <li key={entry.email} className="admin-list-item">
+                <div>
+                  <span className="admin-email">{entry.email}</span>
+                  <span className="admin-meta">
+                    Added {formatDate(entry.addedAt)} by {entry.addedBy}
+                  </span>
+                </div>
+                <button
+                  className="admin-remove"
+                  onClick={() => handleRemove(entry.email)}
+                  disabled={saving}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="admin-section">
+        <h2>Users</h2>
+        {users.length === 0 ? (
+          <p className="empty-state">No users yet.</p>
+        ) : (
+          <ul className="admin-list">
+            {users.map((user) => (
+              <li key={user.userId} className="admin-list-item">
+                <div>
+                  <span className="admin-email">{user.email || user.userId}</span>
+                  <span className="admin-meta">Joined {formatDate(user.createdAt)}</span>
+                </div>
+                <div className="admin-progress">
+                  {user.activeSeason && user.activeArc ? (
+                    <>
+                      Course {user.activeSeason.seasonNumber}, arc {user.activeArc.orderInSeason}:{' '}
+                      {user.activeArc.theme} (day {user.activeArc.dayInArc})
+                    </>
+                  ) : (
+                    <span className="admin-meta">No active course</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default AdminView;
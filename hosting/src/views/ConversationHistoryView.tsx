@@ -2,17 +2,21 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import Markdown from 'react-markdown';
 import { getConversationHistory, ConversationHistoryResponse, ConversationMessage } from '../api/client';
+import { parseError } from '../api/errors';
 import MusicCard from '../components/MusicCard';
 import ImageCard from '../components/ImageCard';
 import TextCard from '../components/TextCard';
 import FramingText from '../components/FramingText';
 import ErrorDisplay from '../components/ErrorDisplay';
+import MessageImages from '../components/MessageImages';
 
 function ConversationHistoryView() {
   const { bundleId } = useParams<{ bundleId: string }>();
   const [data, setData] = useState<ConversationHistoryResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<unknown>(null);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [earlierError, setEarlierError] = useState<string | null>(null);
 
   const loadConversation = useCallback(async () => {
     if (!bundleId) {
@@ -37,6 +41,33 @@ function ConversationHistoryView() {
     loadConversation();
   }, [loadConversation]);
 
+  // Long conversations arrive latest first; earlier messages on request.
+  const loadEarlier = async () => {
+    if (!bundleId || !data || data.nextCursor === null) return;
+    setLoadingEarlier(true);
+    setEarlierError(null);
+    try {
+      const earlier = await getConversationHistory(bundleId, data.nextCursor);
+      setData((shown) =>
+        shown && shown.conversation && earlier.conversation
+          ? {
+              ...shown,
+              conversation: {
+                ...shown.conversation,
+                messages: [...earlier.conversation.messages, ...shown.conversation.messages],
+              },
+              nextCursor: earlier.nextCursor,
+            }
+          : shown
+      );
+    } catch (err) {
+      console.error('[ConversationHistoryView] Loading earlier messages failed:', err);
+      setEarlierError(parseError(err).userMessage);
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
   if (loading) {
     return <div className="loading">Loading</div>;
   }
@@ -118,15 +149,26 @@ function ConversationHistoryView() {
           <p className="empty-state">No messages recorded.</p>
         ) : (
           <div className="messages">
+            {data.nextCursor !== null && (
+              <div className="earlier-messages">
+                <button onClick={loadEarlier} disabled={loadingEarlier}>
+                  {loadingEarlier ? 'Loading…' : 'Show earlier messages'}
+                </button>
+                {earlierError && <p className="chat-error">{earlierError}</p>}
+              </div>
+            )}
             {messages.map((msg, index) => (
               <div key={index} className={`message ${msg.role}`}>
-                <div className="message-content">
-                  {msg.role === 'assistant' ? (
-                    <Markdown>{msg.content}</Markdown>
-                  ) : (
-                    msg.content
-                  )}
-                </div>
+                <MessageImages images={msg.images} />
+                {msg.content && (
+                  <div className="message-content">
+                    {msg.role === 'assistant' ? (
+                      <Markdown>{msg.content}</Markdown>
+                    ) : (
+                      msg.content
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
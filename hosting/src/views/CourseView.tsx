@@ -1,12 +1,19 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import Markdown from 'react-markdown';
 import {
   getSeason,
+  getSeasons,
+  getSeasonById,
   sendSeasonSteerMessage,
   Arc,
   Season,
+  SeasonDetailResponse,
   SeasonSteerMessage,
+  SeasonSummary,
+  SerializedTimestamp,
 } from '../api/client';
+import { parseError } from '../api/errors';
 import ErrorDisplay from '../components/ErrorDisplay';
 
 function statusLabel(status: Arc['status']): string {
@@ -21,16 +28,45 @@ function statusLabel(status: Arc['status']): string {
   }
 }
 
+function formatDate(ts: SerializedTimestamp): string {
+  return new Date(ts._seconds * 1000).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatSpan(
+  start: SerializedTimestamp | null | undefined,
+  end: SerializedTimestamp | null | undefined
+): string | null {
+  if (!start) return null;
+  return end ? `${formatDate(start)} – ${formatDate(end)}` : `Since ${formatDate(start)}`;
+}
+
+function byOrder(arcs: Arc[]): Arc[] {
+  return [...arcs].sort((a, b) => a.orderInSeason - b.orderInSeason);
+}
+
 function CourseView() {
   const [season, setSeason] = useState<Season | null>(null);
   const [arcs, setArcs] = useState<Arc[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<unknown>(null);
 
+  // Season archive: `?season=<id>` shows a past season instead of the current one
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('season');
+  const [seasons, setSeasons] = useState<SeasonSummary[]>([]);
+  const [past, setPast] = useState<SeasonDetailResponse | null>(null);
+  const [pastLoading, setPastLoading] = useState(false);
+  const [pastError, setPastError] = useState<unknown>(null);
+
   // Steering conversation state
   const [steerMessages, setSteerMessages] = useState<SeasonSteerMessage[]>([]);
   const [steerInput, setSteerInput] = useState('');
   const [steerSending, setSteerSending] = useState(false);
+  const [steerError, setSteerError] = useState<string | null>(null);
 
   const steerEndRef = useRef<HTMLDivElement>(null);
 
@@ -39,9 +75,12 @@ function CourseView() {
     setLoading(true);
     setError(null);
     try {
+      // The current season first: the very first load plans it.
       const response = await getSeason();
       setSeason(response.season);
-      setArcs([...response.arcs].sort((a, b) => a.orderInSeason - b.orderInSeason));
+      setArcs(byOrder(response.arcs));
+      const archive = await getSeasons();
+      setSeasons(archive.seasons);
     } catch (err) {
       console.error('[CourseView] Load failed:', err);
       setError(err);
@@ -54,6 +93,36 @@ function CourseView() {
     loadSeason();
   }, [loadSeason]);
 
+  const loadPast = useCallback(async (seasonId: string) => {
+    console.log('[CourseView] Loading past season:', seasonId);
+    setPastLoading(true);
+    setPastError(null);
+    try {
+      const response = await getSeasonById(seasonId);
+      setPast({ ...response, arcs: byOrder(response.arcs) });
+    } catch (err) {
+      console.error('[CourseView] Past season load failed:', err);
+      setPastError(err);
+    } finally {
+      setPastLoading(false);
+    }
+  }, []);
+
+  const viewingPast = !!selectedId && !!season && selectedId !== season.id;
+
+  useEffect(() => {
+    if (viewingPast && selectedId) {
+      loadPast(selectedId);
+    } else {
+      setPast(null);
+      setPastError(null);
+    }
+  }, [viewingPast, selectedId, loadPast]);
+
+  const selectSeason = (seasonId: string) => {
+    setSearchParams(season && seasonId === season.id ? {} : { season: seasonId });
+  };
+
   // Auto-scroll the steering conversation
   useEffect(() => {
     if (steerEndRef.current && steerMessages.length > 0) {
@@ -68,6 +137,7 @@ function CourseView() {
     console.log('[CourseView] Sending steer message:', userMessage.substring(0, 50));
     setSteerInput('');
     setSteerSending(true);
+    setSteerError(null);
 
     const history = steerMessages;
     setSteerMessages((prev) => [...prev, { role: 'user', content: userMessage }]);
@@ -81,7 +151,7 @@ function CourseView() {
 
       // If the syllabus changed, refresh it.
       if (response.arcs) {
-        setArcs([...response.arcs].sort((a, b) => a.orderInSeason - b.orderInSeason));
+        setArcs(byOrder(response.arcs));
         if (response.season) {
           setSeason(response.season);
         }
@@ -90,6 +160,7 @@ function CourseView() {
       console.error('[CourseView] Steer message failed:', err);
       setSteerMessages((prev) => prev.slice(0, -1));
       setSteerInput(userMessage);
+      setSteerError(parseError(err).userMessage);
     } finally {
       setSteerSending(false);
     }
@@ -112,86 +183,143 @@ function CourseView() {
     );
   }
 
+  const shownId = viewingPast ? selectedId : season.id;
+  const shown = viewingPast ? past : { season, arcs };
+  const shownSummary = seasons.find((entry) => entry.season.id === shownId);
+  const shownSpan = shownSummary && formatSpan(shownSummary.startDate, shownSummary.endDate);
+
   return (
     <div className="course-view">
       <header className="course-header">
         <h1>Your Course</h1>
-        <p className="course-subtitle">
-          A syllabus of {arcs.length} themes &mdash; Season {season.seasonNumber}
-        </p>
+        {seasons.length > 1 && (
+          <nav className="season-picker" aria-label="Seasons">
+            {seasons.map(({ season: entry }) => (
+              <button
+                key={entry.id}
+                className={entry.id === shownId ? 'active' : ''}
+                onClick={() => selectSeason(entry.id)}
+              >
+                Season {entry.seasonNumber}
+                {entry.status === 'active' && <span className="season-picker-current">current</span>}
+              </button>
+            ))}
+          </nav>
+        )}
+        {shown && (
+          <p className="course-subtitle">
+            A syllabus of {shown.arcs.length} themes &mdash; Season {shown.season.seasonNumber}
+            {shownSpan && <span className="course-dates"> &middot; {shownSpan}</span>}
+          </p>
+        )}
       </header>
 
-      <ol className="syllabus">
-        {arcs.map((arc) => (
-          <li key={arc.id} className={`syllabus-item status-${arc.status}`}>
-            <div className="syllabus-item-head">
-              <span className="syllabus-order">{arc.orderInSeason}</span>
-              <h2 className="syllabus-theme">{arc.theme}</h2>
-              <span className={`status-badge status-${arc.status}`}>
-                {statusLabel(arc.status)}
-              </span>
-            </div>
-            <p className="syllabus-description">
-              {arc.description || arc.shortDescription}
-            </p>
-          </li>
-        ))}
-      </ol>
-
-      <section className="steering-panel">
-        <h2>Steer your course</h2>
-        <p className="steering-intro">
-          Talk through the planned themes here. You can swap, reorder, remove,
-          or add a topic, or ask for more from a particular angle. Completed and
-          in-progress themes stay fixed.
-        </p>
-
-        <div className="messages">
-          {steerMessages.map((msg, index) => (
-            <div key={index} className={`message ${msg.role}`}>
-              <div className="message-content">
-                {msg.role === 'assistant' ? (
-                  <Markdown>{msg.content}</Markdown>
-                ) : (
-                  msg.content
-                )}
+      {viewingPast && pastLoading && <div className="loading">Loading season</div>}
+      {viewingPast && !!pastError && (
+        <ErrorDisplay error={pastError} onRetry={() => selectedId && loadPast(selectedId)} />
+      )}
+
+      {shown && !(viewingPast && pastLoading) && (
+        <ol className="syllabus">
+          {shown.arcs.map((arc) => (
+            <li key={arc.id} className={`syllabus-item status-${arc.status}`}>
+              <div className="syllabus-item-head">
+                <span className="syllabus-order">{arc.orderInSeason}</span>
+                <h2 className="syllabus-theme">{arc.theme}</h2>
+                <span className={`status-badge status-${arc.status}`}>
+                  {statusLabel(arc.status)}
+                </span>
               </div>
-            </div>
+              {arc.startDate && (
+                <p className="syllabus-dates">{formatSpan(arc.startDate, arc.completedDate)}</p>
+              )}
+              <p className="syllabus-description">
+                {arc.description || arc.shortDescription}
+              </p>
+              {arc.retrospective && (
+                <details className="syllabus-retrospective">
+                  <summary>Looking back</summary>
+                  <Markdown>{arc.retrospective}</Markdown>
+                </details>
+              )}
+            </li>
           ))}
-          {steerSending && (
-            <div className="message assistant">
-              <div className="message-content typing">Thinking</div>
-            </div>
+        </ol>
+      )}
+
+      {viewingPast && past?.memoryProfile && (
+        <section className="season-profile">
+          <h2>What this season showed</h2>
+          {past.memoryProfile.intellectualLeanings.length > 0 && (
+            <ul className="season-profile-leanings">
+              {past.memoryProfile.intellectualLeanings.map((leaning) => (
+                <li key={leaning}>{leaning}</li>
+              ))}
+            </ul>
           )}
-          <div ref={steerEndRef} />
-        </div>
-
-        <div className="chat-input-area">
-          <textarea
-            value={steerInput}
-            onChange={(e) => setSteerInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-                e.preventDefault();
-                if (steerInput.trim() && !steerSending) {
-                  handleSteerSend();
+          {past.memoryProfile.notes && (
+            <p className="season-profile-notes">{past.memoryProfile.notes}</p>
+          )}
+        </section>
+      )}
+
+      {!viewingPast && (
+        <section className="steering-panel">
+          <h2>Steer your course</h2>
+          <p className="steering-intro">
+            Talk through the planned themes here. You can swap, reorder, remove,
+            or add a topic, or ask for more from a particular angle. Completed and
+            in-progress themes stay fixed.
+          </p>
+
+          <div className="messages">
+            {steerMessages.map((msg, index) => (
+              <div key={index} className={`message ${msg.role}`}>
+                <div className="message-content">
+                  {msg.role === 'assistant' ? (
+                    <Markdown>{msg.content}</Markdown>
+                  ) : (
+                    msg.content
+                  )}
+                </div>
+              </div>
+            ))}
+            {steerSending && (
+              <div className="message assistant">
+                <div className="message-content typing">Thinking</div>
+              </div>
+            )}
+            <div ref={steerEndRef} />
+          </div>
+
+          <div className="chat-input-area">
+            {steerError && <p className="chat-error">{steerError}</p>}
+            <textarea
+              value={steerInput}
+              onChange={(e) => setSteerInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  if (steerInput.trim() && !steerSending) {
+                    handleSteerSend();
+                  }
                 }
-              }
-            }}
-            placeholder="Suggest a change to the planned themes..."
-            disabled={steerSending}
-            rows={2}
-          />
-          <div className="chat-actions">
-            <button
-              onClick={handleSteerSend}
-              disabled={!steerInput.trim() || steerSending}
-            >
-              Send
-            </button>
+              }}
+              placeholder="Suggest a change to the planned themes..."
+              disabled={steerSending}
+              rows={2}
+            />
+            <div className="chat-actions">
+              <button
+                onClick={handleSteerSend}
+                disabled={!steerInput.trim() || steerSending}
+              >
+                Send
+              </button>
+            </div>
           </div>
-        </div>
-      </section>
+        </section>
+      )}
     </div>
   );
 }
@@ -1,19 +1,61 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { getHistory, ArcWithBundles } from '../api/client';
+import Markdown from 'react-markdown';
+import {
+  getHistory,
+  downloadExport,
+  importArchive,
+  ArcWithBundles,
+  ExportFormat,
+} from '../api/client';
+import { parseError } from '../api/errors';
 import ErrorDisplay from '../components/ErrorDisplay';
 
+const PAGE_SIZE = 30;
+
+/**
+ * Append an older page. An arc can straddle the page boundary, so bundles of
+ * an arc already shown join its group.
+ */
+function mergeGroups(shown: ArcWithBundles[], page: ArcWithBundles[]): ArcWithBundles[] {
+  const merged = shown.map((group) => ({ ...group, bundles: [...group.bundles] }));
+  for (const group of page) {
+    const existing = merged.find((g) => g.arc.id === group.arc.id);
+    if (existing) {
+      existing.bundles.push(...group.bundles);
+    } else {
+      merged.push(group);
+    }
+  }
+  return merged;
+}
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'epub', label: 'EPUB' },
+  { format: 'json', label: 'JSON' },
+];
+
 function HistoryView() {
   const [arcGroups, setArcGroups] = useState<ArcWithBundles[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<unknown>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const loadHistory = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await getHistory(30);
+      const response = await getHistory(PAGE_SIZE);
       setArcGroups(response.arcGroups);
+      setNextCursor(response.nextCursor);
     } catch (err) {
       setError(err);
     } finally {
@@ -25,6 +67,73 @@ function HistoryView() {
     loadHistory();
   }, [loadHistory]);
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    console.log('[HistoryView] Loading older encounters before', nextCursor);
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const response = await getHistory(PAGE_SIZE, nextCursor);
+      setArcGroups((shown) => mergeGroups(shown, response.arcGroups));
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      console.error('[HistoryView] Load more failed:', err);
+      setLoadMoreError(parseError(err).userMessage);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page as the end of the list comes into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreError) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreError, loadMore]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setExportError(null);
+    try {
+      await downloadExport(format);
+    } catch (err) {
+      console.error('[HistoryView] Export failed:', err);
+      setExportError(parseError(err).userMessage);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      await importArchive(JSON.parse(await file.text()));
+      await loadHistory();
+    } catch (err) {
+      console.error('[HistoryView] Import failed:', err);
+      if (err instanceof SyntaxError) {
+        setImportError('That file is not a JSON export.');
+      } else {
+        // A rejected archive or account: the server says what's wrong.
+        const rejected = err instanceof Error ? err.message.match(/^(?:400|409) (.+)$/) : null;
+        setImportError(rejected ? rejected[1] : parseError(err).userMessage);
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
   if (loading) {
     return <div className="loading">Loading history</div>;
   }
@@ -38,6 +147,19 @@ function HistoryView() {
       <div className="history-view">
         <h1>History</h1>
         <p className="empty-state">No past encounters yet.</p>
+        <div className="history-import">
+          <p>Moving from another account? Restore a JSON export here.</p>
+          <label className={importing ? 'disabled' : undefined}>
+            {importing ? 'Restoring…' : 'Choose export file'}
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              disabled={importing}
+            />
+          </label>
+          {importError && <p className="history-export-error">{importError}</p>}
+        </div>
       </div>
     );
   }
@@ -46,12 +168,32 @@ function HistoryView() {
     <div className="history-view">
       <h1>History</h1>
 
+      <div className="history-export">
+        <span>Download everything:</span>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+          >
+            {exporting === format ? 'Preparing…' : label}
+          </button>
+        ))}
+      </div>
+      {exportError && <p className="history-export-error">{exportError}</p>}
+
       {arcGroups.map((group) => (
         <section key={group.arc.id} className="history-arc-group">
           <h2 className="history-arc-theme">{group.arc.theme}</h2>
           {group.arc.description && (
             <p className="history-arc-description">{group.arc.description}</p>
           )}
+          {group.arc.retrospective && (
+            <div className="history-retrospective">
+              <p className="history-retrospective-label">Looking back</p>
+              <Markdown>{group.arc.retrospective}</Markdown>
+            </div>
+          )}
           <ul className="history-list">
             {[...group.bundles]
               .sort((a, b) => (a.dayInArc || 0) - (b.dayInArc || 0))
@@ -93,6 +235,18 @@ function HistoryView() {
           </ul>
         </section>
       ))}
+
+      {nextCursor && (
+        <div ref={sentinelRef} className="history-more">
+          {loadingMore && <div className="loading">Loading older encounters</div>}
+          {loadMoreError && (
+            <>
+              <p className="history-more-error">{loadMoreError}</p>
+              <button onClick={loadMore}>Try again</button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,115 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { search, SearchField, SearchResult, SearchSnippet } from '../api/client';
+import ErrorDisplay from '../components/ErrorDisplay';
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  music: 'Music',
+  image: 'Image',
+  text: 'Text',
+  framing: 'Framing',
+  conversation: 'Conversation',
+  summary: 'Summary',
+};
+
+// The snippet text with its matched words wrapped in <mark>.
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={i}>{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
+
+function SearchView() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const runSearch = useCallback(async () => {
+    if (!query) {
+      setResults(null);
+      return;
+    }
+    console.log('[SearchView] Searching for:', query);
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await search(query);
+      setResults(response.results);
+    } catch (err) {
+      console.error('[SearchView] Search failed:', err);
+      setError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = input.trim();
+    setSearchParams(q ? { q } : {});
+  };
+
+  return (
+    <div className="search-view">
+      <h1>Search</h1>
+
+      <form className="search-form" onSubmit={handleSubmit}>
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Artists, works, quotes, things you talked about"
+          autoFocus
+        />
+        <button type="submit" disabled={loading}>
+          Search
+        </button>
+      </form>
+
+      {loading && <div className="loading">Searching</div>}
+
+      {!loading && !!error && <ErrorDisplay error={error} onRetry={runSearch} />}
+
+      {!loading && !error && results && results.length === 0 && (
+        <p className="empty-state">Nothing in your past encounters matches "{query}".</p>
+      )}
+
+      {!loading && !error && results && results.length > 0 && (
+        <ul className="search-results">
+          {results.map((result) => (
+            <li key={result.bundleId} className="search-result">
+              <p className="search-result-meta">
+                {result.arcTheme || 'Earlier Encounters'} &middot; Day {result.dayInArc} &middot;{' '}
+                {new Date(result.createdAt._seconds * 1000).toLocaleDateString()}
+              </p>
+              {result.snippets.map((snippet, i) => (
+                <p key={i} className="search-snippet">
+                  <span className="search-snippet-field">{FIELD_LABELS[snippet.field]}</span>
+                  <Highlighted snippet={snippet} />
+                </p>
+              ))}
+              <Link to={`/history/${result.bundleId}/conversation`} className="conversation-link">
+                View conversation &rarr;
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SearchView;
@@ -0,0 +1,275 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  getSettings,
+  updateSettings,
+  DigestSettings,
+  SeasonShape,
+  UserSettings,
+} from '../api/client';
+import { parseError } from '../api/errors';
+import ErrorDisplay from '../components/ErrorDisplay';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Mirrors SEASON_SHAPE_LIMITS on the server.
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i);
+const ARC_COUNTS = range(3, 24);
+const ARC_LENGTHS = range(3, 14);
+
+// Monday first; values are 0 (Sunday) to 6 (Saturday), as the server stores them.
+const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+const DEVICE_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Intl.supportedValuesOf is ES2022; fall back to the zones we know about.
+function timeZoneOptions(current: string): string[] {
+  const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = new Set(intl.supportedValuesOf?.('timeZone') ?? []);
+  zones.add(current);
+  zones.add(DEVICE_TIMEZONE);
+  zones.add('UTC');
+  return [...zones].sort();
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+function SettingsView() {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    console.log('[SettingsView] Loading settings...');
+    setLoading(true);
+    setError(null);
+    try {
+      setSettings(await getSettings());
+    } catch (err) {
+      console.error('[SettingsView] Load failed:', err);
+      setError(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings || saving) return;
+
+    setSaving(true);
+    setSaved(false);
+    setSaveError(null);
+    try {
+      setSettings(await updateSettings(settings));
+      setSaved(true);
+    } catch (err) {
+      console.error('[SettingsView] Save failed:', err);
+      setSaveError(parseError(err).userMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeDigest = (updates: Partial<DigestSettings>) => {
+    setSettings((current) =>
+      current ? { ...current, digest: { ...current.digest, ...updates } } : current
+    );
+    setSaved(false);
+  };
+
+  const changeNextSeason = (updates: Partial<SeasonShape>) => {
+    setSettings((current) =>
+      current ? { ...current, nextSeason: { ...current.nextSeason, ...updates } } : current
+    );
+    setSaved(false);
+  };
+
+  const toggleCadenceDay = (day: number, on: boolean) => {
+    setSettings((current) => {
+      if (!current) return current;
+      const others = current.cadence.days.filter((d) => d !== day);
+      return { ...current, cadence: { days: on ? [...others, day] : others } };
+    });
+    setSaved(false);
+  };
+
+  const changeTimezone = (timezone: string) => {
+    setSettings((current) => (current ? { ...current, timezone } : current));
+    setSaved(false);
+  };
+
+  if (loading) {
+    return <div className="loading">Loading settings</div>;
+  }
+
+  if (error || !settings) {
+    return <ErrorDisplay error={error} onRetry={loadSettings} />;
+  }
+
+  const { digest, timezone, nextSeason, cadence } = settings;
+
+  return (
+    <div className="settings-view">
+      <h1>Settings</h1>
+
+      <form onSubmit={handleSave}>
+        <section className="settings-section">
+          <h2>Time zone</h2>
+          <p className="settings-intro">
+            Each day's encounter starts at midnight here, and daily limits reset
+            then too.
+          </p>
+
+          <label className="settings-field">
+            <span>Your time zone</span>
+            <select
+              value={timezone}
+              onChange={(e) => changeTimezone(e.target.value)}
+              disabled={saving}
+            >
+              {timeZoneOptions(timezone).map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+          </label>
+          {timezone !== DEVICE_TIMEZONE && (
+            <button
+              type="button"
+              className="settings-device-zone"
+              onClick={() => changeTimezone(DEVICE_TIMEZONE)}
+              disabled={saving}
+            >
+              Use this device's time zone ({DEVICE_TIMEZONE.replace(/_/g, ' ')})
+            </button>
+          )}
+        </section>
+
+        <section className="settings-section">
+          <h2>Encounter days</h2>
+          <p className="settings-intro">
+            The days a new encounter arrives. The others are rest days.
+          </p>
+
+          <div className="settings-weekdays">
+            {WEEKDAYS.map(({ day, label }) => {
+              const checked = cadence.days.includes(day);
+              return (
+                <label key={day} className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={(e) => toggleCadenceDay(day, e.target.checked)}
+                    disabled={saving || (checked && cadence.days.length === 1)}
+                  />
+                  {label}
+                </label>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h2>Daily email</h2>
+          <p className="settings-intro">
+            Get each day's encounter by email: the framing, the image, the music
+            and the text, with a link back here to talk it over.
+          </p>
+
+          <label className="settings-checkbox">
+            <input
+              type="checkbox"
+              checked={digest.enabled}
+              onChange={(e) => changeDigest({ enabled: e.target.checked })}
+              disabled={saving}
+            />
+            Email me each day's encounter
+          </label>
+
+          <label className="settings-field">
+            <span>Send it from (your time)</span>
+            <select
+              value={digest.sendHour}
+              onChange={(e) => changeDigest({ sendHour: Number(e.target.value) })}
+              disabled={saving || !digest.enabled}
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h2>Next course</h2>
+          <p className="settings-intro">
+            How your next course is laid out. The course you're in keeps its
+            current shape.
+          </p>
+
+          <label className="settings-field">
+            <span>Arcs per course</span>
+            <select
+              value={nextSeason.arcsPerSeason}
+              onChange={(e) => changeNextSeason({ arcsPerSeason: Number(e.target.value) })}
+              disabled={saving}
+            >
+              {ARC_COUNTS.map((count) => (
+                <option key={count} value={count}>
+                  {count} arcs
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="settings-field">
+            <span>Days per arc</span>
+            <select
+              value={nextSeason.arcDurationDays}
+              onChange={(e) => changeNextSeason({ arcDurationDays: Number(e.target.value) })}
+              disabled={saving}
+            >
+              {ARC_LENGTHS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <div className="settings-actions">
+          <button type="submit" disabled={saving}>
+            {saving ? 'Saving' : 'Save'}
+          </button>
+          {saved && <span className="settings-saved">Saved</span>}
+        </div>
+        {saveError && <p className="settings-error">{saveError}</p>}
+      </form>
+    </div>
+  );
+}
+
+export default SettingsView;
@@ -1,5 +1,15 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { getToday, endArcEarly, TodayReadyResponse, ArcCompletionData, SuggestedReading } from '../api/client';
+import {
+  getToday,
+  endArcEarly,
+  catchUp,
+  TodayReadyResponse,
+  TodayCatchUpResponse,
+  CatchUpChoice,
+  ArcCompletionData,
+  SuggestedReading,
+} from '../api/client';
+import { parseError } from '../api/errors';
 import MusicCard from '../components/MusicCard';
 import ImageCard from '../components/ImageCard';
 import TextCard from '../components/TextCard';
@@ -10,11 +20,26 @@ import ErrorDisplay from '../components/ErrorDisplay';
 // How often to re-poll GET /api/today while the bundle is being generated.
 const POLL_INTERVAL_MS = 4000;
 
+// "Monday, October 19" for a YYYY-MM-DD day; noon keeps it on that date.
+function formatDay(day: string): string {
+  return new Date(`${day}T12:00:00`).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
 function TodayView() {
   const [data, setData] = useState<TodayReadyResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [failed, setFailed] = useState(false);
+  // The next encounter day when today is an off day of the user's cadence.
+  const [nextEncounter, setNextEncounter] = useState<string | null>(null);
+  // The offer to resume, restart or skip the arc after a long absence.
+  const [catchUpOffer, setCatchUpOffer] = useState<TodayCatchUpResponse | null>(null);
+  const [catchingUp, setCatchingUp] = useState(false);
+  const [catchUpError, setCatchUpError] = useState<string | null>(null);
   const [error, setError] = useState<unknown>(null);
   const [endingArc, setEndingArc] = useState(false);
   const [arcCompletion, setArcCompletion] = useState<ArcCompletionData | undefined>();
@@ -36,6 +61,8 @@ function TodayView() {
     setLoading(true);
     setError(null);
     setFailed(false);
+    setNextEncounter(null);
+    setCatchUpOffer(null);
     try {
       const todayResponse = await getToday();
 
@@ -56,6 +83,18 @@ function TodayView() {
         setData(null);
         setGenerating(false);
         setFailed(true);
+      } else if (todayResponse.status === 'rest') {
+        console.log('[TodayView] Rest day; next encounter:', todayResponse.nextEncounter);
+        stopPolling();
+        setData(null);
+        setGenerating(false);
+        setNextEncounter(todayResponse.nextEncounter);
+      } else if (todayResponse.status === 'catch_up') {
+        console.log('[TodayView] Back after', todayResponse.daysAway, 'days; offering catch-up.');
+        stopPolling();
+        setData(null);
+        setGenerating(false);
+        setCatchUpOffer(todayResponse);
       } else {
         // status === 'generating' — keep showing the loading state and poll.
         console.log('[TodayView] Bundle is generating; polling...');
@@ -108,6 +147,62 @@ function TodayView() {
     return <ErrorDisplay error={error} onRetry={loadToday} />;
   }
 
+  const handleCatchUp = async (choice: CatchUpChoice) => {
+    if (catchingUp) return;
+    setCatchingUp(true);
+    setCatchUpError(null);
+    try {
+      await catchUp(choice);
+      await loadToday();
+    } catch (err) {
+      console.error('[TodayView] Catch-up failed:', err);
+      setCatchUpError(parseError(err).userMessage);
+    } finally {
+      setCatchingUp(false);
+    }
+  };
+
+  if (catchUpOffer) {
+    const { arc, dayInArc, daysAway, nextArc } = catchUpOffer;
+    return (
+      <div className="catch-up-view">
+        <h1>Welcome back</h1>
+        <p>
+          It's been {daysAway} days. You were on day {dayInArc} of{' '}
+          {arc.targetDurationDays} of <strong>{arc.theme}</strong>. How would you
+          like to pick it up?
+        </p>
+        <div className="catch-up-choices">
+          <button onClick={() => handleCatchUp('resume')} disabled={catchingUp}>
+            Carry on from day {dayInArc}
+          </button>
+          <button onClick={() => handleCatchUp('restart')} disabled={catchingUp}>
+            Start {arc.theme} again
+          </button>
+          {nextArc && (
+            <button onClick={() => handleCatchUp('skip')} disabled={catchingUp}>
+              Move on to {nextArc.theme}
+            </button>
+          )}
+        </div>
+        {catchUpError && <p className="catch-up-error">{catchUpError}</p>}
+      </div>
+    );
+  }
+
+  if (nextEncounter) {
+    return (
+      <div className="rest-view">
+        <h1>A day of rest</h1>
+        <p>
+          No new encounter today. Let the last one settle, or look back
+          through your history.
+        </p>
+        <p className="rest-next">Your next encounter arrives {formatDay(nextEncounter)}.</p>
+      </div>
+    );
+  }
+
   if (!data) {
     return <div className="error-message">No data available</div>;
   }